@@ -0,0 +1,19 @@
+export type ScriptOptions = Record<string, string | true>;
+
+// --name value pairs and bare flags
+export function parseArgs(args: string[]): { positional: string[], options: ScriptOptions } {
+  const positional: string[] = [];
+  const options: ScriptOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) {
+      positional.push(args[i]);
+    } else if (args[i + 1] !== undefined && !args[i + 1].startsWith('--')) {
+      options[args[i].slice(2)] = args[++i];
+    } else {
+      options[args[i].slice(2)] = true;
+    }
+  }
+
+  return { positional, options };
+}
@@ -0,0 +1,49 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import { DatabaseManager } from '../src/database/databaseManager';
+import { FingerprintManager, encodeFingerprint, formatSimilarity } from '../src/utils/audioFingerprint';
+
+dotenv.config();
+
+// fingerprints media uploaded before duplicate detection existed, --all redoes every media
+const backfill = async () => {
+  console.log('fingerprinting media (ﾉ◕ヮ◕)ﾉ*:･ﾟ✧');
+
+  const db = DatabaseManager.getInstance();
+  await db.init();
+  const fingerprints = FingerprintManager.getInstance();
+
+  const redoAll = process.argv.includes('--all');
+  const media = (await db.getFilteredMedia(undefined, undefined, { includePending: true })).filter(m => redoAll || !m.fingerprint);
+  console.log(`${media.length} media to fingerprint`);
+
+  let done = 0;
+  let failed = 0;
+  for (const item of media) {
+    const filePath = item.normalized_path && fs.existsSync(item.normalized_path) ? item.normalized_path : item.file_path;
+
+    try {
+      const fingerprint = await fingerprints.computeFingerprint(filePath);
+      await db.setFingerprint(item.id, encodeFingerprint(fingerprint));
+      done++;
+      console.log(`[${done + failed}/${media.length}] #${item.id} ${item.title}`);
+    } catch (err) {
+      failed++;
+      console.error(`[${done + failed}/${media.length}] failed #${item.id} ${item.title}: ${err}`);
+    }
+  }
+
+  console.log(`fingerprinted ${done} media, ${failed} failed`);
+
+  const pairs = await fingerprints.findDuplicatePairs();
+  console.log(`${pairs.length} possible duplicates${pairs.length > 0 ? ', merge them with /otoqdupes merge' : ''}`);
+  for (const pair of pairs) {
+    console.log(`  ${formatSimilarity(pair.similarity)} #${pair.a.id} ${pair.a.title} <-> #${pair.b.id} ${pair.b.title}`);
+  }
+};
+
+// run it
+backfill().catch(err => {
+  console.error('fingerprinting failed:', err);
+  process.exit(1);
+});
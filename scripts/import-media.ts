@@ -0,0 +1,219 @@
+import path from 'path';
+import fs from 'fs';
+import dotenv from 'dotenv';
+import { DatabaseManager } from '../src/database/databaseManager';
+import { MediaProcessor } from '../src/utils/mediaProcessor';
+import { FingerprintManager, describeDuplicates } from '../src/utils/audioFingerprint';
+import { EnergyAnalyzer } from '../src/utils/energyAnalysis';
+import { isMediaFile, sidecarKey, parseCsvSidecar, parseJsonSidecar, entryFromTags, ImportEntry } from '../src/utils/mediaImport';
+import { parseArgs } from './args';
+
+dotenv.config();
+
+const MEDIA_DIR = process.env.MEDIA_DIR || path.join(process.cwd(), 'src/media');
+const STATE_FILE = '.otoq-import.json';
+const DEFAULT_SIDECARS = ['otoq-import.csv', 'otoq-import.json'];
+const MAX_CONCURRENCY = 8;
+
+const USAGE = `usage: npm run import-media -- <dir> [--sidecar file.csv|file.json] [--concurrency 2] [--dry-run] [--restart]
+  without --sidecar, ${DEFAULT_SIDECARS.join(' or ')} in the dir is used if it exists
+  files missing from the sidecar fall back to their embedded title/date/genre/album/artist tags
+  progress is saved to <dir>/${STATE_FILE} so a rerun picks up where it stopped, --restart ignores it`;
+
+interface ImportState {
+  done: Record<string, number | null>;
+}
+
+interface Summary {
+  imported: { file: string, mediaId: number, title: string }[];
+  skipped: { file: string, reason: string }[];
+  failed: { file: string, error: string }[];
+  duplicates: { file: string, warning: string }[];
+}
+
+function findMediaFiles(dir: string, root: string = dir): string[] {
+  const files: string[] = [];
+  for (const item of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (item.name.startsWith('.')) continue;
+    const fullPath = path.join(dir, item.name);
+    if (item.isDirectory()) {
+      files.push(...findMediaFiles(fullPath, root));
+    } else if (isMediaFile(item.name)) {
+      files.push(path.relative(root, fullPath));
+    }
+  }
+  return files.sort();
+}
+
+function loadSidecar(dir: string, sidecarOption?: string): Map<string, ImportEntry> {
+  const sidecarPath = sidecarOption
+    ? path.resolve(sidecarOption)
+    : DEFAULT_SIDECARS.map(name => path.join(dir, name)).find(p => fs.existsSync(p));
+
+  if (!sidecarPath) {
+    console.log('no sidecar, reading embedded tags only');
+    return new Map();
+  }
+
+  const text = fs.readFileSync(sidecarPath, 'utf8');
+  const entries = sidecarPath.toLowerCase().endsWith('.json') ? parseJsonSidecar(text) : parseCsvSidecar(text);
+  console.log(`read ${entries.size} entries from ${path.basename(sidecarPath)}`);
+  return entries;
+}
+
+function loadState(statePath: string, restart: boolean): ImportState {
+  if (restart || !fs.existsSync(statePath)) return { done: {} };
+  try {
+    return JSON.parse(fs.readFileSync(statePath, 'utf8'));
+  } catch {
+    console.log(`couldnt read ${STATE_FILE}, starting over`);
+    return { done: {} };
+  }
+}
+
+// same steps as a web upload: copy, normalize, then the db rows
+async function importFile(sourcePath: string, entry: ImportEntry): Promise<{ mediaId: number, duplicateWarning: string | null }> {
+  const db = DatabaseManager.getInstance();
+  const normalizedDir = path.join(MEDIA_DIR, 'normalized');
+  const filePath = path.join(MEDIA_DIR, `${Date.now()}_${path.basename(sourcePath)}`);
+  fs.copyFileSync(sourcePath, filePath);
+
+  let result: { outputPath: string, duration: number };
+  try {
+    result = await MediaProcessor.getInstance().normalizeAndConvert(filePath, normalizedDir);
+  } catch (error) {
+    fs.rmSync(filePath, { force: true });
+    throw error;
+  }
+
+  const [title, ...altAnswers] = entry.answers;
+  const mediaId = await db.addMedia(
+    title,
+    filePath,
+    entry.year ?? undefined,
+    Object.keys(entry.metadata).length > 0 ? JSON.stringify(entry.metadata) : undefined,
+    { source: 'import' }
+  );
+  await db.updateNormalizedPath(mediaId, result.outputPath);
+  await db.tagMedia(mediaId, entry.tags);
+  await db.addPrimaryAnswer(mediaId, title);
+  for (const alt of altAnswers) {
+    await db.addAlternativeAnswer(mediaId, alt);
+  }
+
+  // a failed fingerprint shouldnt fail the import, the backfill script can retry it
+  let duplicateWarning: string | null = null;
+  try {
+    duplicateWarning = describeDuplicates(await FingerprintManager.getInstance().fingerprintMedia(mediaId, result.outputPath));
+  } catch (error) {
+    console.error(`couldnt fingerprint media #${mediaId}: ${error}`);
+  }
+  try {
+    await EnergyAnalyzer.getInstance().analyzeMedia(mediaId, result.outputPath);
+  } catch (error) {
+    console.error(`couldnt analyse media #${mediaId}: ${error}`);
+  }
+
+  return { mediaId, duplicateWarning };
+}
+
+const run = async () => {
+  const { positional, options } = parseArgs(process.argv.slice(2));
+  if (!positional[0] || !fs.existsSync(positional[0]) || !fs.statSync(positional[0]).isDirectory()) {
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  const dir = path.resolve(positional[0]);
+  const dryRun = options['dry-run'] === true;
+  const concurrency = Math.min(Math.max(parseInt(`${options.concurrency}`, 10) || 2, 1), MAX_CONCURRENCY);
+  const statePath = path.join(dir, STATE_FILE);
+
+  console.log(`importing media from ${dir} (ﾉ◕ヮ◕)ﾉ*:･ﾟ✧`);
+
+  const db = DatabaseManager.getInstance();
+  await db.init();
+
+  // a broken sidecar stops everything up front instead of halfway through
+  const sidecar = loadSidecar(dir, typeof options.sidecar === 'string' ? options.sidecar : undefined);
+  const state = loadState(statePath, options.restart === true);
+  const files = findMediaFiles(dir);
+  const summary: Summary = { imported: [], skipped: [], failed: [], duplicates: [] };
+  const claimedTitles = new Set<string>();
+
+  console.log(`found ${files.length} media files, ${Object.keys(state.done).length} done in an earlier run`);
+
+  const saveState = () => {
+    if (!dryRun) fs.writeFileSync(statePath, JSON.stringify(state, null, 2));
+  };
+
+  const processFile = async (file: string) => {
+    const key = sidecarKey(file);
+    if (key in state.done) {
+      summary.skipped.push({ file, reason: 'done in an earlier run' });
+      return;
+    }
+
+    try {
+      const sourcePath = path.join(dir, file);
+      const entry = sidecar.get(key) || entryFromTags(await MediaProcessor.getInstance().readTags(sourcePath));
+      if (!entry) {
+        summary.failed.push({ file, error: 'no sidecar entry and no title tag' });
+        return;
+      }
+
+      const title = entry.answers[0];
+      const existing = await db.getMediaWithTitle(title);
+      if (existing.length > 0 || claimedTitles.has(title.toLowerCase())) {
+        summary.skipped.push({ file, reason: `"${title}" is already in the library${existing.length > 0 ? ` (#${existing[0].id})` : ''}` });
+        state.done[key] = existing[0]?.id ?? null;
+        saveState();
+        return;
+      }
+      claimedTitles.add(title.toLowerCase());
+
+      if (dryRun) {
+        summary.imported.push({ file, mediaId: 0, title });
+        return;
+      }
+
+      const { mediaId, duplicateWarning } = await importFile(sourcePath, entry);
+      summary.imported.push({ file, mediaId, title });
+      if (duplicateWarning) summary.duplicates.push({ file, warning: duplicateWarning });
+      state.done[key] = mediaId;
+      saveState();
+      console.log(`[${Object.keys(state.done).length}/${files.length}] imported ${file} as #${mediaId} ${title}`);
+    } catch (error) {
+      summary.failed.push({ file, error: error instanceof Error ? error.message : `${error}` });
+      console.error(`failed ${file}: ${error}`);
+    }
+  };
+
+  // a few workers pulling from one queue, ffmpeg is the bottleneck
+  const queue = [...files];
+  await Promise.all(Array.from({ length: concurrency }, async () => {
+    while (queue.length > 0) {
+      await processFile(queue.shift()!);
+    }
+  }));
+
+  console.log(`\n${dryRun ? 'dry run: would import' : 'imported'} ${summary.imported.length}, skipped ${summary.skipped.length}, failed ${summary.failed.length}`);
+  for (const item of summary.skipped.filter(s => s.reason !== 'done in an earlier run')) {
+    console.log(`  skipped ${item.file}: ${item.reason}`);
+  }
+  for (const item of summary.failed) {
+    console.log(`  failed ${item.file}: ${item.error}`);
+  }
+  for (const item of summary.duplicates) {
+    console.log(`  possible duplicate ${item.file}: ${item.warning}`);
+  }
+  if (summary.failed.length > 0) {
+    console.log('fix those and run again, finished files are skipped (￣ー￣)ゞ');
+  }
+};
+
+// run it
+run().catch(err => {
+  console.error('import failed:', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
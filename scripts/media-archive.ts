@@ -0,0 +1,74 @@
+import path from 'path';
+import dotenv from 'dotenv';
+import { DatabaseManager } from '../src/database/databaseManager';
+import { MediaArchive, ArchiveSelection, ArchiveError, formatImportReport } from '../src/utils/mediaArchive';
+import { TagExpressionError } from '../src/utils/tagExpression';
+import { parseArgs, ScriptOptions } from './args';
+
+dotenv.config();
+
+const USAGE = `usage:
+  npm run media-export -- [--tags "anime & !op"] [--years 2000-2010] [--ids 1,2,3] [--out otoq-export.tar.gz]
+  npm run media-import -- <archive.tar.gz|archive.zip> [--dry-run]`;
+
+function parseSelection(options: ScriptOptions): ArchiveSelection {
+  const selection: ArchiveSelection = {};
+
+  if (typeof options.tags === 'string') {
+    selection.tags = options.tags;
+  }
+
+  if (typeof options.years === 'string') {
+    const match = options.years.match(/^(\d{4})?-(\d{4})?$/) || options.years.match(/^(\d{4})$/);
+    if (!match) throw new ArchiveError('years should look like 2000-2010, 2000- or -2010');
+    selection.yearStart = match[1] ? parseInt(match[1]) : undefined;
+    selection.yearEnd = match[2] ? parseInt(match[2]) : match.length === 2 ? selection.yearStart : undefined;
+  }
+
+  if (typeof options.ids === 'string') {
+    const ids = options.ids.split(',').map(id => parseInt(id.trim()));
+    if (ids.some(id => isNaN(id))) throw new ArchiveError('ids should be a comma separated list of numbers');
+    selection.ids = ids;
+  }
+
+  return selection;
+}
+
+const run = async () => {
+  const [command, ...rest] = process.argv.slice(2);
+  const { positional, options } = parseArgs(rest);
+  const archive = MediaArchive.getInstance();
+
+  await DatabaseManager.getInstance().init();
+
+  if (command === 'export') {
+    const output = typeof options.out === 'string' ? options.out : `otoq-export-${Date.now()}.tar.gz`;
+    const result = await archive.exportMedia(parseSelection(options), output);
+
+    console.log(`exported ${result.exported} media to ${path.relative(process.cwd(), result.outputPath)} (⌐■_■)`);
+    for (const item of result.missing) {
+      console.log(`  skipped #${item.id} ${item.title}: file missing on disk`);
+    }
+  } else if (command === 'import') {
+    if (!positional[0]) {
+      console.log(USAGE);
+      process.exit(1);
+    }
+
+    const report = await archive.importArchive(positional[0], { dryRun: options['dry-run'] === true });
+    console.log(formatImportReport(report));
+  } else {
+    console.log(USAGE);
+    process.exit(1);
+  }
+};
+
+// run it
+run().catch(err => {
+  if (err instanceof ArchiveError || err instanceof TagExpressionError) {
+    console.error(`${err.message} (￣ヘ￣)`);
+  } else {
+    console.error('media archive failed:', err);
+  }
+  process.exit(1);
+});
@@ -3,6 +3,7 @@
 import { DatabaseManager } from '../src/database/databaseManager'
 import { MediaProcessor } from '../src/utils/mediaProcessor'
 import { AudioPlayerManager } from '../src/utils/audioPlayerManager'
+import { EnergyAnalyzer } from '../src/utils/energyAnalysis'
 import path from 'path'
 import fs from 'fs'
 import dotenv from 'dotenv'
@@ -218,10 +219,42 @@ async function normalizeAllMedia() {
     console.log('no media files need processing (≧ω≦)')
   }
   
+  await analyzeMedia(dbManager, new Set(mediaToProcess.filter(m => m.processed_path).map(m => m.id)))
+  
   console.log('normalization complete (⌐■_■)')
   process.exit(0)
 }
 
+// loudness analysis for clip picking, backfills media that never had one and redoes anything just normalized
+async function analyzeMedia(dbManager: DatabaseManager, reprocessed: Set<number>): Promise<void> {
+  const force = process.argv.includes('--force')
+  const toAnalyze = (await getAllMedia(dbManager)).filter(media =>
+    media.normalized_path && fs.existsSync(media.normalized_path) &&
+    (force || media.energy_regions == null || reprocessed.has(media.id))
+  )
+  
+  if (toAnalyze.length === 0) {
+    console.log('all media already analysed (・ω・)b')
+    return
+  }
+  
+  console.log(`analysing loudness of ${toAnalyze.length} media files...`)
+  const analyzer = EnergyAnalyzer.getInstance()
+  let failed = 0
+  
+  for (const media of toAnalyze) {
+    try {
+      const regions = await analyzer.analyzeMedia(media.id, media.normalized_path)
+      console.log(`media #${media.id}: ${regions.length} loud regions`)
+    } catch (error) {
+      failed++
+      console.error(`couldnt analyse media #${media.id}: ${error}`)
+    }
+  }
+  
+  console.log(`analysed ${toAnalyze.length - failed} media, ${failed} failed`)
+}
+
 async function getAllMedia(db: DatabaseManager): Promise<any[]> {
   return new Promise((resolve, reject) => {
     db['db'].all('SELECT * FROM media', (err: Error | null, rows: any[]) => {
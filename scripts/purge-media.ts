@@ -0,0 +1,42 @@
+import path from 'path';
+import dotenv from 'dotenv';
+import { DatabaseManager } from '../src/database/databaseManager';
+import { purgeDeletedMedia, getRetentionDays } from '../src/utils/mediaLifecycle';
+
+dotenv.config();
+
+const MEDIA_DIR = process.env.MEDIA_DIR || path.join(process.cwd(), 'src/media');
+
+// removes media deleted with /otoqedit delete once MEDIA_RETENTION_DAYS have passed, and lists orphaned files
+const purge = async () => {
+  const dryRun = process.argv.includes('--dry-run');
+  console.log(`purging media deleted over ${getRetentionDays()} days ago${dryRun ? ' (dry run)' : ''} (￣ー￣)ゞ`);
+
+  const db = DatabaseManager.getInstance();
+  await db.init();
+
+  const report = await purgeDeletedMedia(MEDIA_DIR, { dryRun });
+
+  console.log(`${dryRun ? 'would purge' : 'purged'} ${report.purged.length} media and ${report.removedFiles.length} files`);
+  for (const media of report.purged) {
+    console.log(`  #${media.id} ${media.title}`);
+  }
+  for (const item of report.failed) {
+    console.error(`  couldnt remove ${item.file}: ${item.error}`);
+  }
+
+  if (report.orphans.length > 0) {
+    console.log(`${report.orphans.length} orphaned files that no media points at, check them and remove by hand:`);
+    for (const file of report.orphans) {
+      console.log(`  ${path.relative(MEDIA_DIR, file)}`);
+    }
+  } else {
+    console.log('no orphaned files ヽ(・∀・)ﾉ');
+  }
+};
+
+// run it
+purge().catch(err => {
+  console.error('purge failed:', err);
+  process.exit(1);
+});
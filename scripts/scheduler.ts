@@ -3,6 +3,9 @@ import * as cron from 'node-cron';
 import { execSync } from 'child_process';
 import path from 'path';
 import fs from 'fs';
+import dotenv from 'dotenv';
+
+dotenv.config();
 
 // add node-cron to manage scheduled tasks
 // to install: npm install node-cron @types/node-cron
@@ -40,6 +43,31 @@ cron.schedule('0 3 * * *', () => {
   }
 });
 
+// purge media deleted longer than MEDIA_RETENTION_DAYS ago, daily at 4am
+cron.schedule('0 4 * * *', () => {
+  logMessage('running media purge...');
+  try {
+    execSync('npm run purge-media', { stdio: 'inherit' });
+    logMessage('media purge completed');
+  } catch (err) {
+    const error = err as Error;
+    logMessage(`media purge failed: ${error.message}`);
+  }
+});
+
+// season rollover, monthly by default - set SEASON_CRON to change the season length
+const SEASON_CRON = process.env.SEASON_CRON || '0 0 1 * *';
+cron.schedule(SEASON_CRON, () => {
+  logMessage('running season rollover...');
+  try {
+    execSync('npm run season-rollover', { stdio: 'inherit' });
+    logMessage('season rollover completed');
+  } catch (err) {
+    const error = err as Error;
+    logMessage(`season rollover failed: ${error.message}`);
+  }
+});
+
 logMessage('scheduler started (～￣▽￣)～ will run tasks at scheduled times');
 
 // keep process alive
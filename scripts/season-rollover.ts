@@ -0,0 +1,45 @@
+import { REST, Routes } from 'discord.js';
+import dotenv from 'dotenv';
+import { DatabaseManager } from '../src/database/databaseManager';
+import { SeasonManager } from '../src/utils/seasonManager';
+
+dotenv.config();
+
+// ends the current season everywhere and posts the podium, run by the scheduler
+const rollover = async () => {
+  console.log('starting season rollover (ﾉ◕ヮ◕)ﾉ*:･ﾟ✧');
+  
+  await DatabaseManager.getInstance().init();
+  const seasons = SeasonManager.getInstance();
+  const summaries = await seasons.rolloverAll();
+  console.log(`rolled over ${summaries.length} guilds`);
+  
+  if (!process.env.DISCORD_TOKEN) {
+    console.log('no DISCORD_TOKEN, skipping summary posts');
+    return;
+  }
+  
+  const rest = new REST().setToken(process.env.DISCORD_TOKEN);
+  
+  for (const summary of summaries) {
+    if (!summary.channelId) {
+      console.log(`guild ${summary.guildId} has no season channel, skipping summary`);
+      continue;
+    }
+    
+    try {
+      await rest.post(Routes.channelMessages(summary.channelId), {
+        body: { embeds: [seasons.buildSummaryEmbed(summary).toJSON()] }
+      });
+      console.log(`posted season ${summary.season} summary for guild ${summary.guildId}`);
+    } catch (err) {
+      console.error(`couldnt post summary for guild ${summary.guildId}: ${err}`);
+    }
+  }
+};
+
+// run it
+rollover().catch(err => {
+  console.error('season rollover failed:', err);
+  process.exit(1);
+});
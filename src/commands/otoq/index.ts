@@ -9,11 +9,22 @@ import {
   ChatInputCommandInteraction,
   ButtonBuilder,
   ButtonStyle,
-  ActionRowBuilder
+  ActionRowBuilder,
+  ComponentType,
+  MessageCollector,
+  AutocompleteInteraction
 } from 'discord.js';
-import { GameManager } from '../../utils/gameManager';
+import { DatabaseManager } from '../../database/databaseManager';
+import { GameManager, RestoredSession } from '../../utils/gameManager';
 import { AudioPlayerManager } from '../../utils/audioPlayerManager';
-import { MediaItem } from '../../utils/gameSession';
+import { GameSession, MediaItem, TEAM_NAMES } from '../../utils/gameSession';
+import { TeamName, ScoringMode, GameMode, Difficulty, ChoiceTally, YearTally, TagExpression } from '../../utils/types';
+import { parseTagExpression, formatTagExpression, TagExpressionError } from '../../utils/tagExpression';
+import { parseStoredMetadata, formatMetadata } from '../../utils/mediaMetadata';
+import { formatUploader } from '../../utils/uploaders';
+import { buildReportButton } from '../../utils/reportManager';
+import { autocomplete as autocompleteTags } from '../otoqtag/index';
+import { autocomplete as autocompletePacks, isFilterPack } from '../otoqpack/index';
 
 export const data = new SlashCommandBuilder()
   .setName('otoq')
@@ -27,8 +38,9 @@ export const data = new SlashCommandBuilder()
   )
   .addStringOption(option => 
     option.setName('tags')
-      .setDescription('filter by tags (comma separated)')
+      .setDescription('filter by tags, e.g. anime & !op or (ps1 | ps2) & rpg')
       .setRequired(false)
+      .setAutocomplete(true)
   )
   .addIntegerOption(option => 
     option.setName('year-start')
@@ -44,7 +56,149 @@ export const data = new SlashCommandBuilder()
     option.setName('clip')
       .setDescription('play random 10s clips instead of full tracks')
       .setRequired(false)
+  )
+  .addStringOption(option =>
+    option.setName('teams')
+      .setDescription('play red vs blue')
+      .setRequired(false)
+      .addChoices(
+        { name: 'sign-up with buttons', value: 'signup' },
+        { name: 'auto-balance by skill rating', value: 'balanced' }
+      )
+  )
+  .addStringOption(option =>
+    option.setName('scoring')
+      .setDescription('how points are awarded (default: flat)')
+      .setRequired(false)
+      .addChoices(
+        { name: 'flat - 1 point per answer', value: 'flat' },
+        { name: 'speed - faster answers with fewer hints score more', value: 'speed' }
+      )
+  )
+  .addStringOption(option =>
+    option.setName('mode')
+      .setDescription('how answers are given (default: normal)')
+      .setRequired(false)
+      .addChoices(
+        { name: 'normal - type the title in chat', value: 'normal' },
+        { name: 'choice - pick from 4 buttons', value: 'choice' },
+        { name: 'year - guess the release year, closer scores more', value: 'year' }
+      )
+  )
+  .addStringOption(option =>
+    option.setName('difficulty')
+      .setDescription('pick media by how often it gets guessed (default: any)')
+      .setRequired(false)
+      .addChoices(
+        { name: 'easy', value: 'easy' },
+        { name: 'normal', value: 'normal' },
+        { name: 'hard', value: 'hard' },
+        { name: 'mixed - a bit of everything', value: 'mixed' }
+      )
+  )
+  .addStringOption(option =>
+    option.setName('pack')
+      .setDescription('play a saved quiz pack instead of filters (see /otoqpack)')
+      .setRequired(false)
+      .setAutocomplete(true)
+  );
+
+export async function autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+  if (interaction.options.getFocused(true).name === 'pack') {
+    await autocompletePacks(interaction);
+  } else {
+    await autocompleteTags(interaction);
+  }
+}
+
+const TEAM_SIGNUP_TIME = 30000;
+const TEAM_EMOJIS: Record<TeamName, string> = { red: '🔴', blue: '🔵' };
+
+function formatTeamRoster(session: GameSession): string {
+  return TEAM_NAMES.map(team => {
+    const names = session.getPlayers().filter(p => p.team === team).map(p => p.username);
+    return `${TEAM_EMOJIS[team]} **${team}**: ${names.length > 0 ? names.join(', ') : 'nobody yet'}`;
+  }).join('\n');
+}
+
+async function runTeamSignup(textChannel: TextChannel | ThreadChannel, session: GameSession): Promise<void> {
+  const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    TEAM_NAMES.map(team => new ButtonBuilder()
+      .setCustomId(`team_join_${team}`)
+      .setLabel(`join ${team}`)
+      .setStyle(team === 'red' ? ButtonStyle.Danger : ButtonStyle.Primary)
+      .setEmoji(TEAM_EMOJIS[team]))
   );
+  
+  const signupMessage = await textChannel.send({
+    content: `pick a team! round 1 starts in ${TEAM_SIGNUP_TIME / 1000}s`,
+    components: [row]
+  });
+  
+  const collector = signupMessage.createMessageComponentCollector({
+    componentType: ComponentType.Button,
+    time: TEAM_SIGNUP_TIME
+  });
+  
+  collector.on('collect', async (button) => {
+    const team = button.customId.replace('team_join_', '') as TeamName;
+    session.assignTeam(button.user.id, button.user.username, team);
+    await button.reply({ content: `youre on team ${team} ${TEAM_EMOJIS[team]}`, ephemeral: true });
+  });
+  
+  await new Promise(resolve => collector.once('end', resolve));
+  await signupMessage.edit({ content: `teams locked in!\n${formatTeamRoster(session)}`, components: [] });
+}
+
+const CHOICE_LETTERS = ['A', 'B', 'C', 'D'];
+
+function buildChoiceRow(media: MediaItem, choices: MediaItem[]): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    choices.map((choice, i) => new ButtonBuilder()
+      .setCustomId(`quiz_choice_${media.id}_${choice.id}`)
+      .setLabel(`${CHOICE_LETTERS[i]}: ${choice.title}`.slice(0, 80))
+      .setStyle(ButtonStyle.Secondary))
+  );
+}
+
+function formatChoiceTally(tally: ChoiceTally[]): string {
+  return tally.map((choice, i) => {
+    const names = choice.voters.map(v => v.username).join(', ');
+    return `${choice.correct ? '✅' : '❌'} ${CHOICE_LETTERS[i]}: ${choice.title} - ${choice.voters.length}${names ? ` (${names})` : ''}`;
+  }).join('\n');
+}
+
+function formatYearTally(tally: YearTally[]): string {
+  if (tally.length === 0) return '\nno one guessed a year (￣へ￣)';
+  
+  return '\n' + tally.map(guess => {
+    const errorText = guess.error === 0 ? 'exact!' : `off by ${guess.error}`;
+    return `${guess.username}: **${guess.year}** (${errorText}) +${guess.points}`;
+  }).join('\n');
+}
+
+// list each part of a multi-part answer and who got it, empty for plain single answers
+function formatPartsReveal(session: GameSession): string {
+  const parts = session.getRoundParts();
+  if (parts.length < 2) return '';
+  
+  const guessed = session.getGuessedParts();
+  return '\n' + parts.map(({ part, answer }) => {
+    const userId = guessed.get(part);
+    return userId ? `✅ ${part}: **${answer}** (<@${userId}>)` : `❌ ${part}: **${answer}**`;
+  }).join('\n');
+}
+
+// small line under the reveal with the year, where the media is from and who uploaded it
+function formatMediaDetails(media: MediaItem, showYear: boolean = true): string {
+  const details = [
+    showYear && media.year ? `${media.year}` : '',
+    formatMetadata(parseStoredMetadata(media.metadata)),
+    media.uploaded_by ? `uploaded by ${formatUploader(media.uploaded_by)}` : ''
+  ].filter(d => d.length > 0);
+  
+  return details.length > 0 ? `\n-# ${details.join(' · ')}` : '';
+}
 
 // hint generation
 const HINT_PERCENTAGES = [0.25, 0.40, 0.55, 0.70, 0.85];
@@ -72,85 +226,60 @@ function generateHint(title: string, percentToShow: number): string {
   }).join(' ');
 }
 
-export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
-  await interaction.deferReply({ ephemeral: true });
+// the current rounds answer buttons, so a skip can take them down
+const choiceMessages = new WeakMap<GameSession, Message>();
+
+// post the answer buttons when a multiple choice round starts
+async function postChoices(session: GameSession, textChannel: TextChannel | ThreadChannel, media: MediaItem): Promise<void> {
+  const choices = await GameManager.getInstance().prepareChoices(session);
+  choiceMessages.set(session, await textChannel.send({
+    content: `round ${session.getCurrentRound()}/${session.getTotalRounds()}: whats playing? (first click is final)`,
+    components: [buildChoiceRow(media, choices)]
+  }));
+}
+
+async function closeSkippedChoices(session: GameSession): Promise<void> {
+  const message = choiceMessages.get(session);
+  if (!message) return;
   
+  choiceMessages.delete(session);
+  await message.edit({ content: `${message.content}\nround skipped (￣ー￣;)`, components: [] })
+    .catch(err => console.error('failed to close skipped choices:', err));
+}
+
+// hints, timeouts and the guess collector for a running game, shared by new and resumed games
+function attachGameHandlers(guildId: string, textChannel: TextChannel | ThreadChannel, session: GameSession): MessageCollector {
   const gameManager = GameManager.getInstance();
   const audioPlayer = AudioPlayerManager.getInstance();
+  const mode = session.getMode();
   
   // track which media has already shown a screencap and which guild is in control of the session
   const mediaWithScreencapShown = new Set<number>();
   let isSessionActive = true;
   
-  // check if user in voice channel
-  const member = interaction.member as GuildMember;
-  if (!member.voice.channel) {
-    await interaction.editReply('you need to join a voice channel first baka');
-    return;
-  }
-  
-  const voiceChannel = member.voice.channel as VoiceChannel;
-  const textChannel = interaction.channel as TextChannel | ThreadChannel;
-  
-  // check for existing game
-  const session = gameManager.getSession(interaction.guildId!, textChannel.id, textChannel);
-  if (session) {
-    await interaction.editReply('theres already a game running in this channel (●´ω｀●)');
-    return;
-  }
-  
-  // get options
-  const rounds = interaction.options.getInteger('rounds') || 20;
-  const tagsOption = interaction.options.getString('tags');
-  const tags = tagsOption ? tagsOption.toLowerCase().split(',').map(t => t.trim()) : undefined;
-  const yearStart = interaction.options.getInteger('year-start');
-  const yearEnd = interaction.options.getInteger('year-end');
-  const clipMode = interaction.options.getBoolean('clip') || false;
-  
-  // create session
-  const newSession = await gameManager.createSession(
-    interaction.guildId!,
-    textChannel.id,
-    rounds,
-    tags,
-    yearStart || undefined,
-    yearEnd || undefined,
-    textChannel,
-    clipMode
-  );
-  
-  if (!newSession) {
-    if (tags || yearStart || yearEnd) {
-      await interaction.editReply('couldnt find enough media with those filters ¯\\_(ツ)_/¯');
-    } else {
-      await interaction.editReply('failed to create game (╯°□°）╯︵ ┻━┻ try again later');
-    }
-    return;
-  }
-  
-  // join voice channel
-  const joined = await audioPlayer.joinChannel(voiceChannel);
-  if (!joined) {
-    await interaction.editReply('failed to join voice channel (´；ω；`)');
-    await gameManager.endSession(interaction.guildId!, textChannel.id, textChannel);
-    return;
+  if (mode === 'choice') {
+    gameManager.setOnRoundStart(guildId, textChannel.id, media => postChoices(session, textChannel, media), textChannel);
+    gameManager.setOnRoundSkipped(guildId, textChannel.id, () => closeSkippedChoices(session), textChannel);
   }
   
   // setup hint handler
-  audioPlayer.setOnHint(interaction.guildId!, async (mediaItem: MediaItem, hintLevel: number) => {
+  audioPlayer.setOnHint(guildId, async (mediaItem: MediaItem, hintLevel: number) => {
     try {
       // if session isn't active anymore, don't send hints
       if (!isSessionActive) return;
+      
+      // title hints dont help with buttons or year guesses
+      if (mode !== 'normal') return;
 
       // check if session still exists
-      const currentSession = gameManager.getSession(interaction.guildId!, textChannel.id, textChannel);
+      const currentSession = gameManager.getSession(guildId, textChannel.id, textChannel);
       if (!currentSession) {
         isSessionActive = false;
         return;
       }
       
       // check if audio player still has a connection to this guild
-      if (!audioPlayer.hasConnection(interaction.guildId!)) {
+      if (!audioPlayer.hasConnection(guildId)) {
         isSessionActive = false;
         return;
       }
@@ -165,6 +294,7 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
       // generate hint with appropriate percentage
       const percentage = HINT_PERCENTAGES[Math.min(hintLevel, HINT_PERCENTAGES.length - 1)];
       const hint = generateHint(mediaItem.title, percentage);
+      currentSession.registerHint();
       
       // prepare hint message
       const hintNumber = hintLevel + 1;
@@ -198,8 +328,8 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
   });
   
   // setup end handler
-  audioPlayer.setOnAudioEnd(interaction.guildId!, async () => {
-    const currentSession = gameManager.getSession(interaction.guildId!, textChannel.id, textChannel);
+  audioPlayer.setOnAudioEnd(guildId, async () => {
+    const currentSession = gameManager.getSession(guildId, textChannel.id, textChannel);
     if (!currentSession) {
       isSessionActive = false;
       return;
@@ -219,80 +349,54 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
       .setEmoji('✏️');
     
     const row = new ActionRowBuilder<ButtonBuilder>()
-      .addComponents(editButton);
+      .addComponents(editButton, buildReportButton(currentMedia.id));
+    
+    // multiple choice rounds are scored now that time is up
+    const tally = mode === 'choice'
+      ? await gameManager.resolveChoices(guildId, textChannel.id, textChannel)
+      : [];
+    const tallyText = tally.length > 0 ? `\n${formatChoiceTally(tally)}` : '';
+    
+    // same for year guesses, closest first
+    const yearText = mode === 'year'
+      ? formatYearTally(await gameManager.resolveYearGuesses(guildId, textChannel.id, textChannel))
+      : '';
+    
+    if (mode === 'normal') {
+      await gameManager.loadRoundParts(currentSession);
+    }
     
     // send timeout message
     await textChannel.send({
-      content: `times up! the answer was: **${currentMedia.title}** (ID: #${currentMedia.id})`,
-      components: [row]
+      content: `times up! the answer was: **${currentMedia.title}**${mode === 'year' ? ` from **${currentMedia.year}**` : ''} (ID: #${currentMedia.id})${formatMediaDetails(currentMedia, mode !== 'year')}${tallyText}${yearText}${formatPartsReveal(currentSession)}`,
+      components: [row],
+      // the uploader mention is credit, not a ping
+      allowedMentions: { parse: [] }
     });
     
     // advance to next round
-    const success = await gameManager.advanceRound(interaction.guildId!, textChannel.id, textChannel);
+    const success = await gameManager.advanceRound(guildId, textChannel.id, textChannel);
     
     if (!success) {
       collector.stop('game-end');
     }
   });
   
-  // start first round
-  const media = newSession.nextRound();
-  if (!media) {
-    await interaction.editReply('failed to start game (；￣Д￣)');
-    await gameManager.endSession(interaction.guildId!, textChannel.id, textChannel);
-    audioPlayer.leaveChannel(interaction.guildId!);
-    isSessionActive = false;
-    return;
-  }
-  
-  const success = await audioPlayer.playMedia(interaction.guildId!, media, clipMode);
-  if (!success) {
-    await interaction.editReply('couldnt play audio (ノಠ益ಠ)ノ彡┻━┻');
-    await gameManager.endSession(interaction.guildId!, textChannel.id, textChannel);
-    audioPlayer.leaveChannel(interaction.guildId!);
-    isSessionActive = false;
-    return;
-  }
-  
-  // create embed
-  const embed = new EmbedBuilder()
-    .setColor(0x0099FF)
-    .setTitle('audio quiz started!')
-    .setDescription(`round 1/${rounds} started! listen and type the name of the media in chat`)
-    .setFooter({ text: 'type /otoqskip to vote to skip (need 2+ votes)' });
-  
-  if (tags) {
-    embed.addFields({ name: 'filters', value: `tags: ${tags.join(', ')}` });
-  }
-  
-  if (yearStart || yearEnd) {
-    embed.addFields({ name: 'years', value: `${yearStart || 'any'} - ${yearEnd || 'any'}` });
-  }
-  
-  if (clipMode) {
-    embed.addFields({ name: 'mode', value: 'playing random 10s clips' });
-  }
-  
-  // send public game message
-  await textChannel.send({ embeds: [embed] });
-  
-  // reply to interaction
-  await interaction.editReply('game started (≧▽≦)');
-  
+
   // setup message collector for guesses
   const collector = textChannel.createMessageCollector({
     filter: (m: Message) => !m.author.bot
   });
   
   collector.on('collect', async (message: Message) => {
-    const session = gameManager.getSession(interaction.guildId!, textChannel.id, textChannel);
+    const session = gameManager.getSession(guildId, textChannel.id, textChannel);
     if (!session) {
       collector.stop();
       return;
     }
     
     const result = await gameManager.processGuess(
-      interaction.guildId!,
+      guildId,
       textChannel.id,
       message.author.id,
       message.author.username,
@@ -300,12 +404,28 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
       textChannel
     );
     
-    if (result.correct) {
+    if (result.year) {
+      // keep year guesses secret until the reveal
+      await message.react('📅');
+    } else if (result.correct) {
       await message.react('✅');
       
       const currentMedia = session.getCurrentMedia()!;
       console.log(`🎮 CORRECT: ${message.author.username} guessed "${message.content}" for #${currentMedia.id}`);
       
+      const team = session.getPlayerTeam(message.author.id);
+      const teamText = team ? ` for team ${team} ${TEAM_EMOJIS[team]}` : '';
+      const seconds = ((result.answerTimeMs || 0) / 1000).toFixed(1);
+      const scoreText = session.getScoringMode() === 'speed'
+        ? `+${result.points} pts in ${seconds}s`
+        : `in ${seconds}s`;
+      
+      // multi-part media keeps the round open until every part is in
+      if (!result.roundComplete) {
+        await textChannel.send(`${message.author} got the **${result.part}**${teamText}! (${scoreText}) still missing: ${result.remainingParts?.join(', ')}`);
+        return;
+      }
+      
       // create edit button
       const editButton = new ButtonBuilder()
         .setCustomId(`edit_answers_${currentMedia.id}`)
@@ -314,11 +434,12 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
         .setEmoji('✏️');
       
       const row = new ActionRowBuilder<ButtonBuilder>()
-        .addComponents(editButton);
+        .addComponents(editButton, buildReportButton(currentMedia.id));
       
       await textChannel.send({
-        content: `${message.author} got it right! the answer was: **${currentMedia.title}** (ID: #${currentMedia.id})`,
-        components: [row]
+        content: `${message.author} got it right${teamText}! (${scoreText}) the answer was: **${currentMedia.title}** (ID: #${currentMedia.id})${formatMediaDetails(currentMedia)}${formatPartsReveal(session)}`,
+        components: [row],
+        allowedMentions: { users: [message.author.id] }
       });
       
       if (session.isLastRound()) {
@@ -328,7 +449,7 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
       
       // advance to next round
       const success = await gameManager.advanceRound(
-        interaction.guildId!,
+        guildId,
         textChannel.id,
         textChannel,
         message.author.id,
@@ -360,7 +481,7 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
       console.log(`game ended: ${reason}`);
       isSessionActive = false;
       
-      const session = gameManager.getSession(interaction.guildId!, textChannel.id, textChannel);
+      const session = gameManager.getSession(guildId, textChannel.id, textChannel);
       if (session) {
         const leaderboard = session.getLeaderboard();
         
@@ -373,22 +494,254 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
               : 'no one scored any points (￣へ￣)'
           );
         
+        const teams = session.getTeamLeaderboard();
+        if (teams.length > 0) {
+          const winner = teams[0].score > teams[1].score ? teams[0] : null;
+          embed.setDescription(winner ? `team ${winner.team} wins! ${TEAM_EMOJIS[winner.team]}` : 'its a draw (￣▽￣;)');
+          
+          teams.forEach(team => {
+            embed.addFields({
+              name: `${TEAM_EMOJIS[team.team]} team ${team.team}: ${team.score}`,
+              value: team.mvp ? `mvp: ${team.mvp.username} (${team.mvp.score})` : 'no mvp (￣へ￣)'
+            });
+          });
+        }
+        
         if (leaderboard.length > 0 && leaderboard[0].score > 0) {
           leaderboard.slice(0, 10).forEach((player, index) => {
-            embed.addFields({ name: `#${index + 1}: ${player.username}`, value: `score: ${player.score}` });
+            const teamEmoji = player.team ? ` ${TEAM_EMOJIS[player.team]}` : '';
+            embed.addFields({ name: `#${index + 1}: ${player.username}${teamEmoji}`, value: `score: ${player.score}` });
           });
         }
         
         await textChannel.send({ embeds: [embed] });
-        await gameManager.endSession(interaction.guildId!, textChannel.id, textChannel);
+        await gameManager.endSession(guildId, textChannel.id, textChannel);
       }
       
       // cleanup
-      audioPlayer.leaveChannel(interaction.guildId!);
+      audioPlayer.leaveChannel(guildId);
     } catch (error) {
       console.error(`error ending game: ${error}`);
       await textChannel.send('error ending game (╯°□°）╯︵ ┻━┻');
-      audioPlayer.leaveChannel(interaction.guildId!);
+      audioPlayer.leaveChannel(guildId);
     }
   });
-}
\ No newline at end of file
+  
+  return collector;
+}
+
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply({ ephemeral: true });
+  
+  const gameManager = GameManager.getInstance();
+  const audioPlayer = AudioPlayerManager.getInstance();
+  
+  // check if user in voice channel
+  const member = interaction.member as GuildMember;
+  if (!member.voice.channel) {
+    await interaction.editReply('you need to join a voice channel first baka');
+    return;
+  }
+  
+  const voiceChannel = member.voice.channel as VoiceChannel;
+  const textChannel = interaction.channel as TextChannel | ThreadChannel;
+  
+  // check for existing game
+  const session = gameManager.getSession(interaction.guildId!, textChannel.id, textChannel);
+  if (session) {
+    await interaction.editReply('theres already a game running in this channel (●´ω｀●)');
+    return;
+  }
+  
+  // get options
+  let rounds = interaction.options.getInteger('rounds') || 20;
+  let tagsOption = interaction.options.getString('tags');
+  let yearStart = interaction.options.getInteger('year-start');
+  let yearEnd = interaction.options.getInteger('year-end');
+  const clipMode = interaction.options.getBoolean('clip') || false;
+  const teamsOption = interaction.options.getString('teams');
+  const scoring = (interaction.options.getString('scoring') || 'flat') as ScoringMode;
+  const mode = (interaction.options.getString('mode') || 'normal') as GameMode;
+  let difficulty = (interaction.options.getString('difficulty') || undefined) as Difficulty | undefined;
+  const packName = interaction.options.getString('pack');
+  
+  // a pack either fills in the filters or hands over its media list
+  let pack: any = null;
+  if (packName) {
+    pack = await DatabaseManager.getInstance().getPack(interaction.guildId!, packName);
+    if (!pack) {
+      await interaction.editReply(`no pack called "${packName}" here, see /otoqpack list ¯\\_(ツ)_/¯`);
+      return;
+    }
+    
+    if (tagsOption || yearStart || yearEnd || difficulty) {
+      await interaction.editReply('a pack brings its own filters, leave tags, years and difficulty empty (￣ヘ￣)');
+      return;
+    }
+    
+    if (isFilterPack(pack)) {
+      tagsOption = pack.tag_filter;
+      yearStart = pack.year_start;
+      yearEnd = pack.year_end;
+      difficulty = pack.difficulty || undefined;
+    } else if (pack.media_count === 0) {
+      await interaction.editReply(`"${pack.name}" is empty, add media with /otoqpack add (￣ヘ￣)`);
+      return;
+    } else if (!interaction.options.getInteger('rounds')) {
+      // themed nights play the whole pack unless told otherwise
+      rounds = Math.min(pack.media_count, 50);
+    }
+  }
+  
+  let tags: TagExpression | undefined;
+  try {
+    tags = tagsOption ? parseTagExpression(tagsOption) : undefined;
+  } catch (error) {
+    if (!(error instanceof TagExpressionError)) throw error;
+    await interaction.editReply(`cant read that tag filter: ${error.message} (￣ヘ￣)\ntry something like \`anime & !op\` or \`(ps1 | ps2) & rpg\``);
+    return;
+  }
+  const listPack = pack && !isFilterPack(pack);
+  
+  // create session
+  const newSession = await gameManager.createSession(
+    interaction.guildId!,
+    textChannel.id,
+    rounds,
+    tags,
+    yearStart || undefined,
+    yearEnd || undefined,
+    textChannel,
+    clipMode,
+    { teams: !!teamsOption, scoring, mode, difficulty, ...(listPack ? { packId: pack.id, ordered: !!pack.ordered } : {}) }
+  );
+  
+  if (!newSession) {
+    if (listPack && mode === 'year') {
+      await interaction.editReply(`none of the media in "${pack.name}" has a year set, so it cant play in year mode ¯\\_(ツ)_/¯`);
+    } else if (listPack) {
+      await interaction.editReply(`couldnt start "${pack.name}", its media might be gone ¯\\_(ツ)_/¯`);
+    } else if (mode === 'year' && !tags && !yearStart && !yearEnd) {
+      await interaction.editReply('couldnt find enough media with a year set ¯\\_(ツ)_/¯');
+    } else if (tags || yearStart || yearEnd || difficulty) {
+      await interaction.editReply('couldnt find enough media with those filters ¯\\_(ツ)_/¯');
+    } else {
+      await interaction.editReply('failed to create game (╯°□°）╯︵ ┻━┻ try again later');
+    }
+    return;
+  }
+  
+  // join voice channel
+  const joined = await audioPlayer.joinChannel(voiceChannel);
+  if (!joined) {
+    await interaction.editReply('failed to join voice channel (´；ω；`)');
+    await gameManager.endSession(interaction.guildId!, textChannel.id, textChannel);
+    return;
+  }
+  
+  // split players before round 1
+  if (teamsOption === 'signup') {
+    await interaction.editReply('waiting for team sign-up (・∀・)');
+    await runTeamSignup(textChannel, newSession);
+  } else if (teamsOption === 'balanced') {
+    const members = voiceChannel.members
+      .filter(m => !m.user.bot)
+      .map(m => ({ id: m.id, username: m.user.username }));
+    await gameManager.balanceTeams(newSession, members);
+  }
+  
+  // start first round
+  const media = newSession.nextRound();
+  if (!media) {
+    await interaction.editReply('failed to start game (；￣Д￣)');
+    await gameManager.endSession(interaction.guildId!, textChannel.id, textChannel);
+    audioPlayer.leaveChannel(interaction.guildId!);
+    return;
+  }
+  
+  const success = await audioPlayer.playMedia(interaction.guildId!, media, clipMode);
+  if (!success) {
+    await interaction.editReply('couldnt play audio (ノಠ益ಠ)ノ彡┻━┻');
+    await gameManager.endSession(interaction.guildId!, textChannel.id, textChannel);
+    audioPlayer.leaveChannel(interaction.guildId!);
+    return;
+  }
+  
+  // remember where to come back to if the bot restarts mid-game
+  newSession.setVoiceChannelId(voiceChannel.id);
+  await gameManager.checkpointSession(newSession);
+  
+  attachGameHandlers(interaction.guildId!, textChannel, newSession);
+  
+  // create embed
+  const embed = new EmbedBuilder()
+    .setColor(0x0099FF)
+    .setTitle('audio quiz started!')
+    .setDescription(mode === 'choice'
+      ? `round 1/${newSession.getTotalRounds()} started! listen and pick the right answer from the buttons`
+      : mode === 'year'
+        ? `round 1/${newSession.getTotalRounds()} started! listen and type the year you think its from, guesses are revealed when time is up`
+        : `round 1/${newSession.getTotalRounds()} started! listen and type the name of the media in chat`)
+    .setFooter({ text: 'type /otoqskip to vote to skip (need 2+ votes)' });
+  
+  if (pack) {
+    embed.addFields({ name: 'pack', value: pack.name });
+  }
+  
+  if (tags) {
+    embed.addFields({ name: 'filters', value: `tags: ${formatTagExpression(tags)}` });
+  }
+  
+  if (yearStart || yearEnd) {
+    embed.addFields({ name: 'years', value: `${yearStart || 'any'} - ${yearEnd || 'any'}` });
+  }
+  
+  if (clipMode) {
+    embed.addFields({ name: 'mode', value: 'playing random 10s clips' });
+  }
+  
+  if (difficulty) {
+    embed.addFields({ name: 'difficulty', value: difficulty });
+  }
+  
+  if (scoring === 'speed') {
+    embed.addFields({ name: 'scoring', value: 'speed - answer fast and before the hints for more points' });
+  }
+  
+  if (newSession.isTeamMode()) {
+    embed.addFields({ name: 'teams', value: formatTeamRoster(newSession) });
+  }
+  
+  // send public game message
+  await textChannel.send({ embeds: [embed] });
+  
+  if (mode === 'choice') {
+    await postChoices(newSession, textChannel, media);
+  }
+  
+  // reply to interaction
+  await interaction.editReply('game started (≧▽≦)');
+}
+
+
+/**
+ * pick a game back up after a restart, continuing from the round after the interrupted one
+ */
+export async function resumeGame({ session, textChannel, voiceChannel }: RestoredSession): Promise<void> {
+  const gameManager = GameManager.getInstance();
+  const guildId = session.getGuildId();
+  
+  const joined = await AudioPlayerManager.getInstance().joinChannel(voiceChannel);
+  if (!joined) {
+    await gameManager.endSession(guildId, textChannel.id, textChannel);
+    return;
+  }
+  
+  const collector = attachGameHandlers(guildId, textChannel, session);
+  await textChannel.send(`im back! picking the game up after round ${session.getCurrentRound()}/${session.getTotalRounds()} (ง •̀_•́)ง`);
+  
+  const success = await gameManager.advanceRound(guildId, textChannel.id, textChannel);
+  if (!success) {
+    collector.stop('game-end');
+  }
+}
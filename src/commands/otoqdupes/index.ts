@@ -0,0 +1,104 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  PermissionFlagsBits
+} from 'discord.js';
+import { DatabaseManager } from '../../database/databaseManager';
+import { FingerprintManager, DUPLICATE_THRESHOLD, formatSimilarity } from '../../utils/audioFingerprint';
+import { removeUnreferencedFiles } from '../../utils/mediaLifecycle';
+
+export const data = new SlashCommandBuilder()
+  .setName('otoqdupes')
+  .setDescription('find media that sound the same (needs manage server)')
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('list')
+      .setDescription('media pairs that sound like each other')
+      .addIntegerOption(option =>
+        option.setName('min-match')
+          .setDescription(`how alike in percent (default: ${Math.round(DUPLICATE_THRESHOLD * 100)})`)
+          .setRequired(false)
+          .setMinValue(60)
+          .setMaxValue(100)
+      )
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('merge')
+      .setDescription('move answers, tags and history from a duplicate into another media and remove it')
+      .addIntegerOption(option => option.setName('keep').setDescription('media id to keep').setRequired(true))
+      .addIntegerOption(option => option.setName('duplicate').setDescription('media id to merge in and remove').setRequired(true))
+  );
+
+async function listDuplicates(interaction: ChatInputCommandInteraction): Promise<void> {
+  const minMatch = interaction.options.getInteger('min-match');
+  const threshold = minMatch ? minMatch / 100 : DUPLICATE_THRESHOLD;
+
+  const pairs = await FingerprintManager.getInstance().findDuplicatePairs(threshold);
+  const missing = (await DatabaseManager.getInstance().getFilteredMedia(undefined, undefined, { includePending: true })).filter(m => !m.fingerprint).length;
+
+  const lines = pairs.map(p => `**${formatSimilarity(p.similarity)}** #${p.a.id} ${p.a.title} ↔ #${p.b.id} ${p.b.title}`);
+  const embed = new EmbedBuilder()
+    .setColor(0x0099FF)
+    .setTitle(`possible duplicates (${pairs.length})`)
+    .setDescription(lines.length > 0
+      ? (lines.length > 20 ? [...lines.slice(0, 20), `...and ${lines.length - 20} more`] : lines).join('\n').slice(0, 4096)
+      : 'nothing sounds alike ヽ(・∀・)ﾉ');
+
+  if (missing > 0) {
+    embed.setFooter({ text: `${missing} media have no fingerprint yet, run npm run fingerprint to check them too` });
+  } else if (pairs.length > 0) {
+    embed.setFooter({ text: 'merge one into the other with /otoqdupes merge' });
+  }
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
+async function mergeDuplicate(interaction: ChatInputCommandInteraction): Promise<void> {
+  const db = DatabaseManager.getInstance();
+  const keepId = interaction.options.getInteger('keep', true);
+  const duplicateId = interaction.options.getInteger('duplicate', true);
+
+  if (keepId === duplicateId) {
+    await interaction.editReply('cant merge a media into itself (￣ヘ￣)');
+    return;
+  }
+
+  const [keep] = await db.getMediaById(keepId);
+  const [duplicate] = await db.getMediaById(duplicateId);
+  if (!keep || !duplicate) {
+    await interaction.editReply(`media #${keep ? duplicateId : keepId} not found (￣ヘ￣)`);
+    return;
+  }
+
+  const moved = await db.mergeMedia(keepId, duplicateId);
+
+  // the kept media may have taken over the normalized file
+  await removeUnreferencedFiles([duplicate.file_path, duplicate.normalized_path]);
+
+  await interaction.editReply(`merged #${duplicateId} ${duplicate.title} into #${keepId} ${keep.title}, ` +
+    `${moved} new answer${moved === 1 ? '' : 's'} moved over (￣ー￣)ゞ`);
+}
+
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply({ ephemeral: true });
+
+  if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+    await interaction.editReply('you need manage server to look after duplicates (￣ヘ￣)');
+    return;
+  }
+
+  const subcommand = interaction.options.getSubcommand();
+
+  try {
+    if (subcommand === 'list') {
+      await listDuplicates(interaction);
+    } else if (subcommand === 'merge') {
+      await mergeDuplicate(interaction);
+    }
+  } catch (error) {
+    console.error('error handling dupes command:', error);
+    await interaction.editReply('error checking duplicates (╯°□°）╯︵ ┻━┻');
+  }
+}
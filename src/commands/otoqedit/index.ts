@@ -2,13 +2,20 @@ import {
   SlashCommandBuilder, 
   ChatInputCommandInteraction,
   EmbedBuilder,
+  PermissionFlagsBits,
   ButtonBuilder, 
   ButtonStyle,
   ActionRowBuilder 
 } from 'discord.js';
 import { DatabaseManager } from '../../database/databaseManager';
+import { parseStoredMetadata, validateMetadata, parseYear, parseTagList, formatMetadata } from '../../utils/mediaMetadata';
+import { METADATA_FIELDS } from '../../utils/types';
+import { getRetentionDays } from '../../utils/mediaLifecycle';
+import { parseStoredRegions, parseRegionList, normalizeRegions, formatRegion } from '../../utils/clipRegions';
 import path from 'path';
 
+export { autocomplete } from '../otoqtag/index';
+
 export const data = new SlashCommandBuilder()
   .setName('otoqedit')
   .setDescription('edit media answers')
@@ -24,6 +31,7 @@ export const data = new SlashCommandBuilder()
       .setDescription('add new answer to a media')
       .addIntegerOption(option => option.setName('id').setDescription('media id').setRequired(true))
       .addStringOption(option => option.setName('answer').setDescription('new answer to add').setRequired(true))
+      .addStringOption(option => option.setName('part').setDescription('answer part for multi-part media, e.g. artist (default: title)').setRequired(false))
   )
   .addSubcommand(subcommand =>
     subcommand
@@ -31,8 +39,48 @@ export const data = new SlashCommandBuilder()
       .setDescription('remove an answer from a media')
       .addIntegerOption(option => option.setName('media_id').setDescription('media id').setRequired(true))
       .addIntegerOption(option => option.setName('answer_id').setDescription('answer id to remove').setRequired(true))
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('details')
+      .setDescription('set year, tags and metadata of a media')
+      .addIntegerOption(option => option.setName('id').setDescription('media id').setRequired(true))
+      .addIntegerOption(option => option.setName('year').setDescription('release year, 0 to clear').setRequired(false).setMinValue(0).setMaxValue(new Date().getFullYear() + 1))
+      .addStringOption(option => option.setName('tags').setDescription('tags to add (comma separated)').setRequired(false).setAutocomplete(true))
+      .addStringOption(option => option.setName('source').setDescription('show, game or movie its from ("none" to clear)').setRequired(false))
+      .addStringOption(option => option.setName('artist').setDescription('who performs it ("none" to clear)').setRequired(false))
+      .addStringOption(option => option.setName('composer').setDescription('who wrote it ("none" to clear)').setRequired(false))
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('regions')
+      .setDescription('good parts to play: full games start at the first one, clips are picked inside them')
+      .addIntegerOption(option => option.setName('id').setDescription('media id').setRequired(true))
+      .addStringOption(option => option.setName('add').setDescription('start-end like 1:05-1:40, comma separated for more').setRequired(false))
+      .addIntegerOption(option => option.setName('remove').setDescription('region number to remove').setRequired(false).setMinValue(1))
+      .addBooleanOption(option => option.setName('clear').setDescription('remove every region').setRequired(false))
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('delete')
+      .setDescription('take a media out of everything, restorable until the purge (needs manage server)')
+      .addIntegerOption(option => option.setName('id').setDescription('media id').setRequired(true))
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('restore')
+      .setDescription('bring back a deleted media (needs manage server)')
+      .addIntegerOption(option => option.setName('id').setDescription('media id').setRequired(true))
   );
 
+function formatMediaStats(stats: { plays: number, correctRate: number, skipRate: number, medianAnswerTimeMs: number | null, difficulty: string }): string {
+  if (stats.plays === 0) return 'never played yet';
+  
+  const median = stats.medianAnswerTimeMs != null ? `${(stats.medianAnswerTimeMs / 1000).toFixed(1)}s` : 'n/a';
+  return `${stats.difficulty} - ${stats.plays} plays, ${Math.round(stats.correctRate * 100)}% correct, ` +
+    `${Math.round(stats.skipRate * 100)}% skipped, median answer ${median}`;
+}
+
 export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
   await interaction.deferReply({ ephemeral: true });
   
@@ -53,19 +101,25 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
       const media = mediaData[0]; // Extract first item from the array
       
       const answers = await db.getMediaAnswers(mediaId!);
+      const stats = await db.getMediaStats(mediaId!);
+      const tags = await db.getMediaTags(mediaId!);
       
       const embed = new EmbedBuilder()
         .setColor(0x0099FF)
         .setTitle(`answers for media #${mediaId}`)
-        .setDescription(`${media.title} (${path.basename(media.file_path)})`)
+        .setDescription(`${media.title} (${path.basename(media.file_path)})${media.deleted_at ? `\n**deleted** ${media.deleted_at} UTC, /otoqedit restore to bring it back` : ''}`)
         .addFields(
-          { name: 'metadata', value: media.metadata || 'none' }
+          { name: 'year', value: media.year ? `${media.year}` : 'none', inline: true },
+          { name: 'tags', value: tags.length > 0 ? tags.join(', ') : 'none', inline: true },
+          { name: 'metadata', value: formatMetadata(parseStoredMetadata(media.metadata), '\n') || 'none' },
+          { name: 'clip regions', value: parseStoredRegions(media.clip_regions).map(formatRegion).join(', ') || 'none, clips come from anywhere' },
+          { name: 'difficulty', value: formatMediaStats(stats) }
         );
       
       if (answers.length > 0) {
         answers.forEach(answer => {
           embed.addFields({ 
-            name: `${answer.id}: ${answer.is_primary ? '(primary)' : '(alternative)'}`,
+            name: `${answer.id}: ${answer.answer_group ? `[${answer.answer_group}] ` : ''}${answer.is_primary ? '(primary)' : '(alternative)'}`,
             value: answer.answer
           });
         });
@@ -82,6 +136,7 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
   else if (subcommand === 'add') {
     const mediaId = interaction.options.getInteger('id');
     const answer = interaction.options.getString('answer');
+    const part = interaction.options.getString('part')?.trim().toLowerCase() || undefined;
     
     try {
       const mediaData = await db.getMediaById(mediaId || 0);
@@ -93,9 +148,14 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
       
       const media = mediaData[0]; // Extract first item from the array
       
-      const answerId = await db.addAlternativeAnswer(mediaId!, answer!);
+      // the first answer of a new part becomes its primary answer
+      const answers = await db.getMediaAnswers(mediaId!);
+      const isNewPart = part && part !== 'title' && !answers.some(a => a.answer_group === part);
+      const answerId = isNewPart
+        ? await db.addPrimaryAnswer(mediaId!, answer!, part)
+        : await db.addAlternativeAnswer(mediaId!, answer!, part);
       
-      await interaction.editReply(`added answer "${answer}" to media #${mediaId} ヽ(・∀・)ﾉ`);
+      await interaction.editReply(`added answer "${answer}"${part ? ` (${part})` : ''} to media #${mediaId} ヽ(・∀・)ﾉ`);
     } catch (error) {
       console.error('Error adding answer:', error);
       await interaction.editReply('error adding answer (╯°□°）╯︵ ┻━┻');
@@ -127,4 +187,146 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
       await interaction.editReply('error removing answer (╯°□°）╯︵ ┻━┻');
     }
   }
+  else if (subcommand === 'details') {
+    const mediaId = interaction.options.getInteger('id', true);
+    const year = interaction.options.getInteger('year');
+    const tags = parseTagList(interaction.options.getString('tags'));
+    
+    try {
+      const [media] = await db.getMediaById(mediaId);
+      
+      if (!media) {
+        await interaction.editReply({ content: 'Media not found (￣ヘ￣)' });
+        return;
+      }
+      
+      // only touch the fields that were given, "none" clears one
+      const changes: Record<string, string | null> = {};
+      for (const field of METADATA_FIELDS) {
+        const value = interaction.options.getString(field);
+        if (value !== null) changes[field] = value.trim().toLowerCase() === 'none' ? null : value;
+      }
+      
+      let metadata;
+      try {
+        if (year) parseYear(year);
+        metadata = Object.keys(changes).length > 0
+          ? validateMetadata({ ...parseStoredMetadata(media.metadata), ...changes })
+          : undefined;
+      } catch (error) {
+        await interaction.editReply(`${(error as Error).message} (￣ヘ￣)`);
+        return;
+      }
+      
+      if (year === null && metadata === undefined && tags.length === 0) {
+        await interaction.editReply('nothing to change, give a year, tags or metadata (￣ヘ￣)');
+        return;
+      }
+      
+      await db.updateMediaDetails(mediaId, {
+        year: year === null ? undefined : year || null,
+        metadata
+      });
+      await db.tagMedia(mediaId, tags);
+      
+      const [updated] = await db.getMediaById(mediaId);
+      const allTags = await db.getMediaTags(mediaId);
+      
+      const embed = new EmbedBuilder()
+        .setColor(0x00FF00)
+        .setTitle(`updated media #${mediaId}`)
+        .setDescription(updated.title)
+        .addFields(
+          { name: 'year', value: updated.year ? `${updated.year}` : 'none', inline: true },
+          { name: 'tags', value: allTags.length > 0 ? allTags.join(', ') : 'none', inline: true },
+          { name: 'metadata', value: formatMetadata(parseStoredMetadata(updated.metadata), '\n') || 'none' }
+        );
+      
+      await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+      console.error('Error updating details:', error);
+      await interaction.editReply('error updating details (╯°□°）╯︵ ┻━┻');
+    }
+  }
+  else if (subcommand === 'regions') {
+    const mediaId = interaction.options.getInteger('id', true);
+    const add = interaction.options.getString('add');
+    const remove = interaction.options.getInteger('remove');
+    const clear = interaction.options.getBoolean('clear');
+    
+    try {
+      const [media] = await db.getMediaById(mediaId);
+      
+      if (!media) {
+        await interaction.editReply({ content: 'Media not found (￣ヘ￣)' });
+        return;
+      }
+      
+      let regions = clear ? [] : parseStoredRegions(media.clip_regions);
+      
+      if (remove !== null) {
+        if (remove > regions.length) {
+          await interaction.editReply(`#${mediaId} has no region ${remove} (￣ヘ￣)`);
+          return;
+        }
+        regions.splice(remove - 1, 1);
+      }
+      
+      try {
+        if (add) regions = normalizeRegions([...regions, ...parseRegionList(add)]);
+      } catch (error) {
+        await interaction.editReply(`${(error as Error).message} (￣ヘ￣)`);
+        return;
+      }
+      
+      if (add || remove !== null || clear) {
+        await db.setClipRegions(mediaId, regions);
+      }
+      
+      const embed = new EmbedBuilder()
+        .setColor(add || remove !== null || clear ? 0x00FF00 : 0x0099FF)
+        .setTitle(`clip regions for media #${mediaId}`)
+        .setDescription(regions.length > 0
+          ? regions.map((r, i) => `${i + 1}. ${formatRegion(r)}`).join('\n')
+          : 'none, full games start at the beginning and clips come from anywhere')
+        .setFooter({ text: media.title });
+      
+      await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+      console.error('Error updating regions:', error);
+      await interaction.editReply('error updating regions (╯°□°）╯︵ ┻━┻');
+    }
+  }
+  else if (subcommand === 'delete' || subcommand === 'restore') {
+    const mediaId = interaction.options.getInteger('id', true);
+    
+    if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+      await interaction.editReply('you need manage server to delete or restore media (￢_￢)');
+      return;
+    }
+    
+    try {
+      const [media] = await db.getMediaById(mediaId);
+      
+      if (!media) {
+        await interaction.editReply({ content: 'Media not found (￣ヘ￣)' });
+        return;
+      }
+      
+      if (subcommand === 'delete') {
+        const deleted = await db.softDeleteMedia(mediaId);
+        await interaction.editReply(deleted
+          ? `deleted #${mediaId} ${media.title}, /otoqedit restore brings it back for ${getRetentionDays()} days before the files are purged (￣ー￣)ゞ`
+          : `#${mediaId} is already deleted (￣ヘ￣)`);
+      } else {
+        const restored = await db.restoreMedia(mediaId);
+        await interaction.editReply(restored
+          ? `restored #${mediaId} ${media.title} ヽ(・∀・)ﾉ`
+          : `#${mediaId} isnt deleted (￣ヘ￣)`);
+      }
+    } catch (error) {
+      console.error(`Error trying to ${subcommand} media:`, error);
+      await interaction.editReply(`error trying to ${subcommand} media (╯°□°）╯︵ ┻━┻`);
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,98 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  EmbedBuilder
+} from 'discord.js';
+import { DatabaseManager } from '../../database/databaseManager';
+
+export const data = new SlashCommandBuilder()
+  .setName('otoqhistory')
+  .setDescription('show the last rounds played in this channel')
+  .addIntegerOption(option =>
+    option.setName('rounds')
+      .setDescription('number of rounds to show (default: 10)')
+      .setRequired(false)
+      .setMinValue(1)
+      .setMaxValue(25)
+  )
+  .addBooleanOption(option =>
+    option.setName('teams')
+      .setDescription('show results of recent team games in this server instead')
+      .setRequired(false)
+  );
+
+function describeOutcome(round: any): string {
+  if (round.guessed_by) {
+    const timeText = round.answer_time_ms != null ? ` in ${(round.answer_time_ms / 1000).toFixed(1)}s` : '';
+    const pointsText = round.points != null ? ` (+${round.points})` : '';
+    return `guessed by <@${round.guessed_by}>${timeText}${pointsText} after ${round.guess_count} guesses`;
+  }
+  if (round.skipped) return 'skipped';
+  if (round.timed_out) return `timed out after ${round.guess_count} guesses`;
+  return 'unfinished';
+}
+
+async function showTeamHistory(interaction: ChatInputCommandInteraction, limit: number): Promise<void> {
+  const rows = await DatabaseManager.getInstance().getTeamHistory(interaction.guildId!, limit);
+
+  if (rows.length === 0) {
+    await interaction.editReply('no team games played here yet (￣ヘ￣)');
+    return;
+  }
+
+  // rows come back grouped by game, highest team score first
+  const games = new Map<number, any[]>();
+  rows.forEach(row => games.set(row.session_id, [...(games.get(row.session_id) || []), row]));
+
+  const embed = new EmbedBuilder()
+    .setColor(0x0099FF)
+    .setTitle(`last ${games.size} team games`);
+
+  games.forEach((teams, sessionId) => {
+    const winner = teams.find(t => t.won);
+    embed.addFields({
+      name: `game #${sessionId} (${teams[0].started_at}) - ${winner ? `team ${winner.team} won` : 'draw'}`,
+      value: teams.map(t => `${t.team}: ${t.score}${t.mvp_name ? ` (mvp: ${t.mvp_name})` : ''}`).join('\n')
+    });
+  });
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply({ ephemeral: true });
+
+  const db = DatabaseManager.getInstance();
+  const limit = interaction.options.getInteger('rounds') || 10;
+
+  try {
+    if (interaction.options.getBoolean('teams')) {
+      await showTeamHistory(interaction, limit);
+      return;
+    }
+
+    const rounds = await db.getRecentRounds(interaction.guildId!, interaction.channelId, limit);
+
+    if (rounds.length === 0) {
+      await interaction.editReply('no rounds played in this channel yet (￣ヘ￣)');
+      return;
+    }
+
+    const embed = new EmbedBuilder()
+      .setColor(0x0099FF)
+      .setTitle(`last ${rounds.length} rounds`)
+      .setDescription(`game #${rounds[0].session_id}`);
+
+    rounds.forEach(round => {
+      embed.addFields({
+        name: `round ${round.round_number}: ${round.title} (#${round.media_id})`,
+        value: describeOutcome(round)
+      });
+    });
+
+    await interaction.editReply({ embeds: [embed] });
+  } catch (error) {
+    console.error('error listing round history:', error);
+    await interaction.editReply('error loading round history (╯°□°）╯︵ ┻━┻');
+  }
+}
@@ -0,0 +1,305 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  AutocompleteInteraction,
+  EmbedBuilder,
+  PermissionFlagsBits
+} from 'discord.js';
+import { DatabaseManager } from '../../database/databaseManager';
+import { parseTagExpression, formatTagExpression, TagExpressionError } from '../../utils/tagExpression';
+import { Difficulty, PackFilter } from '../../utils/types';
+import { autocomplete as autocompleteTags } from '../otoqtag/index';
+
+const MAX_PACK_NAME = 50;
+
+export const data = new SlashCommandBuilder()
+  .setName('otoqpack')
+  .setDescription('saved quiz packs for themed games')
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('create')
+      .setDescription('make a pack from a filter, or an empty list to add media to')
+      .addStringOption(option => option.setName('name').setDescription('pack name').setRequired(true).setMaxLength(MAX_PACK_NAME))
+      .addStringOption(option => option.setName('media').setDescription('media ids (comma separated) or a title to start the list with').setRequired(false))
+      .addStringOption(option => option.setName('tags').setDescription('save a tag filter instead, e.g. anime & !op').setRequired(false).setAutocomplete(true))
+      .addIntegerOption(option => option.setName('year-start').setDescription('save a start year').setRequired(false))
+      .addIntegerOption(option => option.setName('year-end').setDescription('save an end year').setRequired(false))
+      .addStringOption(option =>
+        option.setName('difficulty')
+          .setDescription('save a difficulty')
+          .setRequired(false)
+          .addChoices(
+            { name: 'easy', value: 'easy' },
+            { name: 'normal', value: 'normal' },
+            { name: 'hard', value: 'hard' },
+            { name: 'mixed', value: 'mixed' }
+          )
+      )
+      .addBooleanOption(option => option.setName('ordered').setDescription('play a media list in the order it was added (default: shuffled)').setRequired(false))
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('add')
+      .setDescription('add media to a pack')
+      .addStringOption(option => option.setName('name').setDescription('pack name').setRequired(true).setAutocomplete(true))
+      .addStringOption(option => option.setName('media').setDescription('media ids (comma separated) or a title to search for').setRequired(true))
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('remove')
+      .setDescription('remove media from a pack')
+      .addStringOption(option => option.setName('name').setDescription('pack name').setRequired(true).setAutocomplete(true))
+      .addStringOption(option => option.setName('media').setDescription('media ids (comma separated) or a title to search for').setRequired(true))
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('list')
+      .setDescription('packs in this server')
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('show')
+      .setDescription('whats in a pack')
+      .addStringOption(option => option.setName('name').setDescription('pack name').setRequired(true).setAutocomplete(true))
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('delete')
+      .setDescription('delete a pack (yours, or any with manage server)')
+      .addStringOption(option => option.setName('name').setDescription('pack name').setRequired(true).setAutocomplete(true))
+  );
+
+// filter packs are saved searches, everything else is a hand picked media list
+export function isFilterPack(pack: any): boolean {
+  return !!(pack.tag_filter || pack.year_start || pack.year_end || pack.difficulty);
+}
+
+export function describePack(pack: any): string {
+  if (!isFilterPack(pack)) {
+    return `${pack.media_count} media${pack.ordered ? ', in order' : ''}`;
+  }
+
+  const parts = [];
+  if (pack.tag_filter) parts.push(`tags ${formatTagExpression(parseTagExpression(pack.tag_filter))}`);
+  if (pack.year_start || pack.year_end) parts.push(`years ${pack.year_start || 'any'} - ${pack.year_end || 'any'}`);
+  if (pack.difficulty) parts.push(pack.difficulty);
+  return `filter: ${parts.join(', ')}`;
+}
+
+/**
+ * suggest this servers packs, the create subcommand suggests tags for its filter instead
+ */
+export async function autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+  const focused = interaction.options.getFocused(true);
+  if (focused.name === 'tags') {
+    await autocompleteTags(interaction);
+    return;
+  }
+
+  try {
+    const packs = await DatabaseManager.getInstance().getPacks(interaction.guildId!, focused.value, 25);
+    await interaction.respond(packs.map(pack => ({
+      name: `${pack.name} (${describePack(pack)})`.slice(0, 100),
+      value: pack.name
+    })));
+  } catch (error) {
+    console.error('error suggesting packs:', error);
+    await interaction.respond([]);
+  }
+}
+
+function formatMediaList(media: any[]): string {
+  const lines = media.map(m => `#${m.id} ${m.title}`);
+  return lines.length > 10 ? [...lines.slice(0, 10), `...and ${lines.length - 10} more`].join('\n') : lines.join('\n');
+}
+
+function canEditPack(interaction: ChatInputCommandInteraction, pack: any): boolean {
+  return pack.created_by === interaction.user.id || !!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild);
+}
+
+// load the named pack and check the user may change it, replies and returns null if not
+async function loadEditablePack(interaction: ChatInputCommandInteraction): Promise<any | null> {
+  const name = interaction.options.getString('name', true);
+  const pack = await DatabaseManager.getInstance().getPack(interaction.guildId!, name);
+
+  if (!pack) {
+    await interaction.editReply(`no pack called "${name}" here ¯\\_(ツ)_/¯`);
+    return null;
+  }
+
+  if (!canEditPack(interaction, pack)) {
+    await interaction.editReply('only whoever made this pack or someone with manage server can change it (￢_￢)');
+    return null;
+  }
+
+  return pack;
+}
+
+async function createPack(interaction: ChatInputCommandInteraction): Promise<void> {
+  const db = DatabaseManager.getInstance();
+  const name = interaction.options.getString('name', true).trim();
+  const mediaQuery = interaction.options.getString('media');
+  const filter: PackFilter = {
+    tagFilter: interaction.options.getString('tags') || undefined,
+    yearStart: interaction.options.getInteger('year-start') || undefined,
+    yearEnd: interaction.options.getInteger('year-end') || undefined,
+    difficulty: (interaction.options.getString('difficulty') || undefined) as Difficulty | undefined
+  };
+  const hasFilter = Object.values(filter).some(value => value !== undefined);
+
+  if (!name) {
+    await interaction.editReply('pack name cant be empty (￣ヘ￣)');
+    return;
+  }
+
+  if (hasFilter && mediaQuery) {
+    await interaction.editReply('a pack is either a filter or a media list, not both (￣ヘ￣)');
+    return;
+  }
+
+  if (await db.getPack(interaction.guildId!, name)) {
+    await interaction.editReply(`theres already a pack called "${name}" (￣ヘ￣)`);
+    return;
+  }
+
+  // save the filter the way it was typed but make sure it parses first
+  if (filter.tagFilter) {
+    try {
+      parseTagExpression(filter.tagFilter);
+    } catch (error) {
+      if (!(error instanceof TagExpressionError)) throw error;
+      await interaction.editReply(`cant read that tag filter: ${error.message} (￣ヘ￣)`);
+      return;
+    }
+  }
+
+  const media = mediaQuery ? await db.findMedia(mediaQuery) : [];
+  if (mediaQuery && media.length === 0) {
+    await interaction.editReply('no media found (￣ヘ￣)');
+    return;
+  }
+
+  // a filter picks fresh media every game, there is no order to keep
+  const ordered = interaction.options.getBoolean('ordered') || false;
+  const packId = await db.createPack(interaction.guildId!, name, interaction.user.id, filter, ordered && !hasFilter);
+  await db.addPackMedia(packId, media.map(m => m.id));
+
+  const pack = await db.getPack(interaction.guildId!, name);
+  await interaction.editReply(`created pack "${name}" (${describePack(pack)}) ヽ(・∀・)ﾉ` +
+    (hasFilter || media.length > 0 ? '' : '\nadd media with /otoqpack add') +
+    (hasFilter && ordered ? '\nordered only applies to media lists, a filter pack always plays shuffled' : '') +
+    `\nplay it with /otoq pack:${name}`);
+}
+
+async function addToPack(interaction: ChatInputCommandInteraction): Promise<void> {
+  const db = DatabaseManager.getInstance();
+  const pack = await loadEditablePack(interaction);
+  if (!pack) return;
+
+  if (isFilterPack(pack)) {
+    await interaction.editReply(`"${pack.name}" is a saved filter, make a new pack for a media list (￣ヘ￣)`);
+    return;
+  }
+
+  const media = await db.findMedia(interaction.options.getString('media', true));
+  if (media.length === 0) {
+    await interaction.editReply('no media found (￣ヘ￣)');
+    return;
+  }
+
+  await db.addPackMedia(pack.id, media.map(m => m.id));
+  await interaction.editReply(`added ${media.length} media to "${pack.name}" ヽ(・∀・)ﾉ\n${formatMediaList(media)}`);
+}
+
+async function removeFromPack(interaction: ChatInputCommandInteraction): Promise<void> {
+  const db = DatabaseManager.getInstance();
+  const pack = await loadEditablePack(interaction);
+  if (!pack) return;
+
+  const media = await db.findMedia(interaction.options.getString('media', true));
+  const removed = await db.removePackMedia(pack.id, media.map(m => m.id));
+
+  await interaction.editReply(removed > 0
+    ? `removed ${removed} media from "${pack.name}" (￣ー￣)ゞ`
+    : `none of that media is in "${pack.name}" ¯\\_(ツ)_/¯`);
+}
+
+async function listPacks(interaction: ChatInputCommandInteraction): Promise<void> {
+  const packs = await DatabaseManager.getInstance().getPacks(interaction.guildId!, '', 50);
+
+  if (packs.length === 0) {
+    await interaction.editReply('no packs here yet, make one with /otoqpack create (￣ヘ￣)');
+    return;
+  }
+
+  const embed = new EmbedBuilder()
+    .setColor(0x0099FF)
+    .setTitle(`quiz packs in ${interaction.guild?.name || 'this server'}`)
+    .setDescription(packs.map(pack => `**${pack.name}** - ${describePack(pack)}`).join('\n').slice(0, 4096));
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
+async function showPack(interaction: ChatInputCommandInteraction): Promise<void> {
+  const db = DatabaseManager.getInstance();
+  const name = interaction.options.getString('name', true);
+  const pack = await db.getPack(interaction.guildId!, name);
+
+  if (!pack) {
+    await interaction.editReply(`no pack called "${name}" here ¯\\_(ツ)_/¯`);
+    return;
+  }
+
+  const embed = new EmbedBuilder()
+    .setColor(0x0099FF)
+    .setTitle(pack.name)
+    .setDescription(describePack(pack))
+    .addFields({ name: 'made by', value: `<@${pack.created_by}>`, inline: true });
+
+  if (!isFilterPack(pack)) {
+    const media = await db.getPackMedia(pack.id);
+    const lines = media.map((m, i) => `${pack.ordered ? `${i + 1}. ` : ''}#${m.id} ${m.title}`);
+    embed.addFields({
+      name: 'media',
+      value: lines.length > 0
+        ? (lines.length > 25 ? [...lines.slice(0, 25), `...and ${lines.length - 25} more`] : lines).join('\n').slice(0, 1024)
+        : 'empty, add some with /otoqpack add'
+    });
+  }
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
+async function deletePack(interaction: ChatInputCommandInteraction): Promise<void> {
+  const pack = await loadEditablePack(interaction);
+  if (!pack) return;
+
+  await DatabaseManager.getInstance().deletePack(pack.id);
+  await interaction.editReply(`deleted pack "${pack.name}" (￣ー￣)ゞ`);
+}
+
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+
+  // showing off packs is fine, editing them is quiet
+  await interaction.deferReply({ ephemeral: subcommand !== 'list' && subcommand !== 'show' });
+
+  try {
+    if (subcommand === 'create') {
+      await createPack(interaction);
+    } else if (subcommand === 'add') {
+      await addToPack(interaction);
+    } else if (subcommand === 'remove') {
+      await removeFromPack(interaction);
+    } else if (subcommand === 'list') {
+      await listPacks(interaction);
+    } else if (subcommand === 'show') {
+      await showPack(interaction);
+    } else if (subcommand === 'delete') {
+      await deletePack(interaction);
+    }
+  } catch (error) {
+    console.error('error handling pack command:', error);
+    await interaction.editReply('error updating packs (╯°□°）╯︵ ┻━┻');
+  }
+}
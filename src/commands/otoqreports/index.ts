@@ -0,0 +1,27 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  PermissionFlagsBits
+} from 'discord.js';
+import { ReportManager } from '../../utils/reportManager';
+
+export const data = new SlashCommandBuilder()
+  .setName('otoqreports')
+  .setDescription('review media reported in this server: fix answers, disable or dismiss (needs manage server)');
+
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply({ ephemeral: true });
+
+  if (!interaction.guildId || !interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+    await interaction.editReply('you need manage server to review reports (￣ヘ￣)');
+    return;
+  }
+
+  try {
+    const { content, embeds, components } = await ReportManager.getInstance().buildReviewList(interaction.guildId);
+    await interaction.editReply({ content, embeds, components });
+  } catch (error) {
+    console.error('error loading reports:', error);
+    await interaction.editReply('error loading reports (╯°□°）╯︵ ┻━┻');
+  }
+}
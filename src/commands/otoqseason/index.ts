@@ -0,0 +1,120 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  ChannelType,
+  PermissionFlagsBits
+} from 'discord.js';
+import { DatabaseManager } from '../../database/databaseManager';
+import { SeasonManager } from '../../utils/seasonManager';
+
+export const data = new SlashCommandBuilder()
+  .setName('otoqseason')
+  .setDescription('past seasons and their podiums')
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('list')
+      .setDescription('podiums of the last few seasons')
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('show')
+      .setDescription('podium of a single season')
+      .addIntegerOption(option => option.setName('season').setDescription('season number').setRequired(true).setMinValue(1))
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('channel')
+      .setDescription('set where season summaries get posted (needs manage server)')
+      .addChannelOption(option =>
+        option.setName('channel')
+          .setDescription('channel for summaries, leave empty to turn them off')
+          .addChannelTypes(ChannelType.GuildText)
+          .setRequired(false)
+      )
+  );
+
+async function listSeasons(interaction: ChatInputCommandInteraction): Promise<void> {
+  const db = DatabaseManager.getInstance();
+  const current = await db.getCurrentSeason(interaction.guildId!);
+  const seasons = await db.getPastSeasons(interaction.guildId!, 5);
+
+  if (seasons.length === 0) {
+    await interaction.editReply(`still in season ${current}, no past seasons yet (￣ヘ￣)`);
+    return;
+  }
+
+  const podiums = await db.getSeasonPodiums(interaction.guildId!, seasons.map(s => s.season));
+  const seasonManager = SeasonManager.getInstance();
+
+  const embed = new EmbedBuilder()
+    .setColor(0xFFD700)
+    .setTitle('past seasons')
+    .setDescription(`currently playing season ${current}`);
+
+  seasons.forEach(season => {
+    embed.addFields({
+      name: `season ${season.season} (ended ${season.ended_at})`,
+      value: seasonManager.formatPodium(podiums.filter(p => p.season === season.season))
+    });
+  });
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
+async function showSeason(interaction: ChatInputCommandInteraction): Promise<void> {
+  const db = DatabaseManager.getInstance();
+  const seasonNumber = interaction.options.getInteger('season', true);
+  const season = await db.getSeason(interaction.guildId!, seasonNumber);
+
+  if (!season) {
+    await interaction.editReply(`season ${seasonNumber} hasnt ended yet or never existed ¯\\_(ツ)_/¯`);
+    return;
+  }
+
+  const podium = await db.getSeasonPodiums(interaction.guildId!, [seasonNumber]);
+
+  const embed = new EmbedBuilder()
+    .setColor(0xFFD700)
+    .setTitle(`season ${seasonNumber}`)
+    .setDescription(SeasonManager.getInstance().formatPodium(podium))
+    .addFields(
+      { name: 'players', value: `${season.players}`, inline: true },
+      { name: 'started', value: season.started_at || 'unknown', inline: true },
+      { name: 'ended', value: season.ended_at, inline: true }
+    );
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
+async function setChannel(interaction: ChatInputCommandInteraction): Promise<void> {
+  if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+    await interaction.editReply('you need manage server for that (￢_￢)');
+    return;
+  }
+
+  const channel = interaction.options.getChannel('channel');
+  await DatabaseManager.getInstance().setSeasonChannel(interaction.guildId!, channel?.id || null);
+
+  await interaction.editReply(channel
+    ? `season summaries will be posted in ${channel} (￣ー￣)ｂ`
+    : 'season summaries turned off (￣ー￣)ゞ');
+}
+
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+  await interaction.deferReply({ ephemeral: subcommand === 'channel' });
+
+  try {
+    if (subcommand === 'list') {
+      await listSeasons(interaction);
+    } else if (subcommand === 'show') {
+      await showSeason(interaction);
+    } else if (subcommand === 'channel') {
+      await setChannel(interaction);
+    }
+  } catch (error) {
+    console.error('error handling season command:', error);
+    await interaction.editReply('error loading seasons (╯°□°）╯︵ ┻━┻');
+  }
+}
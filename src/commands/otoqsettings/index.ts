@@ -0,0 +1,106 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  PermissionFlagsBits,
+  ChannelType
+} from 'discord.js';
+import { DatabaseManager } from '../../database/databaseManager';
+
+export const data = new SlashCommandBuilder()
+  .setName('otoqsettings')
+  .setDescription('quiz settings for this server')
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('show')
+      .setDescription('show the current settings')
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('recency')
+      .setDescription('how long recently played media sits out of new games (needs manage server)')
+      .addIntegerOption(option =>
+        option.setName('games')
+          .setDescription('skip media from the last N games (0 to turn off)')
+          .setRequired(true)
+          .setMinValue(0)
+          .setMaxValue(50)
+      )
+      .addIntegerOption(option =>
+        option.setName('days')
+          .setDescription('also skip media played in the last N days (default: 0, off)')
+          .setRequired(false)
+          .setMinValue(0)
+          .setMaxValue(365)
+      )
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('moderation')
+      .setDescription('send uploads from this server to a mod channel for review first (needs manage server)')
+      .addChannelOption(option =>
+        option.setName('channel')
+          .setDescription('where uploads wait for approval, leave empty to turn review off')
+          .setRequired(false)
+          .addChannelTypes(ChannelType.GuildText)
+      )
+  );
+
+function describeRecency(games: number, days: number): string {
+  const windows = [];
+  if (games > 0) windows.push(`last ${games} games`);
+  if (days > 0) windows.push(`last ${days} days`);
+  return windows.length > 0 ? `media from the ${windows.join(' or ')} sits out when possible` : 'off';
+}
+
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply({ ephemeral: true });
+
+  const db = DatabaseManager.getInstance();
+  const subcommand = interaction.options.getSubcommand();
+
+  try {
+    if (subcommand === 'show') {
+      const recency = await db.getRecencyWindow(interaction.guildId!);
+      const seasonChannel = await db.getSeasonChannel(interaction.guildId!);
+      const modChannel = await db.getModChannel(interaction.guildId!);
+
+      const embed = new EmbedBuilder()
+        .setColor(0x0099FF)
+        .setTitle('otoq settings')
+        .addFields(
+          { name: 'recently played', value: describeRecency(recency.games, recency.days) },
+          { name: 'season summaries', value: seasonChannel ? `<#${seasonChannel}>` : 'off' },
+          { name: 'upload review', value: modChannel ? `uploads wait for approval in <#${modChannel}>` : 'off, uploads go straight into the quiz' }
+        );
+
+      await interaction.editReply({ embeds: [embed] });
+    } else if (subcommand === 'recency') {
+      if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+        await interaction.editReply('you need manage server for that (￢_￢)');
+        return;
+      }
+
+      const games = interaction.options.getInteger('games', true);
+      const days = interaction.options.getInteger('days') || 0;
+      await db.setRecencyWindow(interaction.guildId!, games, days);
+
+      await interaction.editReply(`recently played: ${describeRecency(games, days)} (￣ー￣)ｂ`);
+    } else if (subcommand === 'moderation') {
+      if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+        await interaction.editReply('you need manage server for that (￢_￢)');
+        return;
+      }
+
+      const channel = interaction.options.getChannel('channel');
+      await db.setModChannel(interaction.guildId!, channel?.id || null);
+
+      await interaction.editReply(channel
+        ? `uploads from here now wait for a mod in <#${channel.id}> (￣ー￣)ｂ`
+        : 'upload review is off, uploads go straight into the quiz (￣ー￣)ｂ');
+    }
+  } catch (error) {
+    console.error('error updating settings:', error);
+    await interaction.editReply('error updating settings (╯°□°）╯︵ ┻━┻');
+  }
+}
@@ -0,0 +1,155 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  User
+} from 'discord.js';
+import { DatabaseManager } from '../../database/databaseManager';
+
+export const data = new SlashCommandBuilder()
+  .setName('otoqstats')
+  .setDescription('quiz stats for this server')
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('leaderboard')
+      .setDescription('top players in this server')
+      .addIntegerOption(option =>
+        option.setName('limit')
+          .setDescription('number of players to show (default: 10)')
+          .setRequired(false)
+          .setMinValue(1)
+          .setMaxValue(25)
+      )
+      .addStringOption(option =>
+        option.setName('sort')
+          .setDescription('what to rank by (default: correct answers)')
+          .setRequired(false)
+          .addChoices(
+            { name: 'correct answers', value: 'correct' },
+            { name: 'skill rating', value: 'rating' }
+          )
+      )
+      .addBooleanOption(option =>
+        option.setName('all-time')
+          .setDescription('rank across every season instead of just the current one')
+          .setRequired(false)
+      )
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('me')
+      .setDescription('your stats in this server')
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('user')
+      .setDescription('stats for someone else in this server')
+      .addUserOption(option => option.setName('user').setDescription('who to look up').setRequired(true))
+  );
+
+function formatWinRate(row: any): string {
+  if (!row.games_played) return '0%';
+  return `${Math.round((row.games_won / row.games_played) * 100)}%`;
+}
+
+function formatAnswerTime(row: any): string {
+  return row.avg_answer_time_ms != null ? `${(row.avg_answer_time_ms / 1000).toFixed(1)}s` : 'n/a';
+}
+
+async function showRatingLeaderboard(interaction: ChatInputCommandInteraction, limit: number): Promise<void> {
+  const rows = await DatabaseManager.getInstance().getGuildRatingLeaderboard(interaction.guildId!, limit);
+
+  if (rows.length === 0) {
+    await interaction.editReply('no rated games here yet, ratings need at least 2 players (￣ヘ￣)');
+    return;
+  }
+
+  const embed = new EmbedBuilder()
+    .setColor(0x0099FF)
+    .setTitle(`top ${rows.length} rated players in ${interaction.guild?.name || 'this server'}`)
+    .setDescription(rows.map((row, i) =>
+      `**#${i + 1}** ${row.username || `<@${row.user_id}>`} - ${row.rating} (${row.rated_games} games)`
+    ).join('\n'));
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
+async function showLeaderboard(interaction: ChatInputCommandInteraction): Promise<void> {
+  const db = DatabaseManager.getInstance();
+  const limit = interaction.options.getInteger('limit') || 10;
+  
+  // ratings are global so seasons dont apply
+  if (interaction.options.getString('sort') === 'rating') {
+    await showRatingLeaderboard(interaction, limit);
+    return;
+  }
+  
+  const allTime = interaction.options.getBoolean('all-time') || false;
+  const season = allTime ? undefined : await db.getCurrentSeason(interaction.guildId!);
+  const rows = await db.getGuildLeaderboard(interaction.guildId!, limit, season);
+
+  if (rows.length === 0) {
+    await interaction.editReply(allTime ? 'no one has played here yet (￣ヘ￣)' : `no one has played in season ${season} yet (￣ヘ￣)`);
+    return;
+  }
+
+  const embed = new EmbedBuilder()
+    .setColor(0x0099FF)
+    .setTitle(`top ${rows.length} players in ${interaction.guild?.name || 'this server'}`)
+    .setFooter({ text: allTime ? 'all-time' : `season ${season}` })
+    .setDescription(rows.map((row, i) =>
+      `**#${i + 1}** ${row.username || `<@${row.user_id}>`} - ${row.correct_answers} correct, ${row.games_played} games, ${formatWinRate(row)} wins, avg ${formatAnswerTime(row)}`
+    ).join('\n'));
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
+async function showUserStats(interaction: ChatInputCommandInteraction, user: User): Promise<void> {
+  const db = DatabaseManager.getInstance();
+  const stats = await db.getGuildUserStats(interaction.guildId!, user.id);
+
+  if (!stats) {
+    await interaction.editReply(`${user.username} hasnt played here yet (￣ヘ￣)`);
+    return;
+  }
+
+  const tags = await db.getFavouriteTags(interaction.guildId!, user.id);
+  const [profile] = await db.getUsersByIds([user.id]);
+  const history = await db.getRatingHistory(user.id, 5);
+  const trend = history.map(h => `${h.change >= 0 ? '+' : ''}${h.change}`).join(' ');
+
+  const embed = new EmbedBuilder()
+    .setColor(0x0099FF)
+    .setTitle(`stats for ${user.username}`)
+    .setThumbnail(user.displayAvatarURL())
+    .addFields(
+      { name: 'correct answers', value: `${stats.correct_answers}`, inline: true },
+      { name: 'games played', value: `${stats.games_played}`, inline: true },
+      { name: 'win rate', value: `${formatWinRate(stats)} (${stats.games_won} wins)`, inline: true },
+      { name: 'avg answer time', value: formatAnswerTime(stats), inline: true },
+      { name: 'rating', value: profile?.rated_games ? `${profile.rating}${trend ? ` (last games: ${trend})` : ''}` : 'unrated', inline: true },
+      { name: 'favourite tags', value: tags.length > 0 ? tags.map(t => `${t.name} (${t.count})`).join(', ') : 'none yet', inline: true }
+    );
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+
+  // leaderboards are for showing off, personal stats stay private
+  await interaction.deferReply({ ephemeral: subcommand !== 'leaderboard' });
+
+  try {
+    if (subcommand === 'leaderboard') {
+      await showLeaderboard(interaction);
+    } else if (subcommand === 'me') {
+      await showUserStats(interaction, interaction.user);
+    } else if (subcommand === 'user') {
+      await showUserStats(interaction, interaction.options.getUser('user', true));
+    }
+  } catch (error) {
+    console.error('error loading stats:', error);
+    await interaction.editReply('error loading stats (╯°□°）╯︵ ┻━┻');
+  }
+}
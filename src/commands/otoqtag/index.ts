@@ -0,0 +1,208 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  AutocompleteInteraction,
+  EmbedBuilder,
+  PermissionFlagsBits
+} from 'discord.js';
+import { DatabaseManager } from '../../database/databaseManager';
+
+export const data = new SlashCommandBuilder()
+  .setName('otoqtag')
+  .setDescription('tag media so games can filter on them')
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('add')
+      .setDescription('tag media')
+      .addStringOption(option => option.setName('tag').setDescription('tag name').setRequired(true).setAutocomplete(true))
+      .addStringOption(option => option.setName('media').setDescription('media ids (comma separated) or a title to search for').setRequired(true))
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('remove')
+      .setDescription('untag media')
+      .addStringOption(option => option.setName('tag').setDescription('tag name').setRequired(true).setAutocomplete(true))
+      .addStringOption(option => option.setName('media').setDescription('media ids (comma separated) or a title to search for').setRequired(true))
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('list')
+      .setDescription('list tags and how much media has them')
+      .addStringOption(option => option.setName('media').setDescription('only show tags of this media (id or title)').setRequired(false))
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('rename')
+      .setDescription('rename a tag (needs manage server)')
+      .addStringOption(option => option.setName('tag').setDescription('tag to rename').setRequired(true).setAutocomplete(true))
+      .addStringOption(option => option.setName('name').setDescription('new name').setRequired(true))
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('merge')
+      .setDescription('move all media from one tag to another and delete the first (needs manage server)')
+      .addStringOption(option => option.setName('tag').setDescription('tag to merge away').setRequired(true).setAutocomplete(true))
+      .addStringOption(option => option.setName('into').setDescription('tag to keep').setRequired(true).setAutocomplete(true))
+  );
+
+/**
+ * suggest tags for the last tag being typed, works for plain lists and filters like "anime & !o"
+ */
+export async function autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+  const focused = interaction.options.getFocused();
+  const split = Math.max(...['(', ')', '&', '|', ',', '!'].map(op => focused.lastIndexOf(op)));
+  const before = focused.slice(0, split + 1);
+  const [, lead, current] = focused.slice(split + 1).match(/^(\s*-?)(.*)$/)!;
+  const picked = before.split(/[()&|,!]/).map(t => t.trim().replace(/^-/, '').toLowerCase()).filter(t => t.length > 0);
+
+  try {
+    const tags = await DatabaseManager.getInstance().getTagsWithCounts(current.trim(), 25);
+    await interaction.respond(tags
+      .filter(tag => !picked.includes(tag.name))
+      .map(tag => {
+        const value = `${before}${before.endsWith(',') && !lead ? ' ' : ''}${lead}${tag.name}`.slice(0, 100);
+        return { name: `${value} (${tag.count})`.slice(0, 100), value };
+      }));
+  } catch (error) {
+    console.error('error suggesting tags:', error);
+    await interaction.respond([]);
+  }
+}
+
+function formatMediaList(media: any[]): string {
+  const lines = media.map(m => `#${m.id} ${m.title}`);
+  return lines.length > 10 ? [...lines.slice(0, 10), `...and ${lines.length - 10} more`].join('\n') : lines.join('\n');
+}
+
+async function tagMedia(interaction: ChatInputCommandInteraction): Promise<void> {
+  const db = DatabaseManager.getInstance();
+  const name = interaction.options.getString('tag', true).trim().toLowerCase();
+
+  if (!name) {
+    await interaction.editReply('tag name cant be empty (￣ヘ￣)');
+    return;
+  }
+
+  const media = await db.findMedia(interaction.options.getString('media', true));
+  if (media.length === 0) {
+    await interaction.editReply('no media found (￣ヘ￣)');
+    return;
+  }
+
+  const tagId = await db.addTag(name);
+  for (const m of media) {
+    await db.linkMediaTag(m.id, tagId);
+  }
+
+  await interaction.editReply(`tagged ${media.length} media with "${name}" ヽ(・∀・)ﾉ\n${formatMediaList(media)}`);
+}
+
+async function untagMedia(interaction: ChatInputCommandInteraction): Promise<void> {
+  const db = DatabaseManager.getInstance();
+  const name = interaction.options.getString('tag', true);
+  const tag = await db.getTagByName(name);
+
+  if (!tag) {
+    await interaction.editReply(`no tag called "${name}" ¯\\_(ツ)_/¯`);
+    return;
+  }
+
+  const media = await db.findMedia(interaction.options.getString('media', true));
+  const untagged = [];
+  for (const m of media) {
+    if (await db.unlinkMediaTag(m.id, tag.id)) untagged.push(m);
+  }
+
+  if (untagged.length === 0) {
+    await interaction.editReply(`none of that media was tagged "${tag.name}" ¯\\_(ツ)_/¯`);
+    return;
+  }
+
+  await interaction.editReply(`removed "${tag.name}" from ${untagged.length} media (￣ー￣)ゞ\n${formatMediaList(untagged)}`);
+}
+
+async function listTags(interaction: ChatInputCommandInteraction): Promise<void> {
+  const db = DatabaseManager.getInstance();
+  const mediaQuery = interaction.options.getString('media');
+
+  if (mediaQuery) {
+    const [media] = await db.findMedia(mediaQuery);
+    if (!media) {
+      await interaction.editReply('no media found (￣ヘ￣)');
+      return;
+    }
+
+    const tags = await db.getMediaTags(media.id);
+    await interaction.editReply(tags.length > 0
+      ? `#${media.id} ${media.title}: ${tags.join(', ')}`
+      : `#${media.id} ${media.title} has no tags yet, add some with /otoqtag add`);
+    return;
+  }
+
+  const tags = await db.getTagsWithCounts('', 100);
+  if (tags.length === 0) {
+    await interaction.editReply('no tags yet, add some with /otoqtag add (￣ヘ￣)');
+    return;
+  }
+
+  const embed = new EmbedBuilder()
+    .setColor(0x0099FF)
+    .setTitle(`${tags.length} tags`)
+    .setDescription(tags.map(tag => `**${tag.name}** (${tag.count})`).join(', ').slice(0, 4096));
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
+async function renameTag(interaction: ChatInputCommandInteraction): Promise<void> {
+  const name = interaction.options.getString('tag', true).trim().toLowerCase();
+  const newName = interaction.options.getString('name', true).trim().toLowerCase();
+
+  if (!newName) {
+    await interaction.editReply('tag name cant be empty (￣ヘ￣)');
+    return;
+  }
+
+  const renamed = await DatabaseManager.getInstance().renameTag(name, newName);
+  await interaction.editReply(renamed
+    ? `renamed "${name}" to "${newName}" (￣ー￣)ｂ`
+    : `couldnt rename, "${name}" doesnt exist or "${newName}" is taken (use /otoqtag merge for that) ¯\\_(ツ)_/¯`);
+}
+
+async function mergeTags(interaction: ChatInputCommandInteraction): Promise<void> {
+  const name = interaction.options.getString('tag', true).trim().toLowerCase();
+  const into = interaction.options.getString('into', true).trim().toLowerCase();
+
+  const moved = await DatabaseManager.getInstance().mergeTags(name, into);
+  await interaction.editReply(moved !== null
+    ? `merged "${name}" into "${into}", ${moved} media moved (￣ー￣)ｂ`
+    : `couldnt merge, both tags need to exist and be different ¯\\_(ツ)_/¯`);
+}
+
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply({ ephemeral: true });
+
+  const subcommand = interaction.options.getSubcommand();
+
+  // renaming and merging changes every games filters so keep it to mods
+  if ((subcommand === 'rename' || subcommand === 'merge') && !interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+    await interaction.editReply('you need manage server for that (￢_￢)');
+    return;
+  }
+
+  try {
+    if (subcommand === 'add') {
+      await tagMedia(interaction);
+    } else if (subcommand === 'remove') {
+      await untagMedia(interaction);
+    } else if (subcommand === 'list') {
+      await listTags(interaction);
+    } else if (subcommand === 'rename') {
+      await renameTag(interaction);
+    } else if (subcommand === 'merge') {
+      await mergeTags(interaction);
+    }
+  } catch (error) {
+    console.error('error handling tag command:', error);
+    await interaction.editReply('error updating tags (╯°□°）╯︵ ┻━┻');
+  }
+}
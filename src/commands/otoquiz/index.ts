@@ -4,6 +4,8 @@ import {
 } from 'discord.js';
 import { execute as otoqExecute } from '../otoq/index';
 
+export { autocomplete } from '../otoqtag/index';
+
 export const data = new SlashCommandBuilder()
   .setName('otoquiz')
   .setDescription('Start an audio quiz game (alias for /otoq)')
@@ -16,8 +18,9 @@ export const data = new SlashCommandBuilder()
   )
   .addStringOption(option => 
     option.setName('tags')
-      .setDescription('Filter by tags (comma separated)')
+      .setDescription('Filter by tags, e.g. anime & !op or (ps1 | ps2) & rpg')
       .setRequired(false)
+      .setAutocomplete(true)
   )
   .addIntegerOption(option => 
     option.setName('year-start')
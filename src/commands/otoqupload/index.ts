@@ -11,6 +11,11 @@ import {
 import { DatabaseManager } from '../../database/databaseManager';
 import { AudioPlayerManager } from '../../utils/audioPlayerManager';
 import { MediaProcessor } from '../../utils/mediaProcessor';
+import { FingerprintManager, describeDuplicates, DuplicateMatch } from '../../utils/audioFingerprint';
+import { EnergyAnalyzer } from '../../utils/energyAnalysis';
+import { ModerationManager } from '../../utils/moderationManager';
+import { parseMetadataText, parseYear, parseTagList, formatMetadata } from '../../utils/mediaMetadata';
+import { MediaMetadata } from '../../utils/types';
 import fs from 'fs';
 import path from 'path';
 import dotenv from 'dotenv';
@@ -75,8 +80,33 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
     .setValue(fileNameWithoutExt)
     .setPlaceholder('primary answer (first line)\nalt answer 1\nalt answer 2\netc');
   
+  const yearInput = new TextInputBuilder()
+    .setCustomId('year')
+    .setLabel('year (optional)')
+    .setStyle(TextInputStyle.Short)
+    .setRequired(false)
+    .setMaxLength(4)
+    .setPlaceholder('2004');
+  
+  const tagsInput = new TextInputBuilder()
+    .setCustomId('tags')
+    .setLabel('tags (optional, comma separated)')
+    .setStyle(TextInputStyle.Short)
+    .setRequired(false)
+    .setPlaceholder('anime, op');
+  
+  const metadataInput = new TextInputBuilder()
+    .setCustomId('metadata')
+    .setLabel('metadata (optional, 1 field per line)')
+    .setStyle(TextInputStyle.Paragraph)
+    .setRequired(false)
+    .setPlaceholder('source: show or game\nartist: who performs it\ncomposer: who wrote it');
+  
   modal.addComponents(
-    new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(answersInput)
+    new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(answersInput),
+    new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(yearInput),
+    new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(tagsInput),
+    new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(metadataInput)
   );
   
   // Store attachment URL for use in modal submit
@@ -98,6 +128,18 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
     const title = answers[0];
     const altAnswers = answers.slice(1);
     
+    // check the optional fields before downloading anything
+    let year: number | null;
+    let metadata: MediaMetadata;
+    try {
+      year = parseYear(modalInteraction.fields.getTextInputValue('year'));
+      metadata = parseMetadataText(modalInteraction.fields.getTextInputValue('metadata'));
+    } catch (error) {
+      await modalInteraction.editReply(`${(error as Error).message} (￣ヘ￣)`);
+      return;
+    }
+    const tags = parseTagList(modalInteraction.fields.getTextInputValue('tags'));
+    
     try {
       // Download file
       const response = await fetch(attachment.url)
@@ -123,9 +165,20 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
         const mediaProcessor = MediaProcessor.getInstance()
         const result = await mediaProcessor.normalizeAndConvert(filePath, normalizedDir)
         
+        // with a mod channel set the upload waits there instead of going live
+        const moderation = ModerationManager.getInstance()
+        const reviewChannel = await moderation.getReviewChannel(modalInteraction.guildId)
+        
         // Add to database
         const db = DatabaseManager.getInstance()
-        const mediaId = await db.addMedia(title, filePath)
+        const mediaId = await db.addMedia(
+          title,
+          filePath,
+          year ?? undefined,
+          Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : undefined,
+          { uploadedBy: modalInteraction.user.id, source: 'discord', status: reviewChannel ? 'pending' : 'approved' }
+        )
+        await db.tagMedia(mediaId, tags)
         
         // Update the normalized path in database
         await db.updateNormalizedPath(mediaId, result.outputPath)
@@ -142,14 +195,54 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
           await db.addAlternativeAnswer(mediaId, alt)
         }
         
+        // a failed fingerprint shouldnt fail the upload
+        let duplicates: DuplicateMatch[] = []
+        try {
+          duplicates = await FingerprintManager.getInstance().fingerprintMedia(mediaId, result.outputPath)
+        } catch (error) {
+          console.error(`couldnt fingerprint media #${mediaId}:`, error)
+        }
+        
+        // clips come from the loud parts, without the analysis they are just random
+        try {
+          await EnergyAnalyzer.getInstance().analyzeMedia(mediaId, result.outputPath)
+        } catch (error) {
+          console.error(`couldnt analyse media #${mediaId}:`, error)
+        }
+        
+        const duplicateWarning = describeDuplicates(duplicates)
+        
+        let reviewFailed = false
+        if (reviewChannel) {
+          try {
+            await moderation.submitForReview(mediaId, reviewChannel, duplicateWarning)
+          } catch (error) {
+            console.error(`couldnt post media #${mediaId} for review:`, error)
+            reviewFailed = true
+          }
+        }
+        
         const embed = new EmbedBuilder()
           .setColor(0x00FF00)
-          .setTitle('upload successful')
-          .setDescription(`added **${title}** (ID: ${mediaId}) to the quiz database`)
+          .setTitle(reviewChannel ? 'upload sent for review' : 'upload successful')
+          .setDescription(reviewChannel
+            ? `**${title}** (ID: ${mediaId}) goes live once a mod approves it, you'll get a dm either way` +
+              (reviewFailed ? '\ncouldnt reach the mod channel though, ask a mod to check on it' : '')
+            : `added **${title}** (ID: ${mediaId}) to the quiz database`)
           .addFields(
-            { name: 'alternative answers', value: altAnswers.length > 0 ? altAnswers.join(', ') : 'none' }
+            { name: 'alternative answers', value: altAnswers.length > 0 ? altAnswers.join(', ') : 'none' },
+            { name: 'year', value: year ? `${year}` : 'none', inline: true },
+            { name: 'tags', value: tags.length > 0 ? tags.join(', ') : 'none', inline: true },
+            { name: 'metadata', value: formatMetadata(metadata, '\n') || 'none' }
           )
         
+        if (duplicateWarning) {
+          embed.setColor(0xFFA500).addFields({
+            name: '⚠️ possible duplicate',
+            value: `${duplicateWarning}\nif its the same thing, merge it with /otoqdupes merge`.slice(0, 1024)
+          })
+        }
+        
         await modalInteraction.editReply({ embeds: [embed] })
       } catch (error) {
         console.error('media processing error:', error)
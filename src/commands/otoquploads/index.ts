@@ -0,0 +1,159 @@
+import {
+  SlashCommandBuilder,
+  SlashCommandSubcommandBuilder,
+  ChatInputCommandInteraction,
+  AutocompleteInteraction,
+  EmbedBuilder,
+  PermissionFlagsBits
+} from 'discord.js';
+import { DatabaseManager } from '../../database/databaseManager';
+import { webUploader, formatUploader } from '../../utils/uploaders';
+
+// every subcommand but stats points at one uploader, a discord user or a web name
+function uploaderOptions(subcommand: SlashCommandSubcommandBuilder): SlashCommandSubcommandBuilder {
+  return subcommand
+    .addUserOption(option => option.setName('user').setDescription('discord uploader').setRequired(false))
+    .addStringOption(option =>
+      option.setName('web')
+        .setDescription('name used on the web uploader')
+        .setRequired(false)
+        .setAutocomplete(true)
+    );
+}
+
+export const data = new SlashCommandBuilder()
+  .setName('otoquploads')
+  .setDescription('who uploaded what, and cleaning up after an uploader')
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('stats')
+      .setDescription('top contributors with how their uploads play')
+  )
+  .addSubcommand(subcommand =>
+    uploaderOptions(subcommand
+      .setName('list')
+      .setDescription('everything one uploader added (needs manage server)'))
+  )
+  .addSubcommand(subcommand =>
+    uploaderOptions(subcommand
+      .setName('disable')
+      .setDescription('take everything from one uploader out of the quiz (needs manage server)'))
+  )
+  .addSubcommand(subcommand =>
+    uploaderOptions(subcommand
+      .setName('enable')
+      .setDescription('undo disable for one uploader, pending uploads go back to review (needs manage server)'))
+  );
+
+export async function autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+  const focused = interaction.options.getFocused().toLowerCase();
+
+  try {
+    const uploaders = await DatabaseManager.getInstance().getUploaderStats(100);
+    await interaction.respond(uploaders
+      .filter(u => u.uploadedBy.startsWith('web:') && u.uploadedBy.includes(focused))
+      .slice(0, 25)
+      .map(u => {
+        const name = u.uploadedBy.slice('web:'.length);
+        return { name: `${name} (${u.uploads})`.slice(0, 100), value: name.slice(0, 100) };
+      }));
+  } catch (error) {
+    console.error('error suggesting uploaders:', error);
+    await interaction.respond([]);
+  }
+}
+
+function getUploader(interaction: ChatInputCommandInteraction): string | null {
+  const user = interaction.options.getUser('user');
+  if (user) return user.id;
+  return webUploader(interaction.options.getString('web'));
+}
+
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+async function showStats(interaction: ChatInputCommandInteraction): Promise<void> {
+  const stats = await DatabaseManager.getInstance().getUploaderStats(15);
+
+  const lines = stats.map((s, i) => {
+    const extra = [
+      s.pending > 0 ? `${s.pending} pending` : '',
+      s.disabled > 0 ? `${s.disabled} disabled` : ''
+    ].filter(e => e.length > 0);
+    return `**${i + 1}.** ${formatUploader(s.uploadedBy)}: ${s.uploads} upload${s.uploads === 1 ? '' : 's'}` +
+      `${extra.length > 0 ? ` (${extra.join(', ')})` : ''}, played ${s.plays} times, ${formatPercent(s.correctRate)} guessed`;
+  });
+
+  const embed = new EmbedBuilder()
+    .setColor(0x0099FF)
+    .setTitle('top contributors')
+    .setDescription(lines.length > 0 ? lines.join('\n').slice(0, 4096) : 'no attributed uploads yet (´・ω・`)');
+
+  await interaction.editReply({ embeds: [embed], allowedMentions: { parse: [] } });
+}
+
+async function listUploads(interaction: ChatInputCommandInteraction, uploadedBy: string): Promise<void> {
+  const media = await DatabaseManager.getInstance().getUploaderMedia(uploadedBy);
+  if (media.length === 0) {
+    await interaction.editReply({ content: `nothing uploaded by ${formatUploader(uploadedBy)} (￣ヘ￣)`, allowedMentions: { parse: [] } });
+    return;
+  }
+
+  const lines = media.map(m => `#${m.id} ${m.title}${m.status !== 'approved' ? ` *(${m.status})*` : ''}`);
+  const embed = new EmbedBuilder()
+    .setColor(0x0099FF)
+    .setTitle(`uploads (${media.length})`)
+    .setDescription(`by ${formatUploader(uploadedBy)}\n\n` +
+      (lines.length > 40 ? [...lines.slice(0, 40), `...and ${lines.length - 40} more`] : lines).join('\n').slice(0, 3900));
+
+  await interaction.editReply({ embeds: [embed], allowedMentions: { parse: [] } });
+}
+
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply({ ephemeral: true });
+
+  const db = DatabaseManager.getInstance();
+  const subcommand = interaction.options.getSubcommand();
+
+  try {
+    if (subcommand === 'stats') {
+      await showStats(interaction);
+      return;
+    }
+
+    if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+      await interaction.editReply('you need manage server to look through uploads (￣ヘ￣)');
+      return;
+    }
+
+    const uploadedBy = getUploader(interaction);
+    if (!uploadedBy) {
+      await interaction.editReply('pick a user or a web uploader name (￣ヘ￣)');
+      return;
+    }
+
+    if (subcommand === 'list') {
+      await listUploads(interaction, uploadedBy);
+    } else if (subcommand === 'disable') {
+      const changed = await db.disableUploader(uploadedBy);
+      await interaction.editReply({
+        content: changed > 0
+          ? `disabled ${changed} upload${changed === 1 ? '' : 's'} from ${formatUploader(uploadedBy)}, undo it with /otoquploads enable (￣ー￣)ゞ`
+          : `${formatUploader(uploadedBy)} has nothing left to disable (￣ヘ￣)`,
+        allowedMentions: { parse: [] }
+      });
+    } else if (subcommand === 'enable') {
+      const changed = await db.enableUploader(uploadedBy);
+      await interaction.editReply({
+        content: changed > 0
+          ? `${changed} upload${changed === 1 ? '' : 's'} from ${formatUploader(uploadedBy)} restored ヽ(・∀・)ﾉ`
+          : `${formatUploader(uploadedBy)} has nothing to restore (￣ヘ￣)`,
+        allowedMentions: { parse: [] }
+      });
+    }
+  } catch (error) {
+    console.error('error handling uploads command:', error);
+    await interaction.editReply('error checking uploads (╯°□°）╯︵ ┻━┻');
+  }
+}
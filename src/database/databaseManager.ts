@@ -1,12 +1,43 @@
 import sqlite3 from 'sqlite3';
 import path from 'path';
+import { TeamScore, RoundOutcome, AnswerCheck, MediaFilters, PlayerGameStats, Difficulty, MediaMetadata, TagExpression, PackFilter, MediaStatus, UploadSource, UploaderStats, ReportReason, ReportStatus, MediaReportSummary, ClipRegion, DEFAULT_ANSWER_PART } from '../utils/types';
+import { allTags, compileTagExpression } from '../utils/tagExpression';
+import { SessionCheckpoint } from '../utils/gameSession';
+
+const BUSY_TIMEOUT_MS = 10000;
+
+// deleted media stays in the table until the purge, pending media waits on a mod
+const NOT_DELETED_SQL = 'm.deleted_at IS NULL';
+const LIVE_MEDIA_SQL = `m.status = 'approved' AND ${NOT_DELETED_SQL}`;
+
+// media needs a few plays before its correct rate means anything, until then it counts as normal
+const DIFFICULTY_MIN_PLAYS = 3;
+const DIFFICULTY_EASY_RATE = 0.66;
+const DIFFICULTY_HARD_RATE = 0.33;
+const DIFFICULTY_BANDS: Difficulty[] = ['easy', 'normal', 'hard'];
+// rounds cut short by a restart or the game ending mid-round have no outcome and dont count as plays
+const FINISHED_ROUND_SQL = '(guessed_by IS NOT NULL OR skipped = 1 OR timed_out = 1)';
+const DIFFICULTY_BAND_SQL = `CASE
+  WHEN COALESCE(ms.plays, 0) < ${DIFFICULTY_MIN_PLAYS} THEN 'normal'
+  WHEN ms.correct_rate >= ${DIFFICULTY_EASY_RATE} THEN 'easy'
+  WHEN ms.correct_rate < ${DIFFICULTY_HARD_RATE} THEN 'hard'
+  ELSE 'normal' END`;
 
 export class DatabaseManager {
   private db: sqlite3.Database;
+  // transactions get their own connection so unrelated writes never land inside one and get rolled back with it
+  private transactionDb: sqlite3.Database;
   private static instance: DatabaseManager;
+  private transactionQueue: Promise<void> = Promise.resolve(); // one transaction connection, so they take turns
 
   private constructor() {
-    this.db = new sqlite3.Database(path.join(process.cwd(), 'data.db'));
+    const dbPath = path.join(process.cwd(), 'data.db');
+    this.db = new sqlite3.Database(dbPath);
+    this.transactionDb = new sqlite3.Database(dbPath);
+    
+    // the connections wait for each others locks instead of failing
+    this.db.configure('busyTimeout', BUSY_TIMEOUT_MS);
+    this.transactionDb.configure('busyTimeout', BUSY_TIMEOUT_MS);
   }
 
   public static getInstance(): DatabaseManager {
@@ -17,6 +48,12 @@ export class DatabaseManager {
   }
 
   public async init(): Promise<void> {
+    await this.createTables();
+    await this.migrateColumns();
+    await this.scrubWebUploaderIps();
+  }
+
+  private async createTables(): Promise<void> {
     return new Promise((resolve, reject) => {
       this.db.serialize(() => {
         this.db.run(`
@@ -27,6 +64,14 @@ export class DatabaseManager {
             normalized_path TEXT,
             year INTEGER,
             metadata TEXT,
+            fingerprint TEXT,
+            status TEXT NOT NULL DEFAULT 'approved',
+            uploaded_by TEXT,
+            upload_source TEXT,
+            deleted_at TIMESTAMP,
+            clip_regions TEXT,
+            energy_regions TEXT,
+            uploader_disabled_from TEXT,
             created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
           )
         `);
@@ -37,6 +82,7 @@ export class DatabaseManager {
             media_id INTEGER NOT NULL,
             answer TEXT NOT NULL,
             is_primary BOOLEAN DEFAULT 0,
+            answer_group TEXT,
             FOREIGN KEY (media_id) REFERENCES media(id) ON DELETE CASCADE
           )
         `);
@@ -63,7 +109,21 @@ export class DatabaseManager {
             id TEXT PRIMARY KEY,
             username TEXT NOT NULL,
             correct_answers INTEGER DEFAULT 0,
-            games_played INTEGER DEFAULT 0
+            games_played INTEGER DEFAULT 0,
+            rating INTEGER DEFAULT 1000,
+            rated_games INTEGER DEFAULT 0
+          )
+        `);
+
+        this.db.run(`
+          CREATE TABLE IF NOT EXISTS rating_history (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id TEXT NOT NULL,
+            session_id INTEGER,
+            rating INTEGER NOT NULL,
+            change INTEGER NOT NULL,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
           )
         `);
 
@@ -75,7 +135,143 @@ export class DatabaseManager {
             started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
             ended_at TIMESTAMP,
             rounds INTEGER NOT NULL,
-            current_round INTEGER DEFAULT 1
+            current_round INTEGER DEFAULT 1,
+            checkpoint TEXT,
+            checkpointed_at TIMESTAMP
+          )
+        `);
+
+        this.db.run(`
+          CREATE TABLE IF NOT EXISTS session_rounds (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            session_id INTEGER NOT NULL,
+            round_number INTEGER NOT NULL,
+            media_id INTEGER NOT NULL,
+            started_at TIMESTAMP,
+            ended_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            guessed_by TEXT,
+            guess_count INTEGER DEFAULT 0,
+            skipped BOOLEAN DEFAULT 0,
+            timed_out BOOLEAN DEFAULT 0,
+            points INTEGER,
+            answer_time_ms INTEGER,
+            UNIQUE (session_id, round_number),
+            FOREIGN KEY (session_id) REFERENCES game_sessions(id) ON DELETE CASCADE,
+            FOREIGN KEY (media_id) REFERENCES media(id) ON DELETE CASCADE
+          )
+        `);
+
+        this.db.run(`
+          CREATE TABLE IF NOT EXISTS session_teams (
+            session_id INTEGER NOT NULL,
+            team TEXT NOT NULL,
+            score INTEGER DEFAULT 0,
+            won BOOLEAN DEFAULT 0,
+            mvp_id TEXT,
+            PRIMARY KEY (session_id, team),
+            FOREIGN KEY (session_id) REFERENCES game_sessions(id) ON DELETE CASCADE
+          )
+        `);
+
+        this.db.run(`
+          CREATE TABLE IF NOT EXISTS guild_user_stats (
+            guild_id TEXT NOT NULL,
+            user_id TEXT NOT NULL,
+            season INTEGER NOT NULL DEFAULT 1,
+            correct_answers INTEGER DEFAULT 0,
+            games_played INTEGER DEFAULT 0,
+            games_won INTEGER DEFAULT 0,
+            answer_time_total INTEGER DEFAULT 0,
+            timed_answers INTEGER DEFAULT 0,
+            PRIMARY KEY (guild_id, user_id, season)
+          )
+        `);
+
+        this.db.run(`
+          CREATE TABLE IF NOT EXISTS guild_settings (
+            guild_id TEXT PRIMARY KEY,
+            season_channel_id TEXT,
+            current_season INTEGER NOT NULL DEFAULT 1,
+            season_started_at TIMESTAMP,
+            recent_games INTEGER DEFAULT 3,
+            recent_days INTEGER DEFAULT 0,
+            mod_channel_id TEXT
+          )
+        `);
+
+        this.db.run(`
+          CREATE TABLE IF NOT EXISTS seasons (
+            guild_id TEXT NOT NULL,
+            season INTEGER NOT NULL,
+            started_at TIMESTAMP,
+            ended_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            players INTEGER DEFAULT 0,
+            PRIMARY KEY (guild_id, season)
+          )
+        `);
+
+        this.db.run(`
+          CREATE TABLE IF NOT EXISTS season_podiums (
+            guild_id TEXT NOT NULL,
+            season INTEGER NOT NULL,
+            rank INTEGER NOT NULL,
+            user_id TEXT NOT NULL,
+            correct_answers INTEGER DEFAULT 0,
+            games_won INTEGER DEFAULT 0,
+            PRIMARY KEY (guild_id, season, rank)
+          )
+        `);
+
+        this.db.run(`
+          CREATE TABLE IF NOT EXISTS quiz_packs (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            guild_id TEXT NOT NULL,
+            name TEXT NOT NULL COLLATE NOCASE,
+            created_by TEXT NOT NULL,
+            tag_filter TEXT,
+            year_start INTEGER,
+            year_end INTEGER,
+            difficulty TEXT,
+            ordered BOOLEAN DEFAULT 0,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            UNIQUE (guild_id, name)
+          )
+        `);
+
+        this.db.run(`
+          CREATE TABLE IF NOT EXISTS quiz_pack_media (
+            pack_id INTEGER NOT NULL,
+            media_id INTEGER NOT NULL,
+            position INTEGER NOT NULL,
+            PRIMARY KEY (pack_id, media_id),
+            FOREIGN KEY (pack_id) REFERENCES quiz_packs(id) ON DELETE CASCADE,
+            FOREIGN KEY (media_id) REFERENCES media(id) ON DELETE CASCADE
+          )
+        `);
+
+        this.db.run(`
+          CREATE TABLE IF NOT EXISTS media_reports (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            media_id INTEGER NOT NULL,
+            reported_by TEXT NOT NULL,
+            guild_id TEXT,
+            reason TEXT NOT NULL,
+            status TEXT NOT NULL DEFAULT 'open',
+            resolved_by TEXT,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            resolved_at TIMESTAMP,
+            FOREIGN KEY (media_id) REFERENCES media(id) ON DELETE CASCADE
+          )
+        `);
+
+        this.db.run(`
+          CREATE TABLE IF NOT EXISTS session_team_members (
+            session_id INTEGER NOT NULL,
+            team TEXT NOT NULL,
+            user_id TEXT NOT NULL,
+            score INTEGER DEFAULT 0,
+            PRIMARY KEY (session_id, user_id),
+            FOREIGN KEY (session_id) REFERENCES game_sessions(id) ON DELETE CASCADE
           )
         `, (err) => {
           if (err) reject(err);
@@ -85,11 +281,68 @@ export class DatabaseManager {
     });
   }
 
-  public async addMedia(title: string, filePath: string, year?: number, metadata?: string): Promise<number> {
+  /**
+   * columns added after a table first shipped - CREATE TABLE IF NOT EXISTS won't add them to old dbs
+   */
+  private async migrateColumns(): Promise<void> {
+    await this.ensureColumn('session_rounds', 'points', 'INTEGER');
+    await this.ensureColumn('session_rounds', 'answer_time_ms', 'INTEGER');
+    await this.ensureColumn('media_answers', 'answer_group', 'TEXT');
+    await this.ensureColumn('game_sessions', 'checkpoint', 'TEXT');
+    await this.ensureColumn('game_sessions', 'checkpointed_at', 'TIMESTAMP');
+    await this.ensureColumn('users', 'rating', 'INTEGER DEFAULT 1000');
+    await this.ensureColumn('users', 'rated_games', 'INTEGER DEFAULT 0');
+    await this.ensureColumn('guild_settings', 'recent_games', 'INTEGER DEFAULT 3');
+    await this.ensureColumn('guild_settings', 'recent_days', 'INTEGER DEFAULT 0');
+    await this.ensureColumn('media', 'fingerprint', 'TEXT');
+    await this.ensureColumn('media', 'status', "TEXT NOT NULL DEFAULT 'approved'");
+    await this.ensureColumn('media', 'uploaded_by', 'TEXT');
+    await this.ensureColumn('media', 'upload_source', 'TEXT');
+    await this.ensureColumn('media', 'deleted_at', 'TIMESTAMP');
+    await this.ensureColumn('media', 'clip_regions', 'TEXT');
+    await this.ensureColumn('media', 'energy_regions', 'TEXT');
+    await this.ensureColumn('media', 'uploader_disabled_from', 'TEXT');
+    await this.ensureColumn('guild_settings', 'mod_channel_id', 'TEXT');
+  }
+
+  /**
+   * the web uploader used to fall back to the request ip, those show up in reveals so they become anonymous
+   */
+  private async scrubWebUploaderIps(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `UPDATE media SET uploaded_by = 'web:anonymous'
+         WHERE uploaded_by GLOB 'web:[0-9]*.[0-9]*.[0-9]*.[0-9]*' OR uploaded_by GLOB 'web:*:*:*'`,
+        [],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  private async ensureColumn(table: string, column: string, definition: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`, [], (err) => {
+        // column might already exist
+        if (err && !err.message.includes('duplicate column')) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  public async addMedia(
+    title: string,
+    filePath: string,
+    year?: number,
+    metadata?: string,
+    options: { uploadedBy?: string | null, source?: UploadSource, status?: MediaStatus } = {}
+  ): Promise<number> {
     return new Promise((resolve, reject) => {
       this.db.run(
-        'INSERT INTO media (title, file_path, year, metadata) VALUES (?, ?, ?, ?)',
-        [title, filePath, year || null, metadata || null],
+        'INSERT INTO media (title, file_path, year, metadata, uploaded_by, upload_source, status) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [title, filePath, year || null, metadata || null, options.uploadedBy || null, options.source || null, options.status || 'approved'],
         function(err) {
           if (err) reject(err);
           else resolve(this.lastID);
@@ -98,28 +351,21 @@ export class DatabaseManager {
     });
   }
 
-  public async getRandomMedia(limit: number | string[] = 20, yearStart?: number, yearEnd?: number): Promise<any[]> {
+  public async getRandomMedia(limit: number | string[] | TagExpression = 20, yearStart?: number, yearEnd?: number, filters: MediaFilters = {}): Promise<any[]> {
     // handle the case where limit might be passed as tags instead
-    if (Array.isArray(limit)) {
-      return this.getRandomMediaWithTags(limit, yearStart, yearEnd, 20);
+    if (typeof limit !== 'number') {
+      const tags = Array.isArray(limit) ? allTags(limit) : limit;
+      return this.getRandomMedia(20, yearStart, yearEnd, { ...filters, tags });
     }
     
-    let query = 'SELECT m.* FROM media m';
+    if (filters.difficulty === 'mixed') {
+      return this.getMixedDifficultyMedia(limit, yearStart, yearEnd, filters);
+    }
+    
+    let query = `SELECT m.* FROM media m ${this.mediaStatsJoin(filters)} WHERE 1=1`;
     const params: any[] = [];
     
-    if (yearStart || yearEnd) {
-      query += ' WHERE 1=1';
-      
-      if (yearStart) {
-        query += ' AND m.year >= ?';
-        params.push(yearStart);
-      }
-      
-      if (yearEnd) {
-        query += ' AND m.year <= ?';
-        params.push(yearEnd);
-      }
-    }
+    query += this.mediaFilterClauses(params, yearStart, yearEnd, filters);
     
     // get exactly what we need - no filtering
     query += ' ORDER BY RANDOM() LIMIT ?';
@@ -149,52 +395,235 @@ export class DatabaseManager {
   }
   
   /**
-   * get random media with specified tags
+   * every media matching the filters in id order, for exports and bulk jobs
    */
-  private async getRandomMediaWithTags(tags: string[], yearStart?: number, yearEnd?: number, limit: number = 20): Promise<any[]> {
-    let query = `
-      SELECT m.* FROM media m
-      JOIN media_tags mt ON m.id = mt.media_id
-      JOIN tags t ON mt.tag_id = t.id
-      WHERE t.name IN (${tags.map(() => '?').join(',')})
-    `;
-    const params: any[] = [...tags];
+  public async getFilteredMedia(yearStart?: number, yearEnd?: number, filters: MediaFilters = {}): Promise<any[]> {
+    const params: any[] = [];
+    const query = `SELECT m.* FROM media m ${this.mediaStatsJoin(filters)} WHERE 1=1` +
+      this.mediaFilterClauses(params, yearStart, yearEnd, filters) +
+      ' ORDER BY m.id';
+
+    return new Promise((resolve, reject) => {
+      this.db.all(query, params, (err, rows: any[]) => {
+        if (err) reject(err);
+        else resolve(rows || []);
+      });
+    });
+  }
+
+  /**
+   * media with this exact title, ignoring case
+   */
+  public async getMediaWithTitle(title: string): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        'SELECT * FROM media WHERE LOWER(title) = LOWER(?) AND deleted_at IS NULL ORDER BY id',
+        [title.trim()],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        }
+      );
+    });
+  }
+  
+  /**
+   * an even split of easy, normal and hard, topped up from any band if one runs short
+   */
+  private async getMixedDifficultyMedia(limit: number, yearStart?: number, yearEnd?: number, filters: MediaFilters = {}): Promise<any[]> {
+    const pick = (difficulty: Difficulty | undefined, count: number) =>
+      this.getRandomMedia(count, yearStart, yearEnd, { ...filters, difficulty });
+    
+    const perBand = Math.ceil(limit / DIFFICULTY_BANDS.length);
+    const picked: any[] = [];
+    for (const band of DIFFICULTY_BANDS) {
+      picked.push(...await pick(band, perBand));
+    }
+    
+    if (picked.length < limit) {
+      const seen = new Set(picked.map(m => m.id));
+      const extra = await pick(undefined, limit);
+      picked.push(...extra.filter(m => !seen.has(m.id)));
+    }
+    
+    return this.shuffleArray(picked).slice(0, limit);
+  }
+
+  // plays and correct rate per media joined in as ms, only when a difficulty band is asked for
+  private mediaStatsJoin(filters: MediaFilters): string {
+    if (!filters.difficulty) return '';
+    return `LEFT JOIN (
+        SELECT media_id, COUNT(*) AS plays, AVG(guessed_by IS NOT NULL) AS correct_rate
+        FROM session_rounds WHERE ${FINISHED_ROUND_SQL} GROUP BY media_id
+      ) ms ON ms.media_id = m.id`;
+  }
+
+  private mediaFilterClauses(params: any[], yearStart?: number, yearEnd?: number, filters: MediaFilters = {}): string {
+    let clauses = '';
+    
+    // uploads waiting on a mod never reach games, deleted media never shows up anywhere
+    clauses += ` AND ${filters.includePending ? NOT_DELETED_SQL : LIVE_MEDIA_SQL}`;
+    
+    if (filters.requireYear) {
+      clauses += ' AND m.year IS NOT NULL';
+    }
     
     if (yearStart) {
-      query += ' AND m.year >= ?';
+      clauses += ' AND m.year >= ?';
       params.push(yearStart);
     }
     
     if (yearEnd) {
-      query += ' AND m.year <= ?';
+      clauses += ' AND m.year <= ?';
       params.push(yearEnd);
     }
     
-    query += ' GROUP BY m.id HAVING COUNT(DISTINCT t.name) = ?';
-    params.push(tags.length);
+    if (filters.difficulty) {
+      clauses += ` AND ${DIFFICULTY_BAND_SQL} = ?`;
+      params.push(filters.difficulty);
+    }
+    
+    if (filters.excludeIds && filters.excludeIds.length > 0) {
+      clauses += ` AND m.id NOT IN (${filters.excludeIds.map(() => '?').join(',')})`;
+      params.push(...filters.excludeIds);
+    }
     
-    query += ' ORDER BY RANDOM() LIMIT ?';
-    params.push(limit);
+    if (filters.ids) {
+      clauses += filters.ids.length > 0 ? ` AND m.id IN (${filters.ids.map(() => '?').join(',')})` : ' AND 0';
+      params.push(...filters.ids);
+    }
+    
+    if (filters.tags) {
+      const tagFilter = compileTagExpression(filters.tags);
+      clauses += ` AND ${tagFilter.sql}`;
+      params.push(...tagFilter.params);
+    }
+    
+    return clauses;
+  }
+
+  /**
+   * plays, correct rate, skip rate and median answer time from round history
+   */
+  public async getMediaStats(mediaId: number): Promise<{ plays: number, correctRate: number, skipRate: number, medianAnswerTimeMs: number | null, difficulty: Difficulty }> {
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db.all(
+        `SELECT guessed_by, skipped, answer_time_ms FROM session_rounds WHERE media_id = ? AND ${FINISHED_ROUND_SQL}`,
+        [mediaId],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+    
+    const plays = rows.length;
+    const correctRate = plays > 0 ? rows.filter(r => r.guessed_by).length / plays : 0;
+    const skipRate = plays > 0 ? rows.filter(r => r.skipped).length / plays : 0;
+    
+    const times = rows.filter(r => r.answer_time_ms != null).map(r => r.answer_time_ms).sort((a, b) => a - b);
+    const mid = Math.floor(times.length / 2);
+    const medianAnswerTimeMs = times.length === 0 ? null
+      : times.length % 2 ? times[mid] : (times[mid - 1] + times[mid]) / 2;
+    
+    // same banding as DIFFICULTY_BAND_SQL
+    const difficulty: Difficulty = plays < DIFFICULTY_MIN_PLAYS ? 'normal'
+      : correctRate >= DIFFICULTY_EASY_RATE ? 'easy'
+      : correctRate < DIFFICULTY_HARD_RATE ? 'hard'
+      : 'normal';
+    
+    return { plays, correctRate, skipRate, medianAnswerTimeMs, difficulty };
+  }
 
+  /**
+   * run several writes in order, resolving once the last one finishes
+   */
+  private async runStatements(statements: [string, any[]][]): Promise<void> {
+    if (statements.length === 0) return;
+    
     return new Promise((resolve, reject) => {
-      this.db.all(query, params, (err, rows: any[]) => {
-        if (err) reject(err);
-        else {
-          // fix type issues by ensuring each row has an id property
-          const typedRows = rows.map(row => {
-            return {
-              id: row.id,
-              ...row
-            };
+      let failed: Error | null = null;
+      this.db.serialize(() => {
+        statements.forEach(([query, params], i) => {
+          this.db.run(query, params, (err) => {
+            if (err && !failed) failed = err;
+            if (i < statements.length - 1) return;
+            if (failed) reject(failed);
+            else resolve();
           });
-          
-          // shuffle once more for good measure
-          const result = this.shuffleArray(typedRows);
-          
-          console.log(`tagged media selection: ${result.length} items`);
-          
-          resolve(result);
+        });
+      });
+    });
+  }
+
+  /**
+   * run several writes as one transaction on the transaction connection,
+   * stopping and rolling everything back on the first error
+   */
+  private async runTransaction(statements: [string, any[]][]): Promise<void> {
+    const run = (query: string, params: any[] = []) => new Promise<void>((resolve, reject) => {
+      this.transactionDb.run(query, params, (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+
+    const previous = this.transactionQueue;
+    let release: () => void = () => {};
+    this.transactionQueue = new Promise(resolve => release = resolve);
+    await previous;
+
+    try {
+      // take the write lock up front so the transaction never has to upgrade to it halfway through
+      await run('BEGIN IMMEDIATE');
+      try {
+        for (const [query, params] of statements) {
+          await run(query, params);
+        }
+        await run('COMMIT');
+      } catch (error) {
+        await run('ROLLBACK').catch(rollbackError => console.error('rollback failed:', rollbackError));
+        throw error;
+      }
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * get wrong answers for a multiple choice round, preferring media that shares tags or a nearby year
+   */
+  public async getDecoyMedia(mediaId: number, title: string, year: number | null | undefined, count: number = 3): Promise<any[]> {
+    const query = `
+      SELECT m.*,
+        (SELECT COUNT(*) FROM media_tags a
+         JOIN media_tags b ON a.tag_id = b.tag_id
+         WHERE a.media_id = m.id AND b.media_id = ?) AS shared_tags,
+        CASE WHEN ? IS NOT NULL AND m.year IS NOT NULL AND ABS(m.year - ?) <= 3 THEN 1 ELSE 0 END AS near_year
+      FROM media m
+      WHERE m.id != ? AND LOWER(m.title) != LOWER(?) AND ${LIVE_MEDIA_SQL}
+      ORDER BY (shared_tags > 0) + near_year DESC, RANDOM()
+      LIMIT ?
+    `;
+    // over-fetch so duplicate titles can be dropped
+    const params = [mediaId, year ?? null, year ?? null, mediaId, title, count * 3];
+
+    return new Promise((resolve, reject) => {
+      this.db.all(query, params, (err, rows: any[]) => {
+        if (err) {
+          reject(err);
+          return;
         }
+
+        const seen = new Set<string>();
+        const decoys = (rows || []).filter(row => {
+          const key = row.title.toLowerCase();
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+
+        resolve(decoys.slice(0, count));
       });
     });
   }
@@ -244,312 +673,1476 @@ export class DatabaseManager {
     });
   }
 
-  public async updateUser(userId: string, username: string, correctAnswer: boolean = false): Promise<void> {
+  public async unlinkMediaTag(mediaId: number, tagId: number): Promise<boolean> {
     return new Promise((resolve, reject) => {
       this.db.run(
-        `INSERT INTO users (id, username, correct_answers, games_played) 
-         VALUES (?, ?, ?, ?)
-         ON CONFLICT(id) DO UPDATE SET 
-         username = ?,
-         correct_answers = correct_answers + ?,
-         games_played = games_played + ?`,
-        [userId, username, correctAnswer ? 1 : 0, 1, username, correctAnswer ? 1 : 0, 0],
-        (err) => {
+        'DELETE FROM media_tags WHERE media_id = ? AND tag_id = ?',
+        [mediaId, tagId],
+        function(err) {
           if (err) reject(err);
-          else resolve();
+          else resolve(this.changes > 0);
         }
       );
     });
   }
 
-  public async getTopUsers(limit: number = 10): Promise<any[]> {
+  public async getTagByName(name: string): Promise<{ id: number, name: string } | null> {
     return new Promise((resolve, reject) => {
-      this.db.all(
-        'SELECT * FROM users ORDER BY correct_answers DESC LIMIT ?',
-        [limit],
-        (err, rows) => {
+      this.db.get(
+        'SELECT id, name FROM tags WHERE name = ?',
+        [name.trim().toLowerCase()],
+        (err, row: any) => {
           if (err) reject(err);
-          else resolve(rows);
+          else resolve(row || null);
         }
       );
     });
   }
 
-  public async createGameSession(guildId: string, channelId: string, rounds: number): Promise<number> {
+  /**
+   * tags with how much media uses them, optionally narrowed to names containing the search
+   */
+  public async getTagsWithCounts(search: string = '', limit: number = 25): Promise<{ id: number, name: string, count: number }[]> {
     return new Promise((resolve, reject) => {
-      this.db.run(
-        'INSERT INTO game_sessions (guild_id, channel_id, rounds) VALUES (?, ?, ?)',
-        [guildId, channelId, rounds],
-        function(err) {
+      this.db.all(
+        `SELECT t.id, t.name, COUNT(mt.media_id) AS count
+         FROM tags t
+         LEFT JOIN media_tags mt ON mt.tag_id = t.id
+         WHERE t.name LIKE ?
+         GROUP BY t.id
+         ORDER BY count DESC, t.name
+         LIMIT ?`,
+        [`%${search.trim().toLowerCase()}%`, limit],
+        (err, rows: any[]) => {
           if (err) reject(err);
-          else resolve(this.lastID);
+          else resolve(rows || []);
         }
       );
     });
   }
 
-  public async updateGameSession(id: number, currentRound: number, ended: boolean = false): Promise<void> {
+  public async getMediaTags(mediaId: number): Promise<string[]> {
     return new Promise((resolve, reject) => {
-      let query = 'UPDATE game_sessions SET current_round = ?';
-      const params: any[] = [currentRound];
-      
-      if (ended) {
-        query += ', ended_at = CURRENT_TIMESTAMP';
-      }
-      
-      query += ' WHERE id = ?';
-      params.push(id);
-      
-      this.db.run(query, params, (err) => {
-        if (err) reject(err);
-        else resolve();
-      });
+      this.db.all(
+        `SELECT t.name FROM media_tags mt
+         JOIN tags t ON t.id = mt.tag_id
+         WHERE mt.media_id = ?
+         ORDER BY t.name`,
+        [mediaId],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve((rows || []).map(row => row.name));
+        }
+      );
     });
   }
 
-  public async addAnswerToMedia(mediaId: number, answer: string, isPrimary: boolean = false): Promise<number> {
-    return new Promise((resolve, reject) => {
+  /**
+   * rename a tag, fails if the new name is already taken so nothing gets merged by accident
+   */
+  public async renameTag(oldName: string, newName: string): Promise<boolean> {
+    const tag = await this.getTagByName(oldName);
+    if (!tag || await this.getTagByName(newName)) return false;
+
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        'UPDATE tags SET name = ? WHERE id = ?',
+        [newName.trim().toLowerCase(), tag.id],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
+  }
+
+  /**
+   * move every media from one tag onto another and drop the old tag
+   * returns how many media were on the old tag, or null if either tag doesnt exist
+   */
+  public async mergeTags(fromName: string, intoName: string): Promise<number | null> {
+    const from = await this.getTagByName(fromName);
+    const into = await this.getTagByName(intoName);
+    if (!from || !into || from.id === into.id) return null;
+
+    const count = await new Promise<number>((resolve, reject) => {
+      this.db.get(
+        'SELECT COUNT(*) AS count FROM media_tags WHERE tag_id = ?',
+        [from.id],
+        (err, row: any) => {
+          if (err) reject(err);
+          else resolve(row?.count || 0);
+        }
+      );
+    });
+
+    await this.runTransaction([
+      ['INSERT OR IGNORE INTO media_tags (media_id, tag_id) SELECT media_id, ? FROM media_tags WHERE tag_id = ?', [into.id, from.id]],
+      ['DELETE FROM media_tags WHERE tag_id = ?', [from.id]],
+      ['DELETE FROM tags WHERE id = ?', [from.id]]
+    ]);
+
+    return count;
+  }
+
+  public async createPack(guildId: string, name: string, createdBy: string, filter: PackFilter = {}, ordered: boolean = false): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO quiz_packs (guild_id, name, created_by, tag_filter, year_start, year_end, difficulty, ordered)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [guildId, name.trim(), createdBy, filter.tagFilter || null, filter.yearStart || null, filter.yearEnd || null, filter.difficulty || null, ordered ? 1 : 0],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.lastID);
+        }
+      );
+    });
+  }
+
+  private packQuery(where: string): string {
+    return `SELECT p.*, (SELECT COUNT(*) FROM quiz_pack_media pm WHERE pm.pack_id = p.id) AS media_count
+      FROM quiz_packs p WHERE ${where}`;
+  }
+
+  /**
+   * a guilds pack by name, names dont care about case
+   */
+  public async getPack(guildId: string, name: string): Promise<any | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        this.packQuery('p.guild_id = ? AND p.name = ?'),
+        [guildId, name.trim()],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve(row || null);
+        }
+      );
+    });
+  }
+
+  public async getPacks(guildId: string, search: string = '', limit: number = 25): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `${this.packQuery('p.guild_id = ? AND p.name LIKE ?')} ORDER BY p.name LIMIT ?`,
+        [guildId, `%${search.trim()}%`, limit],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        }
+      );
+    });
+  }
+
+  public async deletePack(packId: number): Promise<void> {
+    await this.runStatements([
+      ['DELETE FROM quiz_pack_media WHERE pack_id = ?', [packId]],
+      ['DELETE FROM quiz_packs WHERE id = ?', [packId]]
+    ]);
+  }
+
+  /**
+   * append media to the end of a pack, media already in it keeps its spot
+   */
+  public async addPackMedia(packId: number, mediaIds: number[]): Promise<void> {
+    await this.runStatements(mediaIds.map((mediaId): [string, any[]] => [
+      `INSERT OR IGNORE INTO quiz_pack_media (pack_id, media_id, position)
+       VALUES (?, ?, (SELECT COALESCE(MAX(position), 0) + 1 FROM quiz_pack_media WHERE pack_id = ?))`,
+      [packId, mediaId, packId]
+    ]));
+  }
+
+  public async removePackMedia(packId: number, mediaIds: number[]): Promise<number> {
+    if (mediaIds.length === 0) return 0;
+
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `DELETE FROM quiz_pack_media WHERE pack_id = ? AND media_id IN (${mediaIds.map(() => '?').join(',')})`,
+        [packId, ...mediaIds],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.changes);
+        }
+      );
+    });
+  }
+
+  public async getPackMedia(packId: number): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT m.* FROM quiz_pack_media pm
+         JOIN media m ON m.id = pm.media_id
+         WHERE pm.pack_id = ? AND ${LIVE_MEDIA_SQL}
+         ORDER BY pm.position`,
+        [packId],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        }
+      );
+    });
+  }
+
+  public async updateUser(userId: string, username: string, correctAnswer: boolean = false): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO users (id, username, correct_answers, games_played) 
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET 
+         username = ?,
+         correct_answers = correct_answers + ?,
+         games_played = games_played + ?`,
+        [userId, username, correctAnswer ? 1 : 0, 1, username, correctAnswer ? 1 : 0, 0],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  public async getTopUsers(limit: number = 10): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        'SELECT * FROM users ORDER BY correct_answers DESC LIMIT ?',
+        [limit],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+  }
+
+  public async updateGuildStats(guildId: string, userId: string, stats: PlayerGameStats, season: number = 1): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO guild_user_stats (guild_id, user_id, season, correct_answers, games_played, games_won, answer_time_total, timed_answers)
+         VALUES (?, ?, ?, ?, 1, ?, ?, ?)
+         ON CONFLICT(guild_id, user_id, season) DO UPDATE SET
+         correct_answers = correct_answers + excluded.correct_answers,
+         games_played = games_played + 1,
+         games_won = games_won + excluded.games_won,
+         answer_time_total = answer_time_total + excluded.answer_time_total,
+         timed_answers = timed_answers + excluded.timed_answers`,
+        [guildId, userId, season, stats.correct, stats.won ? 1 : 0, stats.answerTimeMs, stats.timedAnswers],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  /**
+   * per-guild stats summed over every season unless one is given
+   */
+  private guildStatsQuery(season?: number): { select: string, params: any[] } {
+    const select = `
+      SELECT gs.user_id, u.username,
+        SUM(gs.correct_answers) AS correct_answers,
+        SUM(gs.games_played) AS games_played,
+        SUM(gs.games_won) AS games_won,
+        CAST(SUM(gs.answer_time_total) AS REAL) / NULLIF(SUM(gs.timed_answers), 0) AS avg_answer_time_ms
+      FROM guild_user_stats gs
+      LEFT JOIN users u ON u.id = gs.user_id
+      WHERE gs.guild_id = ?${season !== undefined ? ' AND gs.season = ?' : ''}`;
+    return { select, params: season !== undefined ? [season] : [] };
+  }
+
+  public async getGuildLeaderboard(guildId: string, limit: number = 10, season?: number): Promise<any[]> {
+    const { select, params } = this.guildStatsQuery(season);
+    
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `${select} GROUP BY gs.user_id ORDER BY correct_answers DESC, games_won DESC LIMIT ?`,
+        [guildId, ...params, limit],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+  }
+
+  public async getGuildUserStats(guildId: string, userId: string, season?: number): Promise<any | null> {
+    const { select, params } = this.guildStatsQuery(season);
+    
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        `${select} AND gs.user_id = ? GROUP BY gs.user_id`,
+        [guildId, ...params, userId],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve(row || null);
+        }
+      );
+    });
+  }
+
+  public async getCurrentSeason(guildId: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        'SELECT current_season FROM guild_settings WHERE guild_id = ?',
+        [guildId],
+        (err, row: any) => {
+          if (err) reject(err);
+          else resolve(row?.current_season || 1);
+        }
+      );
+    });
+  }
+
+  public async getSeasonChannel(guildId: string): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        'SELECT season_channel_id FROM guild_settings WHERE guild_id = ?',
+        [guildId],
+        (err, row: any) => {
+          if (err) reject(err);
+          else resolve(row?.season_channel_id || null);
+        }
+      );
+    });
+  }
+
+  public async setSeasonChannel(guildId: string, channelId: string | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO guild_settings (guild_id, season_channel_id) VALUES (?, ?)
+         ON CONFLICT(guild_id) DO UPDATE SET season_channel_id = excluded.season_channel_id`,
+        [guildId, channelId],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  public async getModChannel(guildId: string): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        'SELECT mod_channel_id FROM guild_settings WHERE guild_id = ?',
+        [guildId],
+        (err, row: any) => {
+          if (err) reject(err);
+          else resolve(row?.mod_channel_id || null);
+        }
+      );
+    });
+  }
+
+  public async setModChannel(guildId: string, channelId: string | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO guild_settings (guild_id, mod_channel_id) VALUES (?, ?)
+         ON CONFLICT(guild_id) DO UPDATE SET mod_channel_id = excluded.mod_channel_id`,
+        [guildId, channelId],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  public async getRecencyWindow(guildId: string): Promise<{ games: number, days: number }> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        'SELECT recent_games, recent_days FROM guild_settings WHERE guild_id = ?',
+        [guildId],
+        (err, row: any) => {
+          if (err) reject(err);
+          else resolve({ games: row?.recent_games ?? 3, days: row?.recent_days ?? 0 });
+        }
+      );
+    });
+  }
+
+  public async setRecencyWindow(guildId: string, games: number, days: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO guild_settings (guild_id, recent_games, recent_days) VALUES (?, ?, ?)
+         ON CONFLICT(guild_id) DO UPDATE SET recent_games = excluded.recent_games, recent_days = excluded.recent_days`,
+        [guildId, games, days],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  /**
+   * media played in the guild's last few games or days, whichever window covers more
+   */
+  public async getRecentlyPlayedMedia(guildId: string): Promise<number[]> {
+    const { games, days } = await this.getRecencyWindow(guildId);
+    if (games <= 0 && days <= 0) return [];
+    
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT DISTINCT sr.media_id FROM session_rounds sr
+         JOIN game_sessions gs ON gs.id = sr.session_id
+         WHERE gs.guild_id = ? AND (
+           gs.id IN (SELECT id FROM game_sessions WHERE guild_id = ? ORDER BY id DESC LIMIT ?)
+           OR (? > 0 AND gs.started_at >= datetime('now', '-' || ? || ' days'))
+         )`,
+        [guildId, guildId, games, days, days],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows.map(row => row.media_id));
+        }
+      );
+    });
+  }
+
+  /**
+   * guilds with at least one game played in their current season
+   */
+  public async getGuildsWithSeasonStats(): Promise<string[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT DISTINCT s.guild_id FROM guild_user_stats s
+         LEFT JOIN guild_settings g ON g.guild_id = s.guild_id
+         WHERE s.season = COALESCE(g.current_season, 1)`,
+        [],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows.map(row => row.guild_id));
+        }
+      );
+    });
+  }
+
+  /**
+   * close the current season: snapshot the top 3, then start the next season so scores reset
+   */
+  public async archiveSeason(guildId: string): Promise<{ season: number, startedAt: string | null, players: number, podium: any[] }> {
+    const season = await this.getCurrentSeason(guildId);
+    const standings = await this.getGuildLeaderboard(guildId, 1000, season);
+    const podium = standings.slice(0, 3);
+    
+    const startedAt = await new Promise<string | null>((resolve, reject) => {
+      this.db.get(
+        `SELECT COALESCE(
+           (SELECT season_started_at FROM guild_settings WHERE guild_id = ?),
+           (SELECT MIN(started_at) FROM game_sessions WHERE guild_id = ?)
+         ) AS started_at`,
+        [guildId, guildId],
+        (err, row: any) => {
+          if (err) reject(err);
+          else resolve(row?.started_at || null);
+        }
+      );
+    });
+    
+    await this.runStatements([
+      ['INSERT OR REPLACE INTO seasons (guild_id, season, started_at, players) VALUES (?, ?, ?, ?)', [guildId, season, startedAt, standings.length]],
+      ...podium.map((row, i): [string, any[]] => [
+        'INSERT OR REPLACE INTO season_podiums (guild_id, season, rank, user_id, correct_answers, games_won) VALUES (?, ?, ?, ?, ?, ?)',
+        [guildId, season, i + 1, row.user_id, row.correct_answers, row.games_won]
+      ]),
+      [
+        `INSERT INTO guild_settings (guild_id, current_season, season_started_at) VALUES (?, ?, CURRENT_TIMESTAMP)
+         ON CONFLICT(guild_id) DO UPDATE SET current_season = excluded.current_season, season_started_at = CURRENT_TIMESTAMP`,
+        [guildId, season + 1]
+      ]
+    ]);
+    
+    return { season, startedAt, players: standings.length, podium };
+  }
+
+  public async getPastSeasons(guildId: string, limit: number = 10): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        'SELECT * FROM seasons WHERE guild_id = ? ORDER BY season DESC LIMIT ?',
+        [guildId, limit],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+  }
+
+  public async getSeason(guildId: string, season: number): Promise<any | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        'SELECT * FROM seasons WHERE guild_id = ? AND season = ?',
+        [guildId, season],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve(row || null);
+        }
+      );
+    });
+  }
+
+  public async getSeasonPodiums(guildId: string, seasons: number[]): Promise<any[]> {
+    if (seasons.length === 0) return [];
+    
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT sp.*, u.username FROM season_podiums sp
+         LEFT JOIN users u ON u.id = sp.user_id
+         WHERE sp.guild_id = ? AND sp.season IN (${seasons.map(() => '?').join(',')})
+         ORDER BY sp.season DESC, sp.rank`,
+        [guildId, ...seasons],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+  }
+
+  /**
+   * tags on the media a user guessed first most often in a guild
+   */
+  public async getFavouriteTags(guildId: string, userId: string, limit: number = 3): Promise<{ name: string, count: number }[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT t.name, COUNT(*) AS count
+         FROM session_rounds sr
+         JOIN game_sessions gs ON gs.id = sr.session_id
+         JOIN media_tags mt ON mt.media_id = sr.media_id
+         JOIN tags t ON t.id = mt.tag_id
+         WHERE gs.guild_id = ? AND sr.guessed_by = ?
+         GROUP BY t.id
+         ORDER BY count DESC, t.name
+         LIMIT ?`,
+        [guildId, userId, limit],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+  }
+
+  public async getUsersByIds(userIds: string[]): Promise<any[]> {
+    if (userIds.length === 0) return [];
+    
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM users WHERE id IN (${userIds.map(() => '?').join(',')})`,
+        userIds,
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        }
+      );
+    });
+  }
+
+  public async saveRatingChanges(sessionId: number, changes: { userId: string, rating: number, change: number }[]): Promise<void> {
+    const statements: [string, any[]][] = [];
+    for (const { userId, rating, change } of changes) {
+      statements.push(['UPDATE users SET rating = ?, rated_games = rated_games + 1 WHERE id = ?', [rating, userId]]);
+      statements.push(['INSERT INTO rating_history (user_id, session_id, rating, change) VALUES (?, ?, ?, ?)', [userId, sessionId, rating, change]]);
+    }
+    return this.runStatements(statements);
+  }
+
+  /**
+   * rating after each rated game, oldest first so it can be charted directly
+   */
+  public async getRatingHistory(userId: string, limit: number = 50): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM (
+           SELECT session_id, rating, change, created_at FROM rating_history
+           WHERE user_id = ? ORDER BY id DESC LIMIT ?
+         ) ORDER BY created_at, session_id`,
+        [userId, limit],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+  }
+
+  /**
+   * rating leaderboard limited to people who have played in a guild
+   */
+  public async getGuildRatingLeaderboard(guildId: string, limit: number = 10): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT u.id AS user_id, u.username, u.rating, u.rated_games FROM users u
+         WHERE u.rated_games > 0 AND u.id IN (SELECT user_id FROM guild_user_stats WHERE guild_id = ?)
+         ORDER BY u.rating DESC LIMIT ?`,
+        [guildId, limit],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+  }
+
+  public async createGameSession(guildId: string, channelId: string, rounds: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        'INSERT INTO game_sessions (guild_id, channel_id, rounds) VALUES (?, ?, ?)',
+        [guildId, channelId, rounds],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.lastID);
+        }
+      );
+    });
+  }
+
+  public async updateGameSession(id: number, currentRound: number, ended: boolean = false): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let query = 'UPDATE game_sessions SET current_round = ?';
+      const params: any[] = [currentRound];
+      
+      if (ended) {
+        query += ', ended_at = CURRENT_TIMESTAMP';
+      }
+      
+      query += ' WHERE id = ?';
+      params.push(id);
+      
+      this.db.run(query, params, (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  public async saveSessionCheckpoint(id: number, checkpoint: SessionCheckpoint): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        'UPDATE game_sessions SET current_round = ?, checkpoint = ?, checkpointed_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [checkpoint.currentRound, JSON.stringify(checkpoint), id],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  /**
+   * sessions that never got an ended_at, with their parsed checkpoint and its age in seconds
+   */
+  public async getUnfinishedSessions(): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT id, guild_id, channel_id, current_round, checkpoint,
+         strftime('%s', 'now') - strftime('%s', checkpointed_at) AS checkpoint_age
+         FROM game_sessions WHERE ended_at IS NULL`,
+        [],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows.map(row => {
+            let checkpoint: SessionCheckpoint | null = null;
+            try {
+              checkpoint = row.checkpoint ? JSON.parse(row.checkpoint) : null;
+            } catch (parseErr) {
+              // corrupt checkpoints just mean the game cant be resumed
+              console.error(`bad checkpoint for session ${row.id}:`, parseErr);
+            }
+            return { ...row, checkpoint };
+          }));
+        }
+      );
+    });
+  }
+
+  public async saveTeamResults(sessionId: number, teams: TeamScore[]): Promise<void> {
+    const topScore = Math.max(...teams.map(t => t.score));
+    // a draw counts as a win for nobody
+    const winners = teams.filter(t => t.score === topScore);
+    
+    const statements: [string, any[]][] = [];
+    for (const team of teams) {
+      statements.push([
+        'INSERT OR REPLACE INTO session_teams (session_id, team, score, won, mvp_id) VALUES (?, ?, ?, ?, ?)',
+        [sessionId, team.team, team.score, winners.length === 1 && winners[0] === team ? 1 : 0, team.mvp?.id || null]
+      ]);
+      
+      for (const player of team.players) {
+        statements.push([
+          'INSERT OR REPLACE INTO session_team_members (session_id, team, user_id, score) VALUES (?, ?, ?, ?)',
+          [sessionId, team.team, player.id, player.score]
+        ]);
+      }
+    }
+    
+    return this.runStatements(statements);
+  }
+
+  public async getTeamHistory(guildId: string, limit: number = 10): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT st.*, gs.started_at, gs.channel_id, u.username AS mvp_name
+         FROM session_teams st
+         JOIN game_sessions gs ON gs.id = st.session_id
+         LEFT JOIN users u ON u.id = st.mvp_id
+         WHERE gs.guild_id = ? AND st.session_id IN (
+           SELECT DISTINCT t.session_id FROM session_teams t
+           JOIN game_sessions g ON g.id = t.session_id
+           WHERE g.guild_id = ?
+           ORDER BY t.session_id DESC LIMIT ?
+         )
+         ORDER BY st.session_id DESC, st.score DESC`,
+        [guildId, guildId, limit],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        }
+      );
+    });
+  }
+
+  public async addAnswerToMedia(mediaId: number, answer: string, isPrimary: boolean = false, part?: string): Promise<number> {
+    // the default part is stored as null so answers from before parts existed still match it
+    const answerGroup = part && part.toLowerCase() !== DEFAULT_ANSWER_PART ? part.trim().toLowerCase() : null;
+    
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        'INSERT INTO media_answers (media_id, answer, is_primary, answer_group) VALUES (?, ?, ?, ?)',
+        [mediaId, answer.trim().toLowerCase(), isPrimary ? 1 : 0, answerGroup],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.lastID);
+        }
+      );
+    });
+  }
+
+  public async addAlternativeAnswer(mediaId: number, answer: string, part?: string): Promise<number> {
+    return this.addAnswerToMedia(mediaId, answer, false, part);
+  }
+
+  public async addPrimaryAnswer(mediaId: number, answer: string, part?: string): Promise<number> {
+    return this.addAnswerToMedia(mediaId, answer, true, part);
+  }
+
+  public async getMediaAnswers(mediaId: number): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        'SELECT * FROM media_answers WHERE media_id = ? ORDER BY answer_group IS NOT NULL, answer_group, is_primary DESC',
+        [mediaId],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+  }
+
+  public async deleteMediaAnswer(answerId: number): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        'DELETE FROM media_answers WHERE id = ?',
+        [answerId],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
+  }
+
+  public async getMediaById(mediaId: number): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        'SELECT * FROM media WHERE id = ?',
+        [mediaId],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        }
+      );
+    });
+  }
+
+  /**
+   * media by comma separated ids like "12, 15", anything else is a title search
+   */
+  public async findMedia(query: string): Promise<any[]> {
+    if (/^\d+(\s*,\s*\d+)*$/.test(query.trim())) {
+      const ids = query.split(',').map(id => parseInt(id.trim()));
+      const found = await Promise.all(ids.map(id => this.getMediaById(id)));
+      return found.flat();
+    }
+
+    return this.getMediaByTitle(query.trim());
+  }
+
+  public async getMediaByTitle(title: string): Promise<any[]> {
+    // normalize the search term for proper matching
+    const normalizedSearchTerm = this.normalizeString(title)
+    const searchPattern = `%${title}%`
+    
+    return new Promise((resolve, reject) => {
+      // first try to find exact matches - case insensitive
+      this.db.all(
+        `SELECT * FROM media 
+         WHERE LOWER(title) = LOWER(?) AND deleted_at IS NULL
+         ORDER BY title LIMIT 10`,
+        [title],
+        (err, exactRows) => {
+          if (err) {
+            reject(err)
+            return
+          }
+          
+          // if we found exact matches return them first
+          if (exactRows && exactRows.length > 0) {
+            resolve(exactRows)
+            return
+          }
+          
+          // otherwise do a fuzzy search as fallback
+          this.db.all(
+            `SELECT * FROM media 
+             WHERE title LIKE ? AND deleted_at IS NULL
+             ORDER BY 
+               CASE 
+                 WHEN LOWER(title) LIKE LOWER(?) THEN 0
+                 ELSE 1
+               END,
+               LENGTH(title), title 
+             LIMIT 10`,
+            [searchPattern, `${title}%`],
+            (err, fuzzyRows) => {
+              if (err) {
+                reject(err)
+                return
+              }
+              resolve(fuzzyRows)
+            }
+          )
+        }
+      )
+    })
+  }
+
+  /**
+   * check a guess against a media's answers, skipping any parts already guessed this round
+   */
+  public async checkAnswer(mediaId: number, userAnswer: string, excludeParts: string[] = []): Promise<AnswerCheck> {
+    const normalizedUserAnswer = this.normalizeString(userAnswer);
+    
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        'SELECT answer, is_primary, answer_group FROM media_answers WHERE media_id = ?',
+        [mediaId],
+        (err, allRows: any[]) => {
+          if (err) reject(err);
+          else {
+            const rows = allRows.filter(row => !excludeParts.includes(this.getAnswerPart(row)));
+            
+            // first check for exact matches
+            for (const row of rows) {
+              const normalizedDbAnswer = this.normalizeString(row.answer);
+              
+              if (normalizedUserAnswer === normalizedDbAnswer) {
+                resolve({correct: true, close: false, part: this.getAnswerPart(row)});
+                return;
+              }
+            }
+            
+            // check for containment in either direction
+            for (const row of rows) {
+              const normalizedDbAnswer = this.normalizeString(row.answer);
+              
+              // user answer contains correct answer - any length is ok
+              if (normalizedUserAnswer.includes(normalizedDbAnswer)) {
+                resolve({correct: true, close: false, part: this.getAnswerPart(row)});
+                return;
+              }
+              
+              // correct answer contains user answer if its meaningful enough
+              // change minimum chars from 4 to 3
+              // change ratio from 0.6 to 0.5 (50% of the word)
+              if (normalizedUserAnswer.length >= 3 && 
+                  normalizedDbAnswer.includes(normalizedUserAnswer) && 
+                  normalizedUserAnswer.length >= normalizedDbAnswer.length * 0.5) {
+                resolve({correct: true, close: false, part: this.getAnswerPart(row)});
+                return;
+              }
+              
+              // special case for very short answers (2 chars) if its a full match
+              // to handle cases like "ff" for "ff"
+              if (normalizedUserAnswer.length === 2 &&
+                  normalizedDbAnswer === normalizedUserAnswer) {
+                resolve({correct: true, close: false, part: this.getAnswerPart(row)});
+                return;
+              }
+              
+              // special case for short answers (2 chars) as abbreviations
+              // if the answer starts with these chars, like "ff" for "final fantasy"
+              if (normalizedUserAnswer.length === 2 &&
+                  normalizedDbAnswer.length > 4 &&
+                  normalizedDbAnswer.split(/\s+/).filter(word => word.startsWith(normalizedUserAnswer[0])).length > 0 &&
+                  normalizedDbAnswer.split(/\s+/).filter(word => word.startsWith(normalizedUserAnswer[1])).length > 0) {
+                resolve({correct: true, close: false, part: this.getAnswerPart(row)});
+                return;
+              }
+            }
+            
+            // check for fuzzy matches (levenshtein)
+            for (const row of rows) {
+              const normalizedDbAnswer = this.normalizeString(row.answer);
+              
+              if (this.isSimilar(normalizedUserAnswer, normalizedDbAnswer, 0.7)) {
+                resolve({correct: false, close: true, part: this.getAnswerPart(row)});
+                return;
+              }
+            }
+            
+            resolve({correct: false, close: false});
+          }
+        }
+      );
+    });
+  }
+  
+  private getAnswerPart(row: { answer_group?: string | null }): string {
+    return row.answer_group || DEFAULT_ANSWER_PART;
+  }
+
+  /**
+   * every part that has to be guessed for a media, with its primary answer for reveals
+   */
+  public async getAnswerParts(mediaId: number): Promise<{ part: string; answer: string }[]> {
+    const answers = await this.getMediaAnswers(mediaId);
+    const parts = new Map<string, string>();
+    
+    // answers come back primary first so the first one seen per part is the one to show
+    for (const row of answers) {
+      const part = this.getAnswerPart(row);
+      if (!parts.has(part)) parts.set(part, row.answer);
+    }
+    
+    if (parts.size === 0) parts.set(DEFAULT_ANSWER_PART, '');
+    return Array.from(parts.entries()).map(([part, answer]) => ({ part, answer }));
+  }
+
+  private isSimilar(str1: string, str2: string, threshold: number): boolean {
+    if (!str1 || !str2) return false;
+    
+    if (str1.includes(str2) || str2.includes(str1)) {
+      return true;
+    }
+    
+    const maxLen = Math.max(str1.length, str2.length);
+    if (maxLen === 0) return true;
+    
+    const distance = this.levenshteinDistance(str1, str2);
+    const similarity = 1 - distance / maxLen;
+    
+    return similarity >= threshold;
+  }
+  
+  private levenshteinDistance(str1: string, str2: string): number {
+    const track = Array(str2.length + 1).fill(null).map(() => 
+      Array(str1.length + 1).fill(null));
+    
+    for (let i = 0; i <= str1.length; i += 1) {
+      track[0][i] = i;
+    }
+    
+    for (let j = 0; j <= str2.length; j += 1) {
+      track[j][0] = j;
+    }
+    
+    for (let j = 1; j <= str2.length; j += 1) {
+      for (let i = 1; i <= str1.length; i += 1) {
+        const cost = str1[i - 1] === str2[j - 1] ? 0 : 1;
+        track[j][i] = Math.min(
+          track[j][i - 1] + 1,
+          track[j - 1][i] + 1,
+          track[j - 1][i - 1] + cost,
+        );
+      }
+    }
+    
+    return track[str2.length][str1.length];
+  }
+
+  private normalizeString(str: string): string {
+    return str.toLowerCase()
+      .replace(/[^\w\s]/g, '')
+      .replace(/\s+/g, '');
+  }
+
+  public close(): void {
+    this.db.close();
+    this.transactionDb.close();
+  }
+
+  public async updateNormalizedPath(mediaId: number, normalizedPath: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        'UPDATE media SET normalized_path = ? WHERE id = ?',
+        [normalizedPath, mediaId],
+        function(err) {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  /**
+   * update year and/or metadata, anything left undefined stays as it is
+   */
+  public async updateMediaDetails(mediaId: number, details: { year?: number | null, metadata?: MediaMetadata }): Promise<boolean> {
+    const sets: string[] = [];
+    const params: any[] = [];
+
+    if (details.year !== undefined) {
+      sets.push('year = ?');
+      params.push(details.year);
+    }
+
+    if (details.metadata !== undefined) {
+      sets.push('metadata = ?');
+      params.push(Object.keys(details.metadata).length > 0 ? JSON.stringify(details.metadata) : null);
+    }
+
+    if (sets.length === 0) return false;
+
+    return new Promise((resolve, reject) => {
       this.db.run(
-        'INSERT INTO media_answers (media_id, answer, is_primary) VALUES (?, ?, ?)',
-        [mediaId, answer.trim().toLowerCase(), isPrimary ? 1 : 0],
+        `UPDATE media SET ${sets.join(', ')} WHERE id = ?`,
+        [...params, mediaId],
         function(err) {
           if (err) reject(err);
-          else resolve(this.lastID);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
+  }
+
+  /**
+   * replace the good regions clips are picked from, an empty list clears them
+   */
+  public async setClipRegions(mediaId: number, regions: ClipRegion[]): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        'UPDATE media SET clip_regions = ? WHERE id = ?',
+        [regions.length > 0 ? JSON.stringify(regions) : null, mediaId],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
+  }
+
+  /**
+   * cache the analysed loud parts of a media, null means it hasnt been analysed yet
+   */
+  public async setEnergyRegions(mediaId: number, regions: ClipRegion[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        'UPDATE media SET energy_regions = ? WHERE id = ?',
+        [JSON.stringify(regions), mediaId],
+        function(err) {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  /**
+   * move a media between pending, approved and disabled, false if it wasnt in the expected state
+   * a status set on one media overrides an uploader bulk disable, so enabling the uploader leaves it alone
+   */
+  public async setMediaStatus(mediaId: number, status: MediaStatus, from?: MediaStatus): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `UPDATE media SET status = ?, uploader_disabled_from = NULL WHERE id = ?${from ? ' AND status = ?' : ''}`,
+        from ? [status, mediaId, from] : [status, mediaId],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
+  }
+
+  /**
+   * upload counts and how their media plays for everyone with attributed uploads, most uploads first
+   */
+  public async getUploaderStats(limit: number = 10): Promise<UploaderStats[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT m.uploaded_by,
+           COUNT(*) AS uploads,
+           SUM(${LIVE_MEDIA_SQL}) AS live,
+           SUM(m.status = 'pending') AS pending,
+           SUM(m.status = 'disabled') AS disabled,
+           COALESCE(SUM(ms.plays), 0) AS plays,
+           COALESCE(SUM(ms.correct), 0) AS correct
+         FROM media m
+         LEFT JOIN (
+           SELECT media_id, COUNT(*) AS plays, SUM(guessed_by IS NOT NULL) AS correct
+           FROM session_rounds WHERE ${FINISHED_ROUND_SQL} GROUP BY media_id
+         ) ms ON ms.media_id = m.id
+         WHERE m.uploaded_by IS NOT NULL
+         GROUP BY m.uploaded_by
+         ORDER BY uploads DESC, plays DESC
+         LIMIT ?`,
+        [limit],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve((rows || []).map(row => ({
+            uploadedBy: row.uploaded_by,
+            uploads: row.uploads,
+            live: row.live || 0,
+            pending: row.pending || 0,
+            disabled: row.disabled || 0,
+            plays: row.plays,
+            correctRate: row.plays > 0 ? row.correct / row.plays : 0
+          })));
+        }
+      );
+    });
+  }
+
+  /**
+   * everything one uploader added, whatever its status
+   */
+  public async getUploaderMedia(uploadedBy: string): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        'SELECT * FROM media WHERE uploaded_by = ? ORDER BY id',
+        [uploadedBy],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        }
+      );
+    });
+  }
+
+  /**
+   * disable every live or pending media from one uploader, remembering the status each one had
+   * returns how many changed
+   */
+  public async disableUploader(uploadedBy: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `UPDATE media SET uploader_disabled_from = status, status = 'disabled'
+         WHERE uploaded_by = ? AND status IN ('approved', 'pending')`,
+        [uploadedBy],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.changes);
+        }
+      );
+    });
+  }
+
+  /**
+   * undo disableUploader, pending media go back to the mod queue and media disabled on their own stay disabled
+   * returns how many changed
+   */
+  public async enableUploader(uploadedBy: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `UPDATE media SET status = uploader_disabled_from, uploader_disabled_from = NULL
+         WHERE uploaded_by = ? AND status = 'disabled' AND uploader_disabled_from IS NOT NULL`,
+        [uploadedBy],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.changes);
+        }
+      );
+    });
+  }
+
+  /**
+   * hide a media everywhere until it is restored or purged, false if it was already deleted
+   */
+  public async softDeleteMedia(mediaId: number): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        'UPDATE media SET deleted_at = CURRENT_TIMESTAMP WHERE id = ? AND deleted_at IS NULL',
+        [mediaId],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
+  }
+
+  /**
+   * undo a soft delete, false if it wasnt deleted
+   */
+  public async restoreMedia(mediaId: number): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        'UPDATE media SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL',
+        [mediaId],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
+  }
+
+  /**
+   * media soft deleted more than this many days ago, ready to purge
+   */
+  public async getDeletedMedia(olderThanDays: number): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM media WHERE deleted_at IS NOT NULL AND deleted_at <= datetime('now', ?) ORDER BY id`,
+        [`-${olderThanDays} days`],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        }
+      );
+    });
+  }
+
+  /**
+   * the files every media row points at, deleted rows included since they can still be restored
+   */
+  public async getMediaFiles(): Promise<{ id: number, file_path: string, normalized_path: string | null }[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        'SELECT id, file_path, normalized_path FROM media',
+        [],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows || []);
         }
       );
     });
   }
 
-  public async addAlternativeAnswer(mediaId: number, answer: string): Promise<number> {
-    return this.addAnswerToMedia(mediaId, answer, false);
+  /**
+   * remove a media and everything hanging off it, files are left to the caller
+   */
+  public async deleteMedia(mediaId: number): Promise<void> {
+    await this.runTransaction([
+      ['DELETE FROM media_answers WHERE media_id = ?', [mediaId]],
+      ['DELETE FROM media_tags WHERE media_id = ?', [mediaId]],
+      ['DELETE FROM quiz_pack_media WHERE media_id = ?', [mediaId]],
+      ['DELETE FROM session_rounds WHERE media_id = ?', [mediaId]],
+      ['DELETE FROM media_reports WHERE media_id = ?', [mediaId]],
+      ['DELETE FROM media WHERE id = ?', [mediaId]]
+    ]);
   }
 
-  public async addPrimaryAnswer(mediaId: number, answer: string): Promise<number> {
-    return this.addAnswerToMedia(mediaId, answer, true);
+  /**
+   * report a media from a round reveal, false if this user already has an open report on it in this guild
+   */
+  public async addReport(mediaId: number, reportedBy: string, guildId: string | null, reason: ReportReason): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO media_reports (media_id, reported_by, guild_id, reason)
+         SELECT ?, ?, ?, ?
+         WHERE NOT EXISTS (
+           SELECT 1 FROM media_reports WHERE media_id = ? AND reported_by = ? AND guild_id IS ? AND status = 'open'
+         )`,
+        [mediaId, reportedBy, guildId, reason, mediaId, reportedBy, guildId],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
   }
 
-  public async getMediaAnswers(mediaId: number): Promise<any[]> {
+  /**
+   * media with open reports filed in a guild, most reported first, reasons counted per media
+   */
+  public async getOpenReports(guildId: string, limit: number = 5): Promise<MediaReportSummary[]> {
     return new Promise((resolve, reject) => {
       this.db.all(
-        'SELECT * FROM media_answers WHERE media_id = ? ORDER BY is_primary DESC',
-        [mediaId],
-        (err, rows) => {
+        `SELECT r.media_id, m.title, m.status AS media_status,
+           COUNT(*) AS reports, GROUP_CONCAT(r.reason) AS reasons, MIN(r.created_at) AS first_reported_at
+         FROM media_reports r
+         JOIN media m ON m.id = r.media_id
+         WHERE r.status = 'open' AND r.guild_id = ?
+         GROUP BY r.media_id
+         ORDER BY reports DESC, first_reported_at
+         LIMIT ?`,
+        [guildId, limit],
+        (err, rows: any[]) => {
           if (err) reject(err);
-          else resolve(rows);
+          else resolve((rows || []).map(row => {
+            const reasons: Partial<Record<ReportReason, number>> = {};
+            for (const reason of `${row.reasons || ''}`.split(',').filter(Boolean) as ReportReason[]) {
+              reasons[reason] = (reasons[reason] || 0) + 1;
+            }
+            return {
+              mediaId: row.media_id,
+              title: row.title,
+              mediaStatus: row.media_status,
+              reports: row.reports,
+              reasons,
+              firstReportedAt: row.first_reported_at
+            };
+          }));
         }
       );
     });
   }
 
-  public async deleteMediaAnswer(answerId: number): Promise<boolean> {
+  public async countOpenReports(guildId: string): Promise<number> {
     return new Promise((resolve, reject) => {
-      this.db.run(
-        'DELETE FROM media_answers WHERE id = ?',
-        [answerId],
-        function(err) {
+      this.db.get(
+        `SELECT COUNT(DISTINCT media_id) AS count FROM media_reports WHERE status = 'open' AND guild_id = ?`,
+        [guildId],
+        (err, row: any) => {
           if (err) reject(err);
-          else resolve(this.changes > 0);
+          else resolve(row?.count || 0);
         }
       );
     });
   }
 
-  public async getMediaById(mediaId: number): Promise<any[]> {
+  public async hasOpenReports(mediaId: number, guildId: string): Promise<boolean> {
     return new Promise((resolve, reject) => {
-      this.db.all(
-        'SELECT * FROM media WHERE id = ?',
-        [mediaId],
-        (err, rows) => {
+      this.db.get(
+        `SELECT 1 FROM media_reports WHERE media_id = ? AND guild_id = ? AND status = 'open' LIMIT 1`,
+        [mediaId, guildId],
+        (err, row) => {
           if (err) reject(err);
-          else resolve(rows || []);
+          else resolve(!!row);
         }
       );
     });
   }
 
-  public async getMediaByTitle(title: string): Promise<any[]> {
-    // normalize the search term for proper matching
-    const normalizedSearchTerm = this.normalizeString(title)
-    const searchPattern = `%${title}%`
-    
+  /**
+   * close every open report a guild filed on a media, returns how many were closed
+   */
+  public async resolveReports(mediaId: number, guildId: string, status: Exclude<ReportStatus, 'open'>, resolvedBy: string): Promise<number> {
     return new Promise((resolve, reject) => {
-      // first try to find exact matches - case insensitive
-      this.db.all(
-        `SELECT * FROM media 
-         WHERE LOWER(title) = LOWER(?) 
-         ORDER BY title LIMIT 10`,
-        [title],
-        (err, exactRows) => {
-          if (err) {
-            reject(err)
-            return
-          }
-          
-          // if we found exact matches return them first
-          if (exactRows && exactRows.length > 0) {
-            resolve(exactRows)
-            return
-          }
-          
-          // otherwise do a fuzzy search as fallback
-          this.db.all(
-            `SELECT * FROM media 
-             WHERE title LIKE ? 
-             ORDER BY 
-               CASE 
-                 WHEN LOWER(title) LIKE LOWER(?) THEN 0
-                 ELSE 1
-               END,
-               LENGTH(title), title 
-             LIMIT 10`,
-            [searchPattern, `${title}%`],
-            (err, fuzzyRows) => {
-              if (err) {
-                reject(err)
-                return
-              }
-              resolve(fuzzyRows)
-            }
-          )
+      this.db.run(
+        `UPDATE media_reports SET status = ?, resolved_by = ?, resolved_at = CURRENT_TIMESTAMP
+         WHERE media_id = ? AND guild_id = ? AND status = 'open'`,
+        [status, resolvedBy, mediaId, guildId],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.changes);
         }
-      )
-    })
+      );
+    });
   }
 
-  public async checkAnswer(mediaId: number, userAnswer: string): Promise<{correct: boolean, close: boolean}> {
-    const normalizedUserAnswer = this.normalizeString(userAnswer);
-    
+  public async setFingerprint(mediaId: number, fingerprint: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        'UPDATE media SET fingerprint = ? WHERE id = ?',
+        [fingerprint, mediaId],
+        function(err) {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  public async getFingerprints(): Promise<{ id: number, title: string, fingerprint: string }[]> {
     return new Promise((resolve, reject) => {
       this.db.all(
-        'SELECT answer, is_primary FROM media_answers WHERE media_id = ?',
-        [mediaId],
+        'SELECT id, title, fingerprint FROM media WHERE fingerprint IS NOT NULL AND deleted_at IS NULL ORDER BY id',
+        [],
         (err, rows: any[]) => {
           if (err) reject(err);
-          else {
-            // first check for exact matches
-            for (const row of rows) {
-              const normalizedDbAnswer = this.normalizeString(row.answer);
-              
-              if (normalizedUserAnswer === normalizedDbAnswer) {
-                resolve({correct: true, close: false});
-                return;
-              }
-            }
-            
-            // check for containment in either direction
-            for (const row of rows) {
-              const normalizedDbAnswer = this.normalizeString(row.answer);
-              
-              // user answer contains correct answer - any length is ok
-              if (normalizedUserAnswer.includes(normalizedDbAnswer)) {
-                resolve({correct: true, close: false});
-                return;
-              }
-              
-              // correct answer contains user answer if its meaningful enough
-              // change minimum chars from 4 to 3
-              // change ratio from 0.6 to 0.5 (50% of the word)
-              if (normalizedUserAnswer.length >= 3 && 
-                  normalizedDbAnswer.includes(normalizedUserAnswer) && 
-                  normalizedUserAnswer.length >= normalizedDbAnswer.length * 0.5) {
-                resolve({correct: true, close: false});
-                return;
-              }
-              
-              // special case for very short answers (2 chars) if its a full match
-              // to handle cases like "ff" for "ff"
-              if (normalizedUserAnswer.length === 2 &&
-                  normalizedDbAnswer === normalizedUserAnswer) {
-                resolve({correct: true, close: false});
-                return;
-              }
-              
-              // special case for short answers (2 chars) as abbreviations
-              // if the answer starts with these chars, like "ff" for "final fantasy"
-              if (normalizedUserAnswer.length === 2 &&
-                  normalizedDbAnswer.length > 4 &&
-                  normalizedDbAnswer.split(/\s+/).filter(word => word.startsWith(normalizedUserAnswer[0])).length > 0 &&
-                  normalizedDbAnswer.split(/\s+/).filter(word => word.startsWith(normalizedUserAnswer[1])).length > 0) {
-                resolve({correct: true, close: false});
-                return;
-              }
-            }
-            
-            // check for fuzzy matches (levenshtein)
-            for (const row of rows) {
-              const normalizedDbAnswer = this.normalizeString(row.answer);
-              
-              if (this.isSimilar(normalizedUserAnswer, normalizedDbAnswer, 0.7)) {
-                resolve({correct: false, close: true});
-                return;
-              }
-            }
-            
-            resolve({correct: false, close: false});
-          }
+          else resolve(rows || []);
         }
       );
     });
   }
-  
-  private isSimilar(str1: string, str2: string, threshold: number): boolean {
-    if (!str1 || !str2) return false;
-    
-    if (str1.includes(str2) || str2.includes(str1)) {
-      return true;
-    }
-    
-    const maxLen = Math.max(str1.length, str2.length);
-    if (maxLen === 0) return true;
-    
-    const distance = this.levenshteinDistance(str1, str2);
-    const similarity = 1 - distance / maxLen;
-    
-    return similarity >= threshold;
-  }
-  
-  private levenshteinDistance(str1: string, str2: string): number {
-    const track = Array(str2.length + 1).fill(null).map(() => 
-      Array(str1.length + 1).fill(null));
-    
-    for (let i = 0; i <= str1.length; i += 1) {
-      track[0][i] = i;
-    }
-    
-    for (let j = 0; j <= str2.length; j += 1) {
-      track[j][0] = j;
-    }
-    
-    for (let j = 1; j <= str2.length; j += 1) {
-      for (let i = 1; i <= str1.length; i += 1) {
-        const cost = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        track[j][i] = Math.min(
-          track[j][i - 1] + 1,
-          track[j - 1][i] + 1,
-          track[j - 1][i - 1] + cost,
-        );
-      }
-    }
-    
-    return track[str2.length][str1.length];
-  }
 
-  private normalizeString(str: string): string {
-    return str.toLowerCase()
-      .replace(/[^\w\s]/g, '')
-      .replace(/\s+/g, '');
+  /**
+   * fold a duplicate into the media being kept: answers it doesnt have yet (as alternatives),
+   * tags, pack entries, round history and anything the kept media is missing (year, metadata, regions,
+   * fingerprint, normalized file), then drop the duplicate. all or nothing, returns how many answers moved over
+   */
+  public async mergeMedia(keepId: number, duplicateId: number): Promise<number> {
+    const moved = await new Promise<number>((resolve, reject) => {
+      this.db.get(
+        `SELECT COUNT(*) AS count FROM media_answers d WHERE d.media_id = ? AND NOT EXISTS (
+           SELECT 1 FROM media_answers k WHERE k.media_id = ? AND k.answer = d.answer AND k.answer_group IS d.answer_group
+         )`,
+        [duplicateId, keepId],
+        (err, row: any) => {
+          if (err) reject(err);
+          else resolve(row?.count || 0);
+        }
+      );
+    });
+
+    await this.runTransaction([
+      [`INSERT INTO media_answers (media_id, answer, is_primary, answer_group)
+        SELECT ?, d.answer, 0, d.answer_group FROM media_answers d WHERE d.media_id = ? AND NOT EXISTS (
+          SELECT 1 FROM media_answers k WHERE k.media_id = ? AND k.answer = d.answer AND k.answer_group IS d.answer_group
+        )`, [keepId, duplicateId, keepId]],
+      ['INSERT OR IGNORE INTO media_tags (media_id, tag_id) SELECT ?, tag_id FROM media_tags WHERE media_id = ?', [keepId, duplicateId]],
+      ['INSERT OR IGNORE INTO quiz_pack_media (pack_id, media_id, position) SELECT pack_id, ?, position FROM quiz_pack_media WHERE media_id = ?', [keepId, duplicateId]],
+      ['UPDATE session_rounds SET media_id = ? WHERE media_id = ?', [keepId, duplicateId]],
+      ['UPDATE media_reports SET media_id = ? WHERE media_id = ?', [keepId, duplicateId]],
+      [`UPDATE media SET
+          year = COALESCE(year, (SELECT year FROM media WHERE id = ?)),
+          metadata = COALESCE(metadata, (SELECT metadata FROM media WHERE id = ?)),
+          normalized_path = COALESCE(normalized_path, (SELECT normalized_path FROM media WHERE id = ?)),
+          clip_regions = COALESCE(clip_regions, (SELECT clip_regions FROM media WHERE id = ?)),
+          energy_regions = COALESCE(energy_regions, (SELECT energy_regions FROM media WHERE id = ?)),
+          fingerprint = COALESCE(fingerprint, (SELECT fingerprint FROM media WHERE id = ?))
+        WHERE id = ?`, [duplicateId, duplicateId, duplicateId, duplicateId, duplicateId, duplicateId, keepId]],
+      ['DELETE FROM media_answers WHERE media_id = ?', [duplicateId]],
+      ['DELETE FROM media_tags WHERE media_id = ?', [duplicateId]],
+      ['DELETE FROM quiz_pack_media WHERE media_id = ?', [duplicateId]],
+      ['DELETE FROM media WHERE id = ?', [duplicateId]]
+    ]);
+
+    return moved;
   }
 
-  public close(): void {
-    this.db.close();
+  public async tagMedia(mediaId: number, tags: string[]): Promise<void> {
+    for (const tag of tags) {
+      await this.linkMediaTag(mediaId, await this.addTag(tag));
+    }
   }
 
-  public async updateNormalizedPath(mediaId: number, normalizedPath: string): Promise<void> {
+  public async recordSessionRound(
+    sessionId: number,
+    roundNumber: number,
+    mediaId: number,
+    startedAt: number,
+    outcome: RoundOutcome
+  ): Promise<void> {
     return new Promise((resolve, reject) => {
       this.db.run(
-        'UPDATE media SET normalized_path = ? WHERE id = ?',
-        [normalizedPath, mediaId],
-        function(err) {
+        `INSERT OR IGNORE INTO session_rounds 
+         (session_id, round_number, media_id, started_at, guessed_by, guess_count, skipped, timed_out, points, answer_time_ms)
+         VALUES (?, ?, ?, datetime(?, 'unixepoch'), ?, ?, ?, ?, ?, ?)`,
+        [
+          sessionId,
+          roundNumber,
+          mediaId,
+          Math.floor(startedAt / 1000),
+          outcome.guessedBy || null,
+          outcome.guessCount,
+          outcome.skipped ? 1 : 0,
+          outcome.timedOut ? 1 : 0,
+          outcome.points ?? null,
+          outcome.answerTimeMs ?? null
+        ],
+        (err) => {
           if (err) reject(err);
           else resolve();
         }
@@ -559,51 +2152,40 @@ export class DatabaseManager {
 
   public async getPreviousRoundMedia(sessionId: number, roundNumber: number): Promise<any | null> {
     return new Promise((resolve, reject) => {
-      // get the last media that was played by joining with game_session_media or
-      // try to infer it based on what round the playlist is on
-      
-      // for now, just get a specific media based on session ID and round number
-      // real implementation would need to use session history or similar
-      
-      // first check if we even have a record of the round
       this.db.get(
-        `SELECT * FROM game_sessions 
-         WHERE id = ? AND current_round >= ?`,
-        [sessionId, roundNumber + 1],
-        (err, sessionRow) => {
-          if (err) {
-            reject(err);
-            return;
-          }
-          
-          if (!sessionRow) {
-            // no valid previous round found
-            resolve(null);
-            return;
-          }
-          
-          // since we don't track exactly which media was played in which round
-          // we'll use a workaround - get all media with playback history for this session
-          // this is a stub for now - would need session_history table in a full implementation
-          this.db.all(
-            `SELECT m.* FROM media m 
-             ORDER BY RANDOM() 
-             LIMIT 1`,
-            [],
-            (err, rows) => {
-              if (err) {
-                reject(err);
-                return;
-              }
-              
-              if (!rows || rows.length === 0) {
-                resolve(null);
-                return;
-              }
-              
-              resolve(rows[0]);
-            }
-          );
+        `SELECT m.* FROM session_rounds sr
+         JOIN media m ON m.id = sr.media_id
+         WHERE sr.session_id = ? AND sr.round_number = ? AND ${NOT_DELETED_SQL}`,
+        [sessionId, roundNumber],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve(row || null);
+        }
+      );
+    });
+  }
+
+  /**
+   * get the most recently recorded rounds for the latest game in a channel
+   */
+  public async getRecentRounds(guildId: string, channelId: string, limit: number = 10): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT sr.*, m.title, m.file_path, m.normalized_path
+         FROM session_rounds sr
+         JOIN media m ON m.id = sr.media_id
+         WHERE sr.session_id = (
+           SELECT gs.id FROM game_sessions gs
+           JOIN session_rounds r ON r.session_id = gs.id
+           WHERE gs.guild_id = ? AND gs.channel_id = ?
+           ORDER BY gs.id DESC LIMIT 1
+         ) AND ${NOT_DELETED_SQL}
+         ORDER BY sr.round_number DESC
+         LIMIT ?`,
+        [guildId, channelId, limit],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
         }
       );
     });
@@ -612,16 +2194,20 @@ export class DatabaseManager {
   /**
    * search for media by title
    */
-  public async searchMedia(searchTerm: string): Promise<any[]> {
+  public async searchMedia(searchTerm: string, tags?: TagExpression): Promise<any[]> {
     if (!searchTerm) {
-      return this.getRandomMedia(1)
+      return this.getRandomMedia(1, undefined, undefined, { tags })
     }
     
+    // every step of the search stays inside the tag filter
+    const tagFilter = tags ? compileTagExpression(tags, 'media.id') : { sql: '1=1', params: [] }
+    tagFilter.sql = `media.status = 'approved' AND media.deleted_at IS NULL AND ${tagFilter.sql}`
+    
     return new Promise((resolve, reject) => {
       // first try exact match
       this.db.all(
-        'SELECT id, title, file_path, normalized_path FROM media WHERE title = ? LIMIT 10',
-        [searchTerm],
+        `SELECT id, title, file_path, normalized_path, clip_regions, energy_regions FROM media WHERE title = ? AND ${tagFilter.sql} LIMIT 10`,
+        [searchTerm, ...tagFilter.params],
         (err, rows) => {
           if (err) {
             reject(err)
@@ -636,8 +2222,8 @@ export class DatabaseManager {
           // no exact match, try LIKE with % before and after
           const searchPattern = `%${searchTerm}%`
           this.db.all(
-            'SELECT id, title, file_path, normalized_path FROM media WHERE title LIKE ? LIMIT 10',
-            [searchPattern],
+            `SELECT id, title, file_path, normalized_path, clip_regions, energy_regions FROM media WHERE title LIKE ? AND ${tagFilter.sql} LIMIT 10`,
+            [searchPattern, ...tagFilter.params],
             (err, rows) => {
               if (err) {
                 reject(err)
@@ -652,13 +2238,13 @@ export class DatabaseManager {
               // no LIKE match either, try fuzzy match
               this.db.all(
                 `SELECT 
-                   id, title, file_path, normalized_path,
+                   id, title, file_path, normalized_path, clip_regions, energy_regions,
                    1 - (length(?) * 1.0 / length(title)) as score
                  FROM media 
-                 WHERE title LIKE ? 
+                 WHERE title LIKE ? AND ${tagFilter.sql}
                  ORDER BY score DESC
                  LIMIT 10`,
-                [searchTerm, `%${searchTerm.split('').join('%')}%`],
+                [searchTerm, `%${searchTerm.split('').join('%')}%`, ...tagFilter.params],
                 (err, fuzzyRows) => {
                   if (err) {
                     reject(err)
@@ -667,7 +2253,7 @@ export class DatabaseManager {
                   
                   // if all else fails, just return random
                   if (!fuzzyRows || fuzzyRows.length === 0) {
-                    this.getRandomMedia(1).then(resolve).catch(reject)
+                    this.getRandomMedia(1, undefined, undefined, { tags }).then(resolve).catch(reject)
                     return
                   }
                   
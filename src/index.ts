@@ -5,11 +5,9 @@ import {
   Events,
   REST,
   Routes,
-  ModalBuilder,
-  TextInputBuilder,
-  TextInputStyle,
-  ActionRowBuilder,
-  ModalSubmitInteraction
+  ModalSubmitInteraction,
+  TextChannel,
+  ThreadChannel
 } from 'discord.js';
 import path from 'path';
 import fs from 'fs';
@@ -17,6 +15,12 @@ import dotenv from 'dotenv';
 import { DatabaseManager } from './database/databaseManager';
 import { startServer } from './web/server';
 import { ChatCommandHandler } from './utils/chatCommandHandler';
+import { GameManager } from './utils/gameManager';
+import { ModerationManager } from './utils/moderationManager';
+import { ReportManager } from './utils/reportManager';
+import { buildAnswersModal, saveAnswers } from './utils/answerEditor';
+import { ChoiceLockResult } from './utils/types';
+import { resumeGame } from './commands/otoq';
 
 dotenv.config();
 
@@ -27,6 +31,7 @@ if (DEV_MODE) console.log('running in dev mode with guild id', process.env.DISCO
 interface Command {
   data: any;
   execute: (interaction: any) => Promise<void>;
+  autocomplete?: (interaction: any) => Promise<void>;
 }
 
 interface ClientWithCommands extends Client {
@@ -142,6 +147,15 @@ async function main() {
           await interaction.reply({ content, ephemeral: true });
         }
       }
+    } else if (interaction.isAutocomplete()) {
+      const command = client.commands?.get(interaction.commandName);
+      if (!command?.autocomplete) return;
+
+      try {
+        await command.autocomplete(interaction);
+      } catch (error) {
+        console.error(`error autocompleting ${interaction.commandName}:`, error);
+      }
     } else if (interaction.isButton()) {
       try {
         // handle edit answers button
@@ -152,13 +166,9 @@ async function main() {
             return;
           }
           
-          const db = DatabaseManager.getInstance();
-          
           try {
-            // get media and answers
-            const mediaData = await db.getMediaById(mediaId);
-          
-            if (!mediaData || mediaData.length === 0) {
+            const modal = await buildAnswersModal(mediaId, `edit_answers_modal_${mediaId}`);
+            if (!modal) {
               await interaction.reply({ 
                 content: 'media not found (￣ヘ￣)', 
                 ephemeral: true 
@@ -166,44 +176,6 @@ async function main() {
               return;
             }
             
-            const media = mediaData[0]; // Extract first item
-            
-            const answers = await db.getMediaAnswers(mediaId);
-            
-            // build modal with answers in a textarea
-            const modal = new ModalBuilder()
-              .setCustomId(`edit_answers_modal_${mediaId}`)
-              .setTitle(`Edit Answers for ${media.title}`);
-            
-            // combine answers into a single string
-            let answersText = '';
-            
-            // primary answer first
-            const primaryAnswer = answers.find(a => a.is_primary);
-            if (primaryAnswer) {
-              answersText += primaryAnswer.answer;
-            } else {
-              // use title as primary if no primary answer exists
-              answersText += media.title;
-            }
-            
-            // then alternatives
-            const altAnswers = answers.filter(a => !a.is_primary);
-            if (altAnswers.length > 0) {
-              answersText += '\n' + altAnswers.map(a => a.answer).join('\n');
-            }
-            
-            // create textarea input - one line per answer
-            const answersInput = new TextInputBuilder()
-              .setCustomId('answers')
-              .setLabel('Answers (one per line, first line is primary)')
-              .setStyle(TextInputStyle.Paragraph)
-              .setValue(answersText)
-              .setRequired(true);
-              
-            const answersRow = new ActionRowBuilder<TextInputBuilder>().addComponents(answersInput);
-            modal.addComponents(answersRow);
-            
             // show modal
             await interaction.showModal(modal);
           } catch (error) {
@@ -213,6 +185,35 @@ async function main() {
               ephemeral: true 
             });
           }
+        } else if (interaction.customId.startsWith('mod_')) {
+          // approve/reject buttons on upload review posts
+          await ModerationManager.getInstance().handleButton(interaction);
+        } else if (interaction.customId.startsWith('report_')) {
+          // report buttons on round reveals and the /otoqreports review list
+          await ReportManager.getInstance().handleButton(interaction);
+        } else if (interaction.customId.startsWith('quiz_choice_')) {
+          // handle multiple choice answer button
+          const [roundMediaId, choiceId] = interaction.customId.replace('quiz_choice_', '').split('_').map(Number);
+          
+          const result = GameManager.getInstance().processChoice(
+            interaction.guildId!,
+            interaction.channelId,
+            interaction.user.id,
+            interaction.user.username,
+            roundMediaId,
+            choiceId,
+            interaction.channel as TextChannel | ThreadChannel
+          );
+          
+          const replies: Record<ChoiceLockResult, string> = {
+            'locked': 'locked in! wait for the reveal (・∀・)',
+            'already-locked': 'you already picked one baka, no take-backs (￣ヘ￣)',
+            'invalid': 'thats not one of the choices ಠ_ಠ',
+            'stale': 'that round is already over (￣ー￣;)',
+            'no-game': 'no multiple choice game running here (￢_￢)'
+          };
+          
+          await interaction.reply({ content: replies[result], ephemeral: true });
         }
       } catch (error) {
         console.error('error handling button interaction:', error);
@@ -232,57 +233,15 @@ async function main() {
           }
           
           await interaction.deferReply({ ephemeral: true });
-          const db = DatabaseManager.getInstance();
           
           try {
-            // get current answers to compare
-            const currentAnswers = await db.getMediaAnswers(mediaId);
-            
-            // get answers from the textarea - split by newlines
-            const answersText = interaction.fields.getTextInputValue('answers');
-            const answers = answersText.split('\n')
-              .map(line => line.trim())
-              .filter(line => line.length > 0); // filter empty lines
-              
-            if (answers.length === 0) {
+            if (!await saveAnswers(mediaId, interaction.fields.getTextInputValue('answers'))) {
               await interaction.editReply({
                 content: 'no answers provided! need at least one ヽ(｀⌒´)ﾉ',
               });
               return;
             }
             
-            // first line is primary, rest are alternatives
-            const primaryAnswer = answers[0];
-            const altAnswers = answers.slice(1);
-            
-            // handle primary answer
-            const currentPrimary = currentAnswers.find(a => a.is_primary);
-            if (!currentPrimary) {
-              // no primary exists, add new one
-              await db.addPrimaryAnswer(mediaId, primaryAnswer);
-            } else if (currentPrimary.answer.toLowerCase() !== primaryAnswer.toLowerCase()) {
-              // primary changed - delete old and add new
-              await db.deleteMediaAnswer(currentPrimary.id);
-              await db.addPrimaryAnswer(mediaId, primaryAnswer);
-            }
-            
-            // handle alternative answers
-            const currentAlts = currentAnswers.filter(a => !a.is_primary);
-            
-            // delete answers that aren't in the new list
-            for (const currentAlt of currentAlts) {
-              if (!altAnswers.some(a => a.toLowerCase() === currentAlt.answer.toLowerCase())) {
-                await db.deleteMediaAnswer(currentAlt.id);
-              }
-            }
-            
-            // add new answers
-            for (const altAnswer of altAnswers) {
-              if (!currentAlts.some(a => a.answer.toLowerCase() === altAnswer.toLowerCase())) {
-                await db.addAlternativeAnswer(mediaId, altAnswer);
-              }
-            }
-            
             await interaction.editReply({ 
               content: `updated answers for media #${mediaId} (￣ー￣)ｂ`, 
             });
@@ -292,6 +251,9 @@ async function main() {
               content: 'error updating answers (╯°□°）╯︵ ┻━┻', 
             });
           }
+        } else if (interaction.customId.startsWith('report_')) {
+          // answers fixed from the /otoqreports review list
+          await ReportManager.getInstance().handleModal(interaction);
         }
       } catch (error) {
         console.error('error handling modal submit:', error);
@@ -311,6 +273,19 @@ async function main() {
     await chatCommandHandler.handleMessage(message);
   });
 
+  // pick up games that were running before a restart
+  client.once(Events.ClientReady, async (readyClient) => {
+    try {
+      const restored = await GameManager.getInstance().restoreSessions(readyClient);
+      for (const game of restored) {
+        await resumeGame(game);
+      }
+      if (restored.length > 0) console.log(`resumed ${restored.length} games (ง •̀_•́)ง`);
+    } catch (error) {
+      console.error('error resuming games:', error);
+    }
+  });
+
   // login
   await client.login(process.env.DISCORD_TOKEN);
   console.log('bot is online! (￣ー￣)ｂ');
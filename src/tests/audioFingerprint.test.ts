@@ -0,0 +1,87 @@
+import {
+  fingerprintSamples,
+  fingerprintSimilarity,
+  encodeFingerprint,
+  decodeFingerprint,
+  describeDuplicates,
+  DUPLICATE_THRESHOLD,
+  FingerprintManager
+} from '../utils/audioFingerprint';
+import { DatabaseManager } from '../database/databaseManager';
+
+jest.mock('../database/databaseManager', () => ({ DatabaseManager: { getInstance: jest.fn() } }));
+
+const SAMPLE_RATE = 5512;
+
+// seeded so the "songs" are the same every run
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+}
+
+// a melody of random notes, a quarter second each
+function melody(seed: number, seconds: number): Float32Array {
+  const next = random(seed);
+  const samples = new Float32Array(seconds * SAMPLE_RATE);
+  const noteLength = SAMPLE_RATE / 4;
+  let frequencies: number[] = [];
+
+  for (let i = 0; i < samples.length; i++) {
+    if (i % noteLength === 0) frequencies = [300 + next() * 1700, 300 + next() * 1700];
+    samples[i] = frequencies.reduce((sum, f) => sum + 0.3 * Math.sin(2 * Math.PI * f * i / SAMPLE_RATE), 0);
+  }
+  return samples;
+}
+
+describe('audioFingerprint', () => {
+  const song = melody(1, 20);
+  const fingerprint = fingerprintSamples(song);
+
+  test('should match the same audio at another volume, with noise and a lead in', () => {
+    const noise = random(99);
+    const quieterWithNoise = song.map(s => s * 0.5 + (noise() - 0.5) * 0.02);
+    const leadIn = new Float32Array(SAMPLE_RATE + song.length);
+    leadIn.set(song, SAMPLE_RATE);
+
+    expect(fingerprintSimilarity(fingerprint, fingerprint)).toBe(1);
+    expect(fingerprintSimilarity(fingerprint, fingerprintSamples(quieterWithNoise))).toBeGreaterThan(DUPLICATE_THRESHOLD);
+    expect(fingerprintSimilarity(fingerprint, fingerprintSamples(leadIn))).toBeGreaterThan(DUPLICATE_THRESHOLD);
+  });
+
+  test('should not match different audio or silence', () => {
+    expect(fingerprintSimilarity(fingerprint, fingerprintSamples(melody(2, 20)))).toBeLessThan(0.7);
+    expect(fingerprintSamples(new Float32Array(SAMPLE_RATE * 5))).toHaveLength(0);
+    expect(fingerprintSimilarity(fingerprint, new Uint32Array(0))).toBe(0);
+  });
+
+  test('should store fingerprints as text without losing bits', () => {
+    const values = Uint32Array.from([0, 1, 0xFFFFFFFF, 0x80000000, 123456789]);
+    expect(Array.from(decodeFingerprint(encodeFingerprint(values)))).toEqual(Array.from(values));
+  });
+
+  test('should find duplicate pairs in a library too big to compare exhaustively', async () => {
+    const next = random(7);
+    const rows = Array.from({ length: 120 }, (_, i) => ({
+      id: i + 1,
+      title: `song ${i + 1}`,
+      fingerprint: encodeFingerprint(Uint32Array.from({ length: 200 }, () => Math.floor(next() * 0xFFFFFFFF)))
+    }));
+    rows.push({ id: 500, title: 'song 40 again', fingerprint: rows[39].fingerprint });
+    (DatabaseManager.getInstance as jest.Mock).mockReturnValue({ getFingerprints: jest.fn().mockResolvedValue(rows) });
+
+    const pairs = await FingerprintManager.getInstance().findDuplicatePairs();
+    expect(pairs).toEqual([{ a: { id: 40, title: 'song 40' }, b: { id: 500, title: 'song 40 again' }, similarity: 1 }]);
+  });
+
+  test('should describe the closest matches for upload replies', () => {
+    expect(describeDuplicates([])).toBeNull();
+    expect(describeDuplicates([
+      { id: 12, title: 'Tank!', similarity: 0.934 },
+      { id: 3, title: 'a', similarity: 0.9 },
+      { id: 4, title: 'b', similarity: 0.85 },
+      { id: 5, title: 'c', similarity: 0.81 }
+    ])).toBe('sounds like #12 Tank! (93%), #3 a (90%), #4 b (85%) and 1 more');
+  });
+});
@@ -433,6 +433,31 @@ describe('AudioPlayerManager', () => {
     expect(mockFfmpegInstance.duration).toHaveBeenCalledWith(10);
   });
 
+  test('should pick clips from saved regions', async () => {
+    const ffmpegMock = require('fluent-ffmpeg');
+    (ffmpegMock as any).ffprobe.mockImplementationOnce((path: string, callback: any) => {
+      callback(null, { format: { duration: 200.0 } });
+    });
+    
+    const mockFfmpegInstance = {
+      seekInput: jest.fn().mockReturnThis(),
+      duration: jest.fn().mockReturnThis(),
+      output: jest.fn().mockReturnThis(),
+      on: jest.fn().mockImplementation(function(this: any, event: string, callback: any) {
+        if (event === 'end') setImmediate(callback);
+        return this;
+      }),
+      run: jest.fn()
+    };
+    ffmpegMock.mockReturnValueOnce(mockFfmpegInstance);
+    
+    await audioPlayerManager.createRandomClip('/path/to/file.mp3', { regions: [{ start: 120, end: 150 }] });
+    
+    const start = mockFfmpegInstance.seekInput.mock.calls[0][0];
+    expect(start).toBeGreaterThanOrEqual(120);
+    expect(start).toBeLessThanOrEqual(140);
+  });
+
   test('should get random screencap direct without fail chance', async () => {
     // override the private extractRandomFrame method
     const mockScreencapPath = '/path/to/temp/screencap_123456.jpg';
@@ -0,0 +1,54 @@
+import { parseTime, formatRegion, parseRegion, parseRegionList, normalizeRegions, parseStoredRegions, getStartOffset, pickClipStart, playableRegions } from '../utils/clipRegions';
+
+describe('clipRegions', () => {
+  test('should read minutes and seconds or plain seconds', () => {
+    expect(parseTime('1:05')).toBe(65);
+    expect(parseTime('65.5')).toBe(65.5);
+    expect(parseTime('1:75')).toBeNull();
+    expect(parseTime('soon')).toBeNull();
+  });
+
+  test('should parse regions and explain bad ones', () => {
+    expect(parseRegion('1:05-1:40')).toEqual({ start: 65, end: 100 });
+    expect(formatRegion({ start: 65, end: 100.5 })).toBe('1:05-1:40.5');
+    expect(() => parseRegion('1:40-1:05')).toThrow('has to end at least');
+    expect(() => parseRegion('intro')).toThrow('use start-end');
+  });
+
+  test('should sort and merge overlapping regions', () => {
+    expect(parseRegionList('2:00-2:30, 0:10-0:40, 0:30-1:00')).toEqual([{ start: 10, end: 60 }, { start: 120, end: 150 }]);
+    expect(parseRegionList('')).toEqual([]);
+    expect(() => normalizeRegions(Array.from({ length: 11 }, (_, i) => ({ start: i * 10, end: i * 10 + 5 })))).toThrow('at most 10');
+  });
+
+  test('should ignore unreadable stored regions', () => {
+    expect(parseStoredRegions('[{"start":5,"end":20}]')).toEqual([{ start: 5, end: 20 }]);
+    expect(parseStoredRegions('nope')).toEqual([]);
+    expect(parseStoredRegions(null)).toEqual([]);
+  });
+
+  test('should prefer saved regions over analysed ones', () => {
+    const energy_regions = '[{"start":3,"end":40}]';
+    expect(playableRegions({ clip_regions: '[{"start":60,"end":90}]', energy_regions })).toEqual([{ start: 60, end: 90 }]);
+    expect(playableRegions({ clip_regions: null, energy_regions })).toEqual([{ start: 3, end: 40 }]);
+    expect(playableRegions({})).toEqual([]);
+  });
+
+  test('should start full playback at the first region', () => {
+    expect(getStartOffset([{ start: 90, end: 120 }, { start: 30, end: 60 }])).toBe(30);
+    expect(getStartOffset([])).toBe(0);
+  });
+
+  test('should pick clip starts inside the regions', () => {
+    const regions = [{ start: 30, end: 60 }, { start: 100, end: 105 }];
+
+    // low roll lands in the first region with room for a 10s clip
+    expect(pickClipStart(regions, 10, undefined, () => 0)).toBe(30);
+    expect(pickClipStart(regions, 10, undefined, () => 0.5)).toBe(40);
+    // the short region starts at its beginning
+    expect(pickClipStart(regions, 10, undefined, () => 0.99)).toBe(100);
+    // regions past the end of the file are dropped
+    expect(pickClipStart(regions, 10, 50, () => 0.99)).toBeCloseTo(39.9);
+    expect(pickClipStart([], 10)).toBeNull();
+  });
+});
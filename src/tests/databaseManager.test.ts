@@ -17,6 +17,7 @@ jest.mock('sqlite3', () => {
       ]);
     }),
     serialize: jest.fn(cb => cb()),
+    configure: jest.fn(),
     close: jest.fn()
   };
 
@@ -136,6 +137,37 @@ describe('DatabaseManager', () => {
     expect(tooShortMatch.close).toBe(true);  // but should be considered close
   });
   
+  test('should report which part of a multi-part answer matched', async () => {
+    const mockDb = (dbManager as any).db;
+    const rows = [
+      { answer: 'test song 1', is_primary: 1, answer_group: null },
+      { answer: 'test artist', is_primary: 1, answer_group: 'artist' }
+    ];
+    const originalAll = mockDb.all.getMockImplementation();
+    mockDb.all.mockImplementation((query: string, params: any[], callback: (err: Error | null, rows: any[]) => void) => {
+      callback(null, rows);
+    });
+    
+    const artistMatch = await dbManager.checkAnswer(1, 'test artist');
+    expect(artistMatch.correct).toBe(true);
+    expect(artistMatch.part).toBe('artist');
+    
+    const titleMatch = await dbManager.checkAnswer(1, 'test song 1');
+    expect(titleMatch.part).toBe('title');
+    
+    // parts that were already guessed are skipped
+    const excluded = await dbManager.checkAnswer(1, 'test artist', ['artist']);
+    expect(excluded.correct).toBe(false);
+    
+    const parts = await dbManager.getAnswerParts(1);
+    expect(parts).toEqual([
+      { part: 'title', answer: 'test song 1' },
+      { part: 'artist', answer: 'test artist' }
+    ]);
+    
+    mockDb.all.mockImplementation(originalAll);
+  });
+  
   test('should get random media with filters', async () => {
     const mockDb = (dbManager as any).db;
     mockDb.all.mockImplementationOnce((query: string, params: any[], callback: (err: Error | null, rows: any[]) => void) => {
@@ -158,6 +190,319 @@ describe('DatabaseManager', () => {
     expect(result.map(item => item.title).sort()).toEqual(['anime song 1', 'anime song 2'].sort());
   });
   
+  test('should only pick media with a year for year rounds', async () => {
+    const mockDb = (dbManager as any).db;
+    
+    await dbManager.getRandomMedia(20, undefined, undefined, { requireYear: true });
+    expect(mockDb.all.mock.calls[0][0]).toContain('m.year IS NOT NULL');
+    
+    await dbManager.getRandomMedia(20);
+    expect(mockDb.all.mock.calls[1][0]).not.toContain('m.year IS NOT NULL');
+  });
+  
+  test('should skip recently played media and look up the guild window', async () => {
+    const mockDb = (dbManager as any).db;
+    
+    await dbManager.getRandomMedia(20, undefined, undefined, { excludeIds: [3, 4] });
+    const [query, params] = mockDb.all.mock.calls[0];
+    expect(query).toContain('m.id NOT IN (?,?)');
+    expect(params).toEqual([3, 4, 20]);
+    
+    mockDb.get.mockImplementationOnce((query: string, params: any[], callback: (err: Error | null, row: any) => void) => {
+      callback(null, { recent_games: 5, recent_days: 2 });
+    });
+    mockDb.all.mockImplementationOnce((query: string, params: any[], callback: (err: Error | null, rows: any[]) => void) => {
+      callback(null, [{ media_id: 3 }, { media_id: 4 }]);
+    });
+    
+    expect(await dbManager.getRecentlyPlayedMedia('guild1')).toEqual([3, 4]);
+    expect(mockDb.all.mock.calls[1][1]).toEqual(['guild1', 'guild1', 5, 2, 2]);
+  });
+  
+  test('should keep pending uploads out of games unless asked for', async () => {
+    const mockDb = (dbManager as any).db;
+    
+    await dbManager.getRandomMedia(20);
+    await dbManager.getFilteredMedia(undefined, undefined, { includePending: true });
+    expect(mockDb.all.mock.calls[0][0]).toContain("m.status = 'approved'");
+    expect(mockDb.all.mock.calls[1][0]).not.toContain("m.status = 'approved'");
+    
+    await dbManager.addMedia('joke upload', '/path/joke.mp3', undefined, undefined, { uploadedBy: 'user1', status: 'pending' });
+    expect(mockDb.run.mock.calls[mockDb.run.mock.calls.length - 1][1]).toEqual(['joke upload', '/path/joke.mp3', null, null, 'user1', null, 'pending']);
+  });
+  
+  test('should total uploads and plays per uploader', async () => {
+    const mockDb = (dbManager as any).db;
+    mockDb.all.mockImplementationOnce((query: string, params: any[], callback: (err: Error | null, rows: any[]) => void) => {
+      callback(null, [
+        { uploaded_by: 'user1', uploads: 3, live: 2, pending: 1, disabled: null, plays: 4, correct: 3 },
+        { uploaded_by: 'web:someone', uploads: 1, live: 1, pending: 0, disabled: 0, plays: 0, correct: 0 }
+      ]);
+    });
+    
+    expect(await dbManager.getUploaderStats(5)).toEqual([
+      { uploadedBy: 'user1', uploads: 3, live: 2, pending: 1, disabled: 0, plays: 4, correctRate: 0.75 },
+      { uploadedBy: 'web:someone', uploads: 1, live: 1, pending: 0, disabled: 0, plays: 0, correctRate: 0 }
+    ]);
+    expect(mockDb.all.mock.calls[0][1]).toEqual([5]);
+  });
+  
+  test('should keep deleted media out of games and searches', async () => {
+    const mockDb = (dbManager as any).db;
+    
+    await dbManager.getRandomMedia(5);
+    await dbManager.getFilteredMedia(undefined, undefined, { includePending: true });
+    await dbManager.searchMedia('tank');
+    expect(mockDb.all.mock.calls[0][0]).toContain('m.deleted_at IS NULL');
+    expect(mockDb.all.mock.calls[1][0]).toContain('m.deleted_at IS NULL');
+    expect(mockDb.all.mock.calls[2][0]).toContain('media.deleted_at IS NULL');
+  });
+  
+  test('should keep deleted media out of replays and live upload counts', async () => {
+    const mockDb = (dbManager as any).db;
+    
+    await dbManager.getPreviousRoundMedia(1, 2);
+    await dbManager.getRecentRounds('guild1', 'channel1', 1);
+    await dbManager.getUploaderStats();
+    expect(mockDb.get.mock.calls[0][0]).toContain('m.deleted_at IS NULL');
+    expect(mockDb.all.mock.calls[0][0]).toContain('m.deleted_at IS NULL');
+    expect(mockDb.all.mock.calls[1][0]).toContain(`SUM(m.status = 'approved' AND m.deleted_at IS NULL) AS live`);
+  });
+  
+  test('should soft delete and restore media', async () => {
+    const mockDb = (dbManager as any).db;
+    
+    expect(await dbManager.softDeleteMedia(5)).toBe(true);
+    expect(await dbManager.restoreMedia(5)).toBe(true);
+    expect(mockDb.run.mock.calls[0][0]).toContain('deleted_at = CURRENT_TIMESTAMP');
+    expect(mockDb.run.mock.calls[1][0]).toContain('deleted_at = NULL');
+    
+    await dbManager.getDeletedMedia(30);
+    expect(mockDb.all.mock.calls[0][1]).toEqual(['-30 days']);
+  });
+  
+  test('should only keep one open report per user and media', async () => {
+    const mockDb = (dbManager as any).db;
+    
+    expect(await dbManager.addReport(5, 'user1', 'guild1', 'wrong-answer')).toBe(true);
+    const [query, params] = mockDb.run.mock.calls[0];
+    expect(query).toContain('WHERE NOT EXISTS');
+    expect(params).toEqual([5, 'user1', 'guild1', 'wrong-answer', 5, 'user1', 'guild1']);
+  });
+  
+  test('should count report reasons per media', async () => {
+    const mockDb = (dbManager as any).db;
+    mockDb.all.mockImplementationOnce((query: string, params: any[], callback: (err: Error | null, rows: any[]) => void) => {
+      callback(null, [
+        { media_id: 5, title: 'Tank!', media_status: 'approved', reports: 3, reasons: 'bad-audio,wrong-answer,bad-audio', first_reported_at: '2024-01-01 10:00:00' }
+      ]);
+    });
+    
+    const [summary] = await dbManager.getOpenReports('guild1');
+    expect(mockDb.all.mock.calls[0][0]).toContain('r.guild_id = ?');
+    expect(mockDb.all.mock.calls[0][1]).toEqual(['guild1', 5]);
+    expect(summary.reasons).toEqual({ 'bad-audio': 2, 'wrong-answer': 1 });
+    expect(summary.reports).toBe(3);
+  });
+  
+  test('should bulk disable one uploaders media', async () => {
+    const mockDb = (dbManager as any).db;
+    
+    expect(await dbManager.disableUploader('user1')).toBe(1);
+    const [query, params] = mockDb.run.mock.calls[0];
+    expect(query).toContain(`SET uploader_disabled_from = status, status = 'disabled'`);
+    expect(params).toEqual(['user1']);
+  });
+  
+  test('should only re-enable what the uploader bulk disable took out', async () => {
+    const mockDb = (dbManager as any).db;
+    
+    await dbManager.enableUploader('user1');
+    await dbManager.setMediaStatus(5, 'disabled');
+    expect(mockDb.run.mock.calls[0][0]).toContain('SET status = uploader_disabled_from');
+    expect(mockDb.run.mock.calls[0][0]).toContain('uploader_disabled_from IS NOT NULL');
+    expect(mockDb.run.mock.calls[1][0]).toContain('uploader_disabled_from = NULL');
+  });
+  
+  test('should merge a duplicate into the media being kept', async () => {
+    const mockDb = (dbManager as any).db;
+    mockDb.get.mockImplementationOnce((query: string, params: any[], callback: (err: Error | null, row: any) => void) => {
+      callback(null, { count: 2 });
+    });
+    
+    expect(await dbManager.mergeMedia(4, 9)).toBe(2);
+    const statements = mockDb.run.mock.calls.map((call: any[]) => [call[0], call[1]]);
+    expect(statements).toContainEqual(['UPDATE session_rounds SET media_id = ? WHERE media_id = ?', [4, 9]]);
+    expect(statements[0][0]).toBe('BEGIN IMMEDIATE');
+    expect(statements[statements.length - 2]).toEqual(['DELETE FROM media WHERE id = ?', [9]]);
+    expect(statements[statements.length - 1][0]).toBe('COMMIT');
+    expect(statements.find(([query]: [string]) => query.includes('UPDATE media SET'))[0]).toContain('energy_regions = COALESCE(energy_regions');
+  });
+  
+  test('should roll a merge back when a step fails', async () => {
+    const mockDb = (dbManager as any).db;
+    // BEGIN goes through, copying the answers fails
+    mockDb.run
+      .mockImplementationOnce((query: string, params: any[], callback: (err: Error | null) => void) => callback(null))
+      .mockImplementationOnce((query: string, params: any[], callback: (err: Error | null) => void) => callback(new Error('disk full')));
+    
+    await expect(dbManager.mergeMedia(4, 9)).rejects.toThrow('disk full');
+    const queries = mockDb.run.mock.calls.map((call: any[]) => call[0]);
+    expect(queries[queries.length - 1]).toBe('ROLLBACK');
+    expect(queries.some((query: string) => query.startsWith('DELETE'))).toBe(false);
+  });
+  
+  test('should select every media for an export by ids and years', async () => {
+    const mockDb = (dbManager as any).db;
+    
+    await dbManager.getFilteredMedia(2000, undefined, { ids: [5, 9] });
+    const [query, params] = mockDb.all.mock.calls[0];
+    expect(query).toContain('m.id IN (?,?)');
+    expect(query).toContain('ORDER BY m.id');
+    expect(query).not.toContain('LIMIT');
+    expect(params).toEqual([2000, 5, 9]);
+  });
+  
+  test('should merge one tag into another and drop the old tag', async () => {
+    const mockDb = (dbManager as any).db;
+    mockDb.get
+      .mockImplementationOnce((query: string, params: any[], callback: (err: Error | null, row: any) => void) => {
+        callback(null, { id: 1, name: 'op' });
+      })
+      .mockImplementationOnce((query: string, params: any[], callback: (err: Error | null, row: any) => void) => {
+        callback(null, { id: 2, name: 'opening' });
+      })
+      .mockImplementationOnce((query: string, params: any[], callback: (err: Error | null, row: any) => void) => {
+        callback(null, { count: 4 });
+      });
+    
+    expect(await dbManager.mergeTags('OP', 'opening')).toBe(4);
+    expect(mockDb.get.mock.calls[0][1]).toEqual(['op']);
+    
+    const writes = mockDb.run.mock.calls.map((call: any[]) => [call[0], call[1]]);
+    expect(writes).toEqual([
+      ['BEGIN IMMEDIATE', []],
+      [expect.stringContaining('INSERT OR IGNORE INTO media_tags'), [2, 1]],
+      [expect.stringContaining('DELETE FROM media_tags'), [1]],
+      [expect.stringContaining('DELETE FROM tags'), [1]],
+      ['COMMIT', []]
+    ]);
+  });
+  
+  test('should not rename a tag onto one that already exists', async () => {
+    const mockDb = (dbManager as any).db;
+    
+    // default get finds both tags
+    expect(await dbManager.renameTag('op', 'opening')).toBe(false);
+    expect(mockDb.run).not.toHaveBeenCalled();
+  });
+  
+  test('should only update the media details that were given', async () => {
+    const mockDb = (dbManager as any).db;
+    
+    await dbManager.updateMediaDetails(5, { year: 2001, metadata: { artist: 'someone' } });
+    expect(mockDb.run.mock.calls[0][0]).toContain('SET year = ?, metadata = ?');
+    expect(mockDb.run.mock.calls[0][1]).toEqual([2001, '{"artist":"someone"}', 5]);
+    
+    // empty metadata clears the column
+    await dbManager.updateMediaDetails(5, { metadata: {} });
+    expect(mockDb.run.mock.calls[1][0]).not.toContain('year');
+    expect(mockDb.run.mock.calls[1][1]).toEqual([null, 5]);
+    
+    expect(await dbManager.updateMediaDetails(5, {})).toBe(false);
+    expect(mockDb.run).toHaveBeenCalledTimes(2);
+  });
+  
+  test('should filter random media by a tag expression', async () => {
+    const mockDb = (dbManager as any).db;
+    
+    await dbManager.getRandomMedia(['anime', 'op'], 2000);
+    const [query, params] = mockDb.all.mock.calls[0];
+    expect(query).toContain('AND (EXISTS');
+    expect(params).toEqual([2000, 'anime', 'op', 20]);
+    
+    await dbManager.searchMedia('bebop', { type: 'not', expr: { type: 'tag', name: 'op' } });
+    expect(mockDb.all.mock.calls[1][0]).toContain('AND NOT EXISTS');
+    expect(mockDb.all.mock.calls[1][1]).toEqual(['bebop', 'op']);
+  });
+  
+  test('should append pack media after the last position', async () => {
+    const mockDb = (dbManager as any).db;
+    
+    await dbManager.addPackMedia(2, [10, 11]);
+    const writes = mockDb.run.mock.calls.map((call: any[]) => [call[0], call[1]]);
+    expect(writes).toHaveLength(2);
+    expect(writes[0][0]).toContain('SELECT COALESCE(MAX(position), 0) + 1 FROM quiz_pack_media WHERE pack_id = ?');
+    expect(writes.map(([, params]: [string, any[]]) => params)).toEqual([[2, 10, 2], [2, 11, 2]]);
+    
+    // nothing to add, nothing to run
+    await dbManager.addPackMedia(2, []);
+    expect(mockDb.run).toHaveBeenCalledTimes(2);
+  });
+  
+  test('should archive the podium and start the next season', async () => {
+    const mockDb = (dbManager as any).db;
+    mockDb.get
+      .mockImplementationOnce((query: string, params: any[], callback: (err: Error | null, row: any) => void) => {
+        callback(null, { current_season: 2 });
+      })
+      .mockImplementationOnce((query: string, params: any[], callback: (err: Error | null, row: any) => void) => {
+        callback(null, { started_at: '2026-09-01 00:00:00' });
+      });
+    mockDb.all.mockImplementationOnce((query: string, params: any[], callback: (err: Error | null, rows: any[]) => void) => {
+      callback(null, [
+        { user_id: 'user1', correct_answers: 30, games_won: 4 },
+        { user_id: 'user2', correct_answers: 20, games_won: 2 },
+        { user_id: 'user3', correct_answers: 10, games_won: 1 },
+        { user_id: 'user4', correct_answers: 5, games_won: 0 }
+      ]);
+    });
+    
+    const result = await dbManager.archiveSeason('guild1');
+    
+    expect(result.season).toBe(2);
+    expect(result.players).toBe(4);
+    expect(result.podium.map(p => p.user_id)).toEqual(['user1', 'user2', 'user3']);
+    
+    const writes = mockDb.run.mock.calls.map((call: any[]) => [call[0], call[1]]);
+    expect(writes.filter(([query]: [string]) => query.includes('season_podiums'))).toHaveLength(3);
+    expect(writes.find(([query]: [string]) => query.includes('guild_settings'))[1]).toEqual(['guild1', 3]);
+  });
+  
+  test('should filter media by difficulty band', async () => {
+    const mockDb = (dbManager as any).db;
+    
+    await dbManager.getRandomMedia(20, undefined, undefined, { difficulty: 'hard' });
+    const [query, params] = mockDb.all.mock.calls[0];
+    expect(query).toContain('FROM session_rounds WHERE (guessed_by IS NOT NULL OR skipped = 1 OR timed_out = 1) GROUP BY media_id');
+    expect(params).toEqual(['hard', 20]);
+    
+    // mixed asks each band for a third
+    mockDb.all.mockClear();
+    await dbManager.getRandomMedia(9, undefined, undefined, { difficulty: 'mixed' });
+    expect(mockDb.all.mock.calls.slice(0, 3).map((call: any[]) => call[1])).toEqual([['easy', 3], ['normal', 3], ['hard', 3]]);
+  });
+  
+  test('should summarize media difficulty from round history', async () => {
+    const mockDb = (dbManager as any).db;
+    mockDb.all.mockImplementationOnce((query: string, params: any[], callback: (err: Error | null, rows: any[]) => void) => {
+      callback(null, [
+        { guessed_by: 'user1', skipped: 0, answer_time_ms: 4000 },
+        { guessed_by: 'user2', skipped: 0, answer_time_ms: 2000 },
+        { guessed_by: null, skipped: 1, answer_time_ms: null },
+        { guessed_by: 'user1', skipped: 0, answer_time_ms: 9000 }
+      ]);
+    });
+    
+    const stats = await dbManager.getMediaStats(1);
+    expect(mockDb.all.mock.calls[0][0]).toContain('timed_out = 1');
+    expect(stats.plays).toBe(4);
+    expect(stats.correctRate).toBe(0.75);
+    expect(stats.skipRate).toBe(0.25);
+    expect(stats.medianAnswerTimeMs).toBe(4000);
+    expect(stats.difficulty).toBe('easy');
+  });
+  
   test('should normalize strings for answer matching', () => {
     // create a normalizeString function that matches what's in databaseManager
     const normalizeString = (str: string): string => {
@@ -187,6 +187,17 @@ describe('EffectsManager', () => {
       expect(result.searchTerm).toBe('0800')
     })
 
+    test('parses a tag filter in braces next to other params', () => {
+      const result = effectsManager.parseCommandString('..o{tags=anime&!op,c=5} 0800')
+      expect(result.tagFilter).toBe('anime&!op')
+      expect(result.clipLength).toBe(5)
+      expect(result.effects).toEqual([])
+      expect(result.searchTerm).toBe('0800')
+
+      // commas inside the filter stay part of it
+      expect(effectsManager.parseCommandString('..o{t=anime, -op}').tagFilter).toBe('anime, -op')
+    })
+
     test('parses simplified brace syntax with effect that needs amount', () => {
       const result = effectsManager.parseCommandString('..o{echo=3} 0800')
       expect(result.effects).toEqual(['echo', 'echo', 'echo'])
@@ -0,0 +1,38 @@
+import { windowLoudness, findEnergeticRegions } from '../utils/energyAnalysis';
+
+jest.mock('../database/databaseManager', () => ({ DatabaseManager: { getInstance: jest.fn() } }));
+
+// one value per second at 100 samples a second
+function track(sections: [seconds: number, amplitude: number][]): Float32Array {
+  const samples: number[] = [];
+  for (const [seconds, amplitude] of sections) {
+    for (let i = 0; i < seconds * 100; i++) samples.push(i % 2 === 0 ? amplitude : -amplitude);
+  }
+  return new Float32Array(samples);
+}
+
+describe('energyAnalysis', () => {
+  test('should measure loudness per window', () => {
+    const loudness = windowLoudness(track([[1, 0], [1, 1], [1, 0.1]]), 100, 1);
+    expect(loudness).toHaveLength(3);
+    expect(loudness[0]).toBeLessThan(-100);
+    expect(loudness[1]).toBeCloseTo(0);
+    expect(loudness[2]).toBeCloseTo(-20);
+  });
+
+  test('should skip silence and quiet intros', () => {
+    const loudness = windowLoudness(track([[5, 0], [10, 0.01], [20, 0.5], [5, 0]]), 100, 1);
+    expect(findEnergeticRegions(loudness, 1)).toEqual([{ start: 15, end: 35 }]);
+  });
+
+  test('should keep a short dip inside one region', () => {
+    const loudness = windowLoudness(track([[10, 0.5], [1, 0], [10, 0.5]]), 100, 1);
+    expect(findEnergeticRegions(loudness, 1)).toEqual([{ start: 0, end: 21 }]);
+  });
+
+  test('should drop regions too short to clip and all silent tracks', () => {
+    const loudness = windowLoudness(track([[10, 0], [2, 0.5], [10, 0], [8, 0.5]]), 100, 1);
+    expect(findEnergeticRegions(loudness, 1)).toEqual([{ start: 22, end: 30 }]);
+    expect(findEnergeticRegions(windowLoudness(track([[10, 0]]), 100, 1), 1)).toEqual([]);
+  });
+});
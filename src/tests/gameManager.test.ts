@@ -12,8 +12,29 @@ jest.mock('../database/databaseManager', () => {
           { id: 2, title: 'test song 2', file_path: '/path/to/song2.mp3' },
         ]),
         createGameSession: jest.fn().mockResolvedValue(123),
+        getRecentlyPlayedMedia: jest.fn().mockResolvedValue([]),
+        getPackMedia: jest.fn().mockResolvedValue([]),
         updateGameSession: jest.fn().mockResolvedValue(undefined),
         updateUser: jest.fn().mockResolvedValue(undefined),
+        updateGuildStats: jest.fn().mockResolvedValue(undefined),
+        getCurrentSeason: jest.fn().mockResolvedValue(3),
+        saveRatingChanges: jest.fn().mockResolvedValue(undefined),
+        recordSessionRound: jest.fn().mockResolvedValue(undefined),
+        saveTeamResults: jest.fn().mockResolvedValue(undefined),
+        saveSessionCheckpoint: jest.fn().mockResolvedValue(undefined),
+        getUnfinishedSessions: jest.fn().mockResolvedValue([]),
+        getAnswerParts: jest.fn().mockResolvedValue([{ part: 'title', answer: 'test song' }]),
+        getDecoyMedia: jest.fn().mockResolvedValue([
+          { id: 7, title: 'decoy 1', file_path: '/path/to/decoy1.mp3' },
+          { id: 8, title: 'decoy 2', file_path: '/path/to/decoy2.mp3' },
+          { id: 9, title: 'decoy 3', file_path: '/path/to/decoy3.mp3' },
+        ]),
+        getUsersByIds: jest.fn().mockResolvedValue([
+          { id: 'user1', correct_answers: 5, rating: 1200 },
+          { id: 'user2', correct_answers: 40, rating: 1100 },
+          { id: 'user3', correct_answers: 30, rating: 1000 },
+          { id: 'user4', correct_answers: 20, rating: 900 },
+        ]),
         checkAnswer: jest.fn().mockImplementation((mediaId, answer) => {
           console.log(`checkAnswer called with mediaId=${mediaId}, answer=${answer}`);
           // match exactly the normalized answers
@@ -287,4 +308,362 @@ describe('GameManager', () => {
     // verify default clipMode is false
     expect(withoutClipMode?.isClipMode()).toBe(false);
   });
-});
\ No newline at end of file
+
+  test('should prefer media that was not played recently', async () => {
+    const db = (gameManager as any).db;
+    db.getRecentlyPlayedMedia.mockResolvedValueOnce([1]);
+    db.getRandomMedia.mockResolvedValueOnce([{ id: 2, title: 'test song 2', file_path: '/path/to/song2.mp3' }]);
+    
+    const session = await gameManager.createSession('guild1', 'channel1', 1);
+    
+    expect(db.getRandomMedia).toHaveBeenCalledWith(undefined, undefined, undefined, expect.objectContaining({ excludeIds: [1] }));
+    expect(session?.nextRound()?.id).toBe(2);
+  });
+  
+  test('should fall back to recently played media when there is not enough fresh media', async () => {
+    const db = (gameManager as any).db;
+    db.getRecentlyPlayedMedia.mockResolvedValueOnce([1]);
+    db.getRandomMedia
+      .mockResolvedValueOnce([{ id: 2, title: 'test song 2', file_path: '/path/to/song2.mp3' }])
+      .mockResolvedValueOnce([
+        { id: 1, title: 'test song 1', file_path: '/path/to/song1.mp3' },
+        { id: 2, title: 'test song 2', file_path: '/path/to/song2.mp3' },
+      ]);
+    
+    const session = await gameManager.createSession('guild1', 'channel1', 2);
+    
+    expect(session?.getTotalRounds()).toBe(2);
+    expect(db.getRandomMedia).toHaveBeenCalledTimes(2);
+  });
+  
+  test('should play a pack in its saved order instead of random media', async () => {
+    const db = (gameManager as any).db;
+    db.getPackMedia.mockResolvedValueOnce([
+      { id: 9, title: 'third', file_path: '/path/to/9.mp3' },
+      { id: 4, title: 'first', file_path: '/path/to/4.mp3' },
+      { id: 6, title: 'second', file_path: '/path/to/6.mp3' },
+    ]);
+    
+    // packs smaller than the usual minimum still play
+    const session = await gameManager.createSession('guild1', 'channel1', 20, undefined, undefined, undefined, undefined, false, { packId: 3, ordered: true });
+    
+    expect(db.getPackMedia).toHaveBeenCalledWith(3);
+    expect(db.getRandomMedia).not.toHaveBeenCalled();
+    expect(session?.getTotalRounds()).toBe(3);
+    expect([session?.nextRound()?.id, session?.nextRound()?.id, session?.nextRound()?.id]).toEqual([9, 4, 6]);
+  });
+  
+  test('should leave pack media without a year out of year mode', async () => {
+    const db = (gameManager as any).db;
+    db.getPackMedia.mockResolvedValueOnce([
+      { id: 9, title: 'no year', file_path: '/path/to/9.mp3' },
+      { id: 4, title: 'dated', file_path: '/path/to/4.mp3', year: 1998 },
+    ]);
+    
+    const session = await gameManager.createSession('guild1', 'channel1', 2, undefined, undefined, undefined, undefined, false, { packId: 3, ordered: true, mode: 'year' });
+    expect(session?.getTotalRounds()).toBe(1);
+    expect(session?.nextRound()?.id).toBe(4);
+    
+    // nothing left to score means no game
+    db.getPackMedia.mockResolvedValueOnce([{ id: 9, title: 'no year', file_path: '/path/to/9.mp3' }]);
+    expect(await gameManager.createSession('guild1', 'channel2', 2, undefined, undefined, undefined, undefined, false, { packId: 3, mode: 'year' })).toBeNull();
+  });
+  
+  test('should record round history when a round is skipped', async () => {
+    const session = await gameManager.createSession('guild1', 'channel1', 2);
+    session?.nextRound();
+    session?.addPlayer('user1', 'Player 1');
+    session?.addPlayer('user2', 'Player 2');
+    
+    await gameManager.processGuess('guild1', 'channel1', 'user1', 'Player 1', 'wrong answer');
+    await gameManager.processSkip('guild1', 'channel1', 'user1');
+    await gameManager.processSkip('guild1', 'channel1', 'user2');
+    
+    const db = (gameManager as any).db;
+    expect(db.recordSessionRound).toHaveBeenCalledTimes(1);
+    expect(db.recordSessionRound).toHaveBeenCalledWith(123, 1, 1, expect.any(Number), {
+      skipped: true,
+      guessCount: 1
+    });
+    
+    // ending the game must not record the same round twice
+    await gameManager.endSession('guild1', 'channel1');
+    expect(db.recordSessionRound).toHaveBeenCalledTimes(1);
+  });
+
+  test('should balance teams by skill rating', async () => {
+    const session = await gameManager.createSession('guild1', 'channel1', 2, undefined, undefined, undefined, undefined, false, { teams: true });
+    
+    await gameManager.balanceTeams(session!, [
+      { id: 'user4', username: 'Player 4' },
+      { id: 'user3', username: 'Player 3' },
+      { id: 'user2', username: 'Player 2' },
+      { id: 'user1', username: 'Player 1' },
+    ]);
+    
+    // snake draft keeps the two strongest players apart
+    expect(session?.getPlayerTeam('user1')).toBe('red');
+    expect(session?.getPlayerTeam('user2')).toBe('blue');
+    expect(session?.getPlayerTeam('user3')).toBe('blue');
+    expect(session?.getPlayerTeam('user4')).toBe('red');
+    
+    await gameManager.endSession('guild1', 'channel1');
+    expect((gameManager as any).db.saveTeamResults).toHaveBeenCalledWith(123, expect.any(Array));
+  });
+
+  test('should award speed points that decay with time and hints', () => {
+    expect(gameManager.calculateSpeedPoints(0, 0)).toBe(10);
+    expect(gameManager.calculateSpeedPoints(30000, 0)).toBe(5);
+    expect(gameManager.calculateSpeedPoints(30000, 2)).toBe(4);
+    
+    // never less than a single point for a correct answer
+    expect(gameManager.calculateSpeedPoints(120000, 5)).toBe(1);
+  });
+  
+  test('should return awarded points and answer time in speed mode', async () => {
+    const session = await gameManager.createSession('guild1', 'channel1', 2, undefined, undefined, undefined, undefined, false, { scoring: 'speed' });
+    session?.nextRound();
+    
+    const result = await gameManager.processGuess('guild1', 'channel1', 'user1', 'Player 1', 'test song 1');
+    
+    expect(result.correct).toBe(true);
+    expect(result.points).toBeGreaterThan(1);
+    expect(result.answerTimeMs).toBeGreaterThanOrEqual(0);
+    expect(session?.getPlayers()[0].score).toBe(result.points);
+    expect(session?.getRoundPoints()).toBe(result.points);
+  });
+
+  test('should lock in multiple choice picks and score them at the end of the round', async () => {
+    const session = await gameManager.createSession('guild1', 'channel1', 2, undefined, undefined, undefined, undefined, false, { mode: 'choice' });
+    session?.nextRound();
+    
+    const choices = await gameManager.prepareChoices(session!);
+    expect(choices.map(c => c.id).sort()).toEqual([1, 7, 8, 9]);
+    
+    // typed guesses dont count in choice mode
+    const typed = await gameManager.processGuess('guild1', 'channel1', 'user3', 'Player 3', 'test song 1');
+    expect(typed.correct).toBe(false);
+    
+    expect(gameManager.processChoice('guild1', 'channel1', 'user1', 'Player 1', 1, 1)).toBe('locked');
+    expect(gameManager.processChoice('guild1', 'channel1', 'user1', 'Player 1', 1, 7)).toBe('already-locked');
+    expect(gameManager.processChoice('guild1', 'channel1', 'user2', 'Player 2', 1, 7)).toBe('locked');
+    expect(gameManager.processChoice('guild1', 'channel1', 'user2', 'Player 2', 2, 7)).toBe('stale');
+    expect(gameManager.processChoice('guild1', 'channel1', 'user3', 'Player 3', 1, 42)).toBe('invalid');
+    
+    const tally = await gameManager.resolveChoices('guild1', 'channel1');
+    const correct = tally.find(t => t.correct);
+    expect(correct?.mediaId).toBe(1);
+    expect(correct?.voters.map(v => v.userId)).toEqual(['user1']);
+    expect(tally.find(t => t.mediaId === 7)?.voters.map(v => v.userId)).toEqual(['user2']);
+    
+    const players = session?.getPlayers() || [];
+    expect(players.find(p => p.id === 'user1')?.score).toBe(1);
+    expect(players.find(p => p.id === 'user2')?.score).toBe(0);
+    expect(session?.getRoundWinner()).toBe('user1');
+    
+    // clicks after the reveal are ignored
+    expect(gameManager.processChoice('guild1', 'channel1', 'user3', 'Player 3', 1, 1)).toBe('stale');
+  });
+
+  test('should close the choices when a choice round is skipped', async () => {
+    const session = await gameManager.createSession('guild1', 'channel1', 2, undefined, undefined, undefined, undefined, false, { mode: 'choice' });
+    session?.nextRound();
+    await gameManager.prepareChoices(session!);
+    
+    const onRoundSkipped = jest.fn().mockResolvedValue(undefined);
+    gameManager.setOnRoundSkipped('guild1', 'channel1', onRoundSkipped);
+    
+    expect(gameManager.processChoice('guild1', 'channel1', 'user1', 'Player 1', 1, 1)).toBe('locked');
+    await gameManager.processSkip('guild1', 'channel1', 'user1');
+    await gameManager.processSkip('guild1', 'channel1', 'user2');
+    
+    expect(onRoundSkipped).toHaveBeenCalledTimes(1);
+    expect(gameManager.processChoice('guild1', 'channel1', 'user2', 'Player 2', 1, 1)).toBe('stale');
+    expect(await gameManager.resolveChoices('guild1', 'channel1')).toEqual([]);
+    expect(session?.getPlayers().find(p => p.id === 'user1')?.score).toBe(0);
+  });
+
+  test('should keep multi-part rounds open until every part is guessed', async () => {
+    const session = await gameManager.createSession('guild1', 'channel1', 2);
+    session?.nextRound();
+    
+    const db = (gameManager as any).db;
+    db.getAnswerParts.mockResolvedValueOnce([
+      { part: 'title', answer: 'test song 1' },
+      { part: 'artist', answer: 'test artist' },
+    ]);
+    db.checkAnswer
+      .mockResolvedValueOnce({ correct: true, close: false, part: 'artist' })
+      .mockResolvedValueOnce({ correct: true, close: false, part: 'title' });
+    
+    const first = await gameManager.processGuess('guild1', 'channel1', 'user1', 'Player 1', 'test artist');
+    expect(first.roundComplete).toBe(false);
+    expect(first.remainingParts).toEqual(['title']);
+    expect(session?.isAnswerAlreadyGuessed(1)).toBe(false);
+    
+    // already guessed parts are excluded from the next check
+    const second = await gameManager.processGuess('guild1', 'channel1', 'user2', 'Player 2', 'test song 1');
+    expect(db.checkAnswer).toHaveBeenLastCalledWith(1, 'testsong1', ['artist']);
+    expect(second.roundComplete).toBe(true);
+    expect(session?.isAnswerAlreadyGuessed(1)).toBe(true);
+    expect(session?.getRoundWinner()).toBe('user1');
+    expect(session?.getGuessedParts().get('title')).toBe('user2');
+  });
+
+  test('should not record a partly guessed multi-part round as guessed', async () => {
+    const session = await gameManager.createSession('guild1', 'channel1', 2);
+    session?.nextRound();
+    
+    const db = (gameManager as any).db;
+    db.getAnswerParts.mockResolvedValueOnce([
+      { part: 'title', answer: 'test song 1' },
+      { part: 'artist', answer: 'test artist' },
+    ]);
+    db.checkAnswer.mockResolvedValueOnce({ correct: true, close: false, part: 'artist' });
+    
+    await gameManager.processGuess('guild1', 'channel1', 'user1', 'Player 1', 'test artist');
+    await gameManager.endSession('guild1', 'channel1');
+    expect(db.recordSessionRound).toHaveBeenCalledWith(123, 1, 1, expect.any(Number), { guessCount: 1 });
+  });
+
+  test('should score year guesses by distance at the end of the round', async () => {
+    const db = (gameManager as any).db;
+    db.getRandomMedia.mockResolvedValueOnce([
+      { id: 1, title: 'test song 1', file_path: '/path/to/song1.mp3', year: 2004 },
+      { id: 2, title: 'test song 2', file_path: '/path/to/song2.mp3', year: 1999 },
+    ]);
+    
+    const session = await gameManager.createSession('guild1', 'channel1', 2, undefined, undefined, undefined, undefined, false, { mode: 'year' });
+    expect(db.getRandomMedia).toHaveBeenCalledWith(undefined, undefined, undefined, expect.objectContaining({ requireYear: true }));
+    session?.nextRound();
+    
+    // anything that isnt a year is just chat
+    const chat = await gameManager.processGuess('guild1', 'channel1', 'user1', 'Player 1', 'no idea lol');
+    expect(chat.year).toBeUndefined();
+    
+    await gameManager.processGuess('guild1', 'channel1', 'user1', 'Player 1', '1990');
+    const changed = await gameManager.processGuess('guild1', 'channel1', 'user1', 'Player 1', '2002');
+    expect(changed.correct).toBe(false);
+    expect(changed.year).toBe(2002);
+    await gameManager.processGuess('guild1', 'channel1', 'user2', 'Player 2', '2004');
+    await gameManager.processGuess('guild1', 'channel1', 'user3', 'Player 3', '1980');
+    
+    const tally = await gameManager.resolveYearGuesses('guild1', 'channel1');
+    expect(tally.map(t => [t.userId, t.error, t.points])).toEqual([
+      ['user2', 0, 10],
+      ['user1', 2, 8],
+      ['user3', 24, 0],
+    ]);
+    
+    const players = session?.getPlayers() || [];
+    expect(players.find(p => p.id === 'user2')?.score).toBe(10);
+    expect(players.find(p => p.id === 'user1')?.score).toBe(8);
+    expect(session?.getRoundWinner()).toBe('user2');
+    
+    // resolving twice doesnt score twice
+    expect(await gameManager.resolveYearGuesses('guild1', 'channel1')).toEqual([]);
+  });
+
+  test('should restore recent sessions and end stale ones after a restart', async () => {
+    const db = (gameManager as any).db;
+    const checkpoint = {
+      voiceChannelId: 'voice1',
+      playlist: [
+        { id: 1, title: 'test song 1', file_path: '/path/to/song1.mp3' },
+        { id: 2, title: 'test song 2', file_path: '/path/to/song2.mp3' },
+      ],
+      currentRound: 1,
+      roundStartedAt: Date.now(),
+      totalRounds: 2,
+      clipMode: false,
+      options: {},
+      players: [{ id: 'user1', username: 'Player 1', score: 3 }]
+    };
+    db.getUnfinishedSessions.mockResolvedValueOnce([
+      { id: 5, guild_id: 'guild1', channel_id: 'channel1', current_round: 1, checkpoint, checkpoint_age: 30 },
+      { id: 6, guild_id: 'guild1', channel_id: 'channel2', current_round: 4, checkpoint, checkpoint_age: 60 * 60 },
+      { id: 7, guild_id: 'guild1', channel_id: 'channel3', current_round: 2, checkpoint: null, checkpoint_age: null },
+    ]);
+    
+    const textChannel = { id: 'channel1', isTextBased: () => true, isDMBased: () => false, isThread: () => false };
+    const voiceChannel = { id: 'voice1', isVoiceBased: () => true, members: [{ user: { bot: false } }] };
+    const client = {
+      channels: { fetch: jest.fn((id: string) => Promise.resolve(id === 'voice1' ? voiceChannel : textChannel)) }
+    };
+    
+    const restored = await gameManager.restoreSessions(client as any);
+    
+    expect(restored).toHaveLength(1);
+    expect(restored[0].voiceChannel).toBe(voiceChannel);
+    
+    const session = gameManager.getSession('guild1', 'channel1');
+    expect(session?.getId()).toBe(5);
+    expect(session?.getPlayers()[0].score).toBe(3);
+    expect(db.recordSessionRound).toHaveBeenCalledWith(5, 1, 1, expect.any(Number), expect.any(Object));
+    
+    expect(db.updateGameSession).toHaveBeenCalledWith(6, 4, true);
+    expect(db.updateGameSession).toHaveBeenCalledWith(7, 2, true);
+    expect(db.updateGameSession).not.toHaveBeenCalledWith(5, expect.anything(), true);
+  });
+
+  test('should save per-guild stats for every player when a game ends', async () => {
+    const session = await gameManager.createSession('guild1', 'channel1', 2);
+    session?.nextRound();
+    
+    await gameManager.processGuess('guild1', 'channel1', 'user1', 'Player 1', 'test song 1');
+    session?.addPlayer('user2', 'Player 2');
+    
+    await gameManager.endSession('guild1', 'channel1');
+    
+    const db = (gameManager as any).db;
+    expect(db.updateGuildStats).toHaveBeenCalledWith('guild1', 'user1', {
+      correct: 1,
+      answerTimeMs: expect.any(Number),
+      timedAnswers: 1,
+      won: true
+    }, 3);
+    expect(db.updateGuildStats).toHaveBeenCalledWith('guild1', 'user2', {
+      correct: 0,
+      answerTimeMs: 0,
+      timedAnswers: 0,
+      won: false
+    }, 3);
+  });
+
+  test('should rate players on who beat whom each round', () => {
+    const ratings = new Map([['user1', 1000], ['user2', 1000], ['user3', 1000]]);
+    const changes = gameManager.calculateRatingChanges(ratings, ['user1', 'user2', 'user3'], [
+      ['user1', 'user2'], // user1 faster than user2, both beat user3
+      ['user1'],
+      [] // nobody got it, no matchups
+    ]);
+    
+    expect(changes.get('user1')).toBeGreaterThan(0);
+    expect(changes.get('user3')).toBeLessThan(0);
+    expect(changes.get('user1')!).toBeGreaterThan(changes.get('user2')!);
+    
+    // beating a much stronger player is worth more than beating an equal
+    const upset = gameManager.calculateRatingChanges(new Map([['user1', 1000], ['user2', 1400]]), ['user1', 'user2'], [['user1']]);
+    const even = gameManager.calculateRatingChanges(new Map([['user1', 1000], ['user2', 1000]]), ['user1', 'user2'], [['user1']]);
+    expect(upset.get('user1')!).toBeGreaterThan(even.get('user1')!);
+    
+    // players who never faced anyone arent rated
+    expect(gameManager.calculateRatingChanges(ratings, ['user1', 'user2'], [[]]).size).toBe(0);
+  });
+  
+  test('should save rating changes when a game ends', async () => {
+    const session = await gameManager.createSession('guild1', 'channel1', 2);
+    session?.nextRound();
+    
+    await gameManager.processGuess('guild1', 'channel1', 'user1', 'Player 1', 'test song 1');
+    session?.addPlayer('user2', 'Player 2');
+    
+    await gameManager.endSession('guild1', 'channel1');
+    
+    const db = (gameManager as any).db;
+    const [sessionId, changes] = db.saveRatingChanges.mock.calls[0];
+    expect(sessionId).toBe(123);
+    expect(changes.find((c: any) => c.userId === 'user1').rating).toBeGreaterThan(1200);
+    expect(changes.find((c: any) => c.userId === 'user2').rating).toBeLessThan(1100);
+  });
+});
@@ -0,0 +1,126 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { execFileSync } from 'child_process';
+import { MediaArchive, parseManifest, ArchiveError, ARCHIVE_VERSION } from '../utils/mediaArchive';
+import { DatabaseManager } from '../database/databaseManager';
+
+jest.mock('../database/databaseManager', () => {
+  const mockDb = {
+    getFilteredMedia: jest.fn().mockResolvedValue([]),
+    getMediaWithTitle: jest.fn().mockResolvedValue([])
+  };
+  return { DatabaseManager: { getInstance: jest.fn(() => mockDb) } };
+});
+
+jest.mock('../utils/mediaProcessor', () => ({ MediaProcessor: { getInstance: jest.fn() } }));
+jest.mock('../utils/audioPlayerManager', () => ({ AudioPlayerManager: { getInstance: jest.fn() } }));
+
+function entry(title: string, file: string, content: string) {
+  return {
+    id: 1,
+    title,
+    year: 1998,
+    metadata: { source: 'Cowboy Bebop' },
+    tags: ['anime'],
+    answers: [{ answer: title.toLowerCase(), primary: true, part: null }],
+    file,
+    normalized: file.endsWith('.mp3'),
+    sha256: crypto.createHash('sha256').update(content).digest('hex')
+  };
+}
+
+describe('mediaArchive', () => {
+  test('should reject manifests it cant read and newer versions', () => {
+    expect(() => parseManifest({ media: [] })).toThrow('manifest has no version');
+    expect(() => parseManifest({ version: ARCHIVE_VERSION + 1, media: [] })).toThrow(ArchiveError);
+    expect(() => parseManifest({ version: ARCHIVE_VERSION })).toThrow('no media list');
+  });
+
+  test('should keep good entries and report broken ones', () => {
+    const { manifest, invalid } = parseManifest({
+      version: ARCHIVE_VERSION,
+      media: [
+        entry('Tank!', 'media/1.mp3', 'a'),
+        { ...entry('bad year', 'media/2.mp3', 'b'), year: 98 },
+        { ...entry('no hash', 'media/3.mp3', 'c'), sha256: 'nope' }
+      ]
+    });
+
+    expect(manifest.media.map(m => m.title)).toEqual(['Tank!']);
+    expect(manifest.media[0].metadata).toEqual({ source: 'Cowboy Bebop' });
+    expect(invalid).toEqual([
+      { index: 1, error: expect.stringContaining('4 digit year') },
+      { index: 2, error: 'media #3 has no sha256' }
+    ]);
+  });
+
+  test('should dry run an import and report duplicates without writing', async () => {
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'otoq-archive-'));
+    const archivePath = path.join(workDir, 'export.tar.gz');
+    const db = DatabaseManager.getInstance() as any;
+    db.getMediaWithTitle.mockImplementation(async (title: string) => title === 'Known Song' ? [{ id: 7 }] : []);
+
+    try {
+      fs.mkdirSync(path.join(workDir, 'media'));
+      fs.writeFileSync(path.join(workDir, 'media', '1.mp3'), 'tank');
+      fs.writeFileSync(path.join(workDir, 'media', '2.webm'), 'known');
+      fs.writeFileSync(path.join(workDir, 'manifest.json'), JSON.stringify({
+        version: ARCHIVE_VERSION,
+        media: [
+          entry('Tank!', 'media/1.mp3', 'tank'),
+          entry('Known Song', 'media/2.webm', 'known'),
+          entry('Tank! again', 'media/1.mp3', 'tank'),
+          entry('Escape', '../../etc/passwd', 'x'),
+          entry('Wrong Hash', 'media/2.webm', 'not known')
+        ]
+      }));
+      execFileSync('tar', ['-czf', archivePath, '-C', workDir, 'manifest.json', 'media']);
+
+      const report = await MediaArchive.getInstance().importArchive(archivePath, { dryRun: true });
+
+      expect(report.total).toBe(5);
+      expect(report.imported).toEqual([{ title: 'Tank!', normalize: false }]);
+      expect(report.duplicates).toEqual([
+        { title: 'Known Song', existingId: 7, reason: 'title already exists' },
+        { title: 'Tank! again', reason: 'already earlier in this archive' }
+      ]);
+      expect(report.failed.map(f => f.title)).toEqual(['Escape', 'Wrong Hash']);
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should refuse symlinks that point out of the archive', async () => {
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'otoq-archive-'));
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'otoq-outside-'));
+    const archivePath = path.join(workDir, 'export.tar.gz');
+
+    try {
+      fs.writeFileSync(path.join(outside, 'secret'), 'secret');
+      fs.mkdirSync(path.join(workDir, 'media'));
+      fs.symlinkSync(path.join(outside, 'secret'), path.join(workDir, 'media', '1.mp3'));
+      fs.symlinkSync(outside, path.join(workDir, 'linked'));
+      fs.writeFileSync(path.join(workDir, 'manifest.json'), JSON.stringify({
+        version: ARCHIVE_VERSION,
+        media: [
+          entry('Linked File', 'media/1.mp3', 'secret'),
+          entry('Linked Dir', 'linked/secret', 'secret')
+        ]
+      }));
+      execFileSync('tar', ['-czf', archivePath, '-C', workDir, 'manifest.json', 'media', 'linked']);
+
+      const report = await MediaArchive.getInstance().importArchive(archivePath, { dryRun: true });
+
+      expect(report.imported).toEqual([]);
+      expect(report.failed).toEqual([
+        { title: 'Linked File', error: 'file media/1.mp3 is missing from the archive or isnt a plain file' },
+        { title: 'Linked Dir', error: 'file linked/secret is missing from the archive or isnt a plain file' }
+      ]);
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,55 @@
+import { parseCsv, parseCsvSidecar, parseJsonSidecar, entryFromTags, isMediaFile } from '../utils/mediaImport';
+
+describe('mediaImport', () => {
+  test('should split csv with quoted commas, quotes and newlines', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n\n"multi\nline",x,\n')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['multi\nline', 'x', '']
+    ]);
+  });
+
+  test('should read a csv sidecar keyed by relative path', () => {
+    const entries = parseCsvSidecar(
+      'File,Answers,Tags,Year,Artist\n' +
+      'Anime/Tank.mp3,Tank!|cowboy bebop op,anime|OP,1998,The Seatbelts\n' +
+      'rain.flac,Rain,,,\n'
+    );
+
+    expect(entries.get('anime/tank.mp3')).toEqual({
+      answers: ['Tank!', 'cowboy bebop op'],
+      tags: ['anime', 'op'],
+      year: 1998,
+      metadata: { artist: 'The Seatbelts' }
+    });
+    expect(entries.get('rain.flac')).toEqual({ answers: ['Rain'], tags: [], year: null, metadata: {} });
+  });
+
+  test('should point at the bad row in a sidecar', () => {
+    expect(() => parseCsvSidecar('file,tags\na.mp3,x')).toThrow('at least file and answers columns');
+    expect(() => parseCsvSidecar('file,answers,year\na.mp3,A,1998\nb.mp3,,1998')).toThrow('csv row 3 (b.mp3): needs at least one answer');
+    expect(() => parseJsonSidecar('[{"file":"a.mp3","answers":["A"],"year":"98"}]')).toThrow('json entry 1 (a.mp3): year has to be');
+    expect(() => parseJsonSidecar('{nope')).toThrow('isnt valid json');
+  });
+
+  test('should read json sidecars as a list or keyed by file', () => {
+    const list = parseJsonSidecar('[{"file":"a.mp3","answers":["A","alt"],"tags":["x"],"metadata":{"source":"S"}}]');
+    const keyed = parseJsonSidecar('{"B.mp3":{"answers":"B, b side","year":2001}}');
+
+    expect(list.get('a.mp3')).toEqual({ answers: ['A', 'alt'], tags: ['x'], year: null, metadata: { source: 'S' } });
+    expect(keyed.get('b.mp3')?.answers).toEqual(['B', 'b side']);
+    expect(keyed.get('b.mp3')?.year).toBe(2001);
+  });
+
+  test('should fall back to embedded tags and need a title', () => {
+    expect(entryFromTags({ title: 'Tank!', date: '1998-04-03', genre: 'Anime; Jazz', album: 'Cowboy Bebop', artist: 'The Seatbelts' })).toEqual({
+      answers: ['Tank!'],
+      tags: ['anime', 'jazz'],
+      year: 1998,
+      metadata: { source: 'Cowboy Bebop', artist: 'The Seatbelts' }
+    });
+    expect(entryFromTags({ title: 'x', date: 'sometime' })?.year).toBeNull();
+    expect(entryFromTags({ artist: 'nobody' })).toBeNull();
+    expect(isMediaFile('song.FLAC')).toBe(true);
+    expect(isMediaFile('cover.jpg')).toBe(false);
+  });
+});
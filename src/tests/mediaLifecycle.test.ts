@@ -0,0 +1,90 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { purgeDeletedMedia, removeUnreferencedFiles, findOrphanedFiles, getRetentionDays, DEFAULT_RETENTION_DAYS } from '../utils/mediaLifecycle';
+import { DatabaseManager } from '../database/databaseManager';
+
+jest.mock('../database/databaseManager', () => {
+  const mockDb = {
+    getDeletedMedia: jest.fn(),
+    getMediaFiles: jest.fn(),
+    deleteMedia: jest.fn()
+  };
+  return { DatabaseManager: { getInstance: jest.fn(() => mockDb) } };
+});
+
+describe('mediaLifecycle', () => {
+  const db = DatabaseManager.getInstance() as any;
+  let mediaDir: string;
+  const file = (name: string) => path.join(mediaDir, name);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mediaDir = fs.mkdtempSync(path.join(os.tmpdir(), 'otoq-purge-'));
+    fs.mkdirSync(path.join(mediaDir, 'normalized'));
+    fs.mkdirSync(path.join(mediaDir, 'corrupt'));
+    for (const name of ['old.mp3', 'normalized/old.mp3', 'shared.mp3', 'kept.mp3', 'stray.mp3', 'corrupt/broken.mp3']) {
+      fs.writeFileSync(file(name), name);
+    }
+
+    // #1 expired, #2 expired but shares a file with #3
+    db.getDeletedMedia.mockResolvedValue([
+      { id: 1, title: 'Old', file_path: file('old.mp3'), normalized_path: file('normalized/old.mp3') },
+      { id: 2, title: 'Shared', file_path: file('shared.mp3'), normalized_path: null }
+    ]);
+    db.getMediaFiles.mockResolvedValue([
+      { id: 1, file_path: file('old.mp3'), normalized_path: file('normalized/old.mp3') },
+      { id: 2, file_path: file('shared.mp3'), normalized_path: null },
+      { id: 3, file_path: file('kept.mp3'), normalized_path: file('shared.mp3') }
+    ]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(mediaDir, { recursive: true, force: true });
+  });
+
+  test('should purge expired media and only files nobody else uses', async () => {
+    const report = await purgeDeletedMedia(mediaDir, { retentionDays: 7 });
+
+    expect(db.getDeletedMedia).toHaveBeenCalledWith(7);
+    expect(db.deleteMedia.mock.calls).toEqual([[1], [2]]);
+    expect(report.removedFiles).toEqual([path.resolve(file('old.mp3')), path.resolve(file('normalized/old.mp3'))]);
+    expect(fs.existsSync(file('old.mp3'))).toBe(false);
+    expect(fs.existsSync(file('shared.mp3'))).toBe(true);
+    expect(report.orphans).toEqual([path.resolve(file('stray.mp3'))]);
+  });
+
+  test('should leave everything in place on a dry run', async () => {
+    const report = await purgeDeletedMedia(mediaDir, { retentionDays: 7, dryRun: true });
+
+    expect(db.deleteMedia).not.toHaveBeenCalled();
+    expect(report.purged.map(m => m.id)).toEqual([1, 2]);
+    expect(report.removedFiles).toHaveLength(2);
+    expect(fs.existsSync(file('old.mp3'))).toBe(true);
+    expect(report.orphans).toEqual([path.resolve(file('stray.mp3'))]);
+  });
+
+  test('should only remove files no media points at anymore', async () => {
+    // #2 is gone, its file is still the normalized file of #3
+    db.getMediaFiles.mockResolvedValueOnce([{ id: 3, file_path: file('kept.mp3'), normalized_path: file('shared.mp3') }]);
+
+    expect(await removeUnreferencedFiles([file('shared.mp3'), file('stray.mp3'), null])).toEqual([path.resolve(file('stray.mp3'))]);
+    expect(fs.existsSync(file('shared.mp3'))).toBe(true);
+    expect(fs.existsSync(file('stray.mp3'))).toBe(false);
+  });
+
+  test('should skip folders and missing dirs when looking for orphans', () => {
+    expect(findOrphanedFiles([path.join(mediaDir, 'corrupt'), path.join(mediaDir, 'nope')], [])).toEqual([path.resolve(file('corrupt/broken.mp3'))]);
+    expect(findOrphanedFiles([mediaDir], ['old.mp3', 'shared.mp3', 'kept.mp3', 'stray.mp3'].map(file))).toEqual([]);
+  });
+
+  test('should read the retention period from the env', () => {
+    const original = process.env.MEDIA_RETENTION_DAYS;
+    process.env.MEDIA_RETENTION_DAYS = '3';
+    expect(getRetentionDays()).toBe(3);
+    process.env.MEDIA_RETENTION_DAYS = 'soon';
+    expect(getRetentionDays()).toBe(DEFAULT_RETENTION_DAYS);
+    if (original === undefined) delete process.env.MEDIA_RETENTION_DAYS;
+    else process.env.MEDIA_RETENTION_DAYS = original;
+  });
+});
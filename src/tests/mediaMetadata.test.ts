@@ -0,0 +1,33 @@
+import { validateMetadata, parseMetadataText, parseStoredMetadata, formatMetadata, parseYear, parseTagList } from '../utils/mediaMetadata';
+
+describe('mediaMetadata', () => {
+  test('should read metadata fields from modal lines', () => {
+    const metadata = parseMetadataText('Source: Cowboy Bebop\nartist: The Seatbelts\n\ncomposer:   Yoko Kanno ');
+    expect(metadata).toEqual({ source: 'Cowboy Bebop', artist: 'The Seatbelts', composer: 'Yoko Kanno' });
+    expect(parseMetadataText('')).toEqual({});
+  });
+
+  test('should reject unknown fields, non text values and broken json', () => {
+    expect(() => parseMetadataText('studio: sunrise')).toThrow('unknown metadata field "studio"');
+    expect(() => parseMetadataText('just some text')).toThrow('use "field: value"');
+    expect(() => validateMetadata({ artist: 42 })).toThrow('has to be text');
+    expect(() => validateMetadata('{nope')).toThrow('valid json');
+    expect(() => validateMetadata('["source"]')).toThrow('has to be an object');
+    expect(() => validateMetadata({ source: 'x'.repeat(201) })).toThrow('too long');
+  });
+
+  test('should drop empty fields and read stored json leniently', () => {
+    expect(validateMetadata('{"source":"Bebop","artist":"","composer":null}')).toEqual({ source: 'Bebop' });
+    expect(parseStoredMetadata('not json at all')).toEqual({});
+    expect(parseStoredMetadata(null)).toEqual({});
+    expect(formatMetadata({ composer: 'Yoko Kanno', source: 'Bebop' })).toBe('source: Bebop · composer: Yoko Kanno');
+  });
+
+  test('should parse years and tag lists', () => {
+    expect(parseYear('1998')).toBe(1998);
+    expect(parseYear(' ')).toBeNull();
+    expect(() => parseYear('98')).toThrow('4 digit year');
+    expect(() => parseYear(`${new Date().getFullYear() + 2}`)).toThrow('4 digit year');
+    expect(parseTagList('Anime, OP,, anime ')).toEqual(['anime', 'op']);
+  });
+});
@@ -0,0 +1,134 @@
+import { ModerationManager } from '../utils/moderationManager';
+import { DatabaseManager } from '../database/databaseManager';
+import { removeUnreferencedFiles } from '../utils/mediaLifecycle';
+
+const mockPost = jest.fn();
+
+jest.mock('discord.js', () => {
+  const actual = jest.requireActual('discord.js');
+  return {
+    ...actual,
+    REST: jest.fn(() => ({ setToken: jest.fn().mockReturnThis(), post: mockPost }))
+  };
+});
+
+jest.mock('../database/databaseManager', () => {
+  const mockDb = {
+    getModChannel: jest.fn(),
+    getMediaById: jest.fn(),
+    getMediaAnswers: jest.fn().mockResolvedValue([{ answer: 'tank!', is_primary: 1, answer_group: null }]),
+    getMediaTags: jest.fn().mockResolvedValue(['anime']),
+    setMediaStatus: jest.fn().mockResolvedValue(true),
+    deleteMedia: jest.fn().mockResolvedValue(undefined)
+  };
+  return { DatabaseManager: { getInstance: jest.fn(() => mockDb) } };
+});
+
+jest.mock('../utils/mediaLifecycle', () => ({ removeUnreferencedFiles: jest.fn().mockResolvedValue([]) }));
+
+function buttonInteraction(customId: string, isMod: boolean = true) {
+  return {
+    customId,
+    user: { username: 'mod' },
+    memberPermissions: { has: jest.fn(() => isMod) },
+    message: { embeds: [{ title: 'upload waiting for review' }] },
+    reply: jest.fn(),
+    update: jest.fn(),
+    followUp: jest.fn()
+  } as any;
+}
+
+describe('ModerationManager', () => {
+  const moderation = ModerationManager.getInstance();
+  const db = DatabaseManager.getInstance() as any;
+  const pending = { id: 5, title: 'Tank!', status: 'pending', uploaded_by: '123456789012345678', file_path: '/nope/a.mp3', normalized_path: null };
+
+  const originalEnv = { ...process.env };
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.DISCORD_TOKEN = 'token';
+    delete process.env.UPLOAD_MOD_CHANNEL_ID;
+    mockPost.mockResolvedValue({ id: 'dm-channel' });
+  });
+
+  test('should use the server mod channel, then the env channel, else no review', async () => {
+    db.getModChannel.mockResolvedValueOnce('server-mods').mockResolvedValueOnce(null);
+    expect(await moderation.getReviewChannel('guild1')).toBe('server-mods');
+    expect(await moderation.getReviewChannel('guild1')).toBeNull();
+
+    process.env.UPLOAD_MOD_CHANNEL_ID = 'global-mods';
+    expect(await moderation.getReviewChannel()).toBe('global-mods');
+  });
+
+  test('should post a review with approve, reject and edit buttons', async () => {
+    db.getMediaById.mockResolvedValueOnce([pending]);
+
+    await moderation.submitForReview(5, 'mods', 'sounds like #2 Tank (95%)');
+
+    const [route, { body, files }] = mockPost.mock.calls[0];
+    expect(route).toBe('/channels/mods/messages');
+    expect(body.components[0].components.map((c: any) => c.custom_id)).toEqual(['mod_approve_5', 'mod_reject_5', 'edit_answers_5']);
+    expect(body.embeds[0].fields.map((f: any) => f.name)).toContain('⚠️ heads up');
+    expect(files).toEqual([]);
+  });
+
+  test('should approve, update the post and dm the uploader', async () => {
+    db.getMediaById.mockResolvedValueOnce([pending]);
+    const interaction = buttonInteraction('mod_approve_5');
+
+    await moderation.handleButton(interaction);
+
+    expect(db.setMediaStatus).toHaveBeenCalledWith(5, 'approved', 'pending');
+    expect(interaction.update).toHaveBeenCalledWith(expect.objectContaining({ components: [] }));
+    expect(mockPost).toHaveBeenCalledWith('/users/@me/channels', { body: { recipient_id: '123456789012345678' } });
+    expect(mockPost.mock.calls[1][1].body.content).toContain('approved');
+  });
+
+  test('should reject by deleting the upload', async () => {
+    db.getMediaById.mockResolvedValueOnce([pending]);
+
+    await moderation.handleButton(buttonInteraction('mod_reject_5'));
+
+    expect(db.setMediaStatus).toHaveBeenCalledWith(5, 'disabled', 'pending');
+    expect(db.deleteMedia).toHaveBeenCalledWith(5);
+    expect(removeUnreferencedFiles).toHaveBeenCalledWith(['/nope/a.mp3', null]);
+    expect(mockPost.mock.calls[1][1].body.content).toContain('rejected');
+  });
+
+  test('should not delete an upload that got approved in the meantime', async () => {
+    db.getMediaById.mockResolvedValueOnce([pending]);
+    db.setMediaStatus.mockResolvedValueOnce(false);
+
+    await moderation.handleButton(buttonInteraction('mod_reject_5'));
+
+    expect(db.deleteMedia).not.toHaveBeenCalled();
+    expect(removeUnreferencedFiles).not.toHaveBeenCalled();
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+
+  test('should not try to dm web uploaders', async () => {
+    db.getMediaById.mockResolvedValueOnce([{ ...pending, uploaded_by: 'web:someone' }]);
+
+    await moderation.handleButton(buttonInteraction('mod_approve_5'));
+
+    expect(db.setMediaStatus).toHaveBeenCalled();
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+
+  test('should only let mods decide and not decide twice', async () => {
+    const notMod = buttonInteraction('mod_approve_5', false);
+    await moderation.handleButton(notMod);
+    expect(notMod.reply).toHaveBeenCalledWith(expect.objectContaining({ ephemeral: true }));
+
+    db.getMediaById.mockResolvedValueOnce([{ ...pending, status: 'approved' }]);
+    const late = buttonInteraction('mod_reject_5');
+    await moderation.handleButton(late);
+    expect(db.deleteMedia).not.toHaveBeenCalled();
+    expect(late.followUp).toHaveBeenCalledWith(expect.objectContaining({ content: expect.stringContaining('already handled') }));
+  });
+});
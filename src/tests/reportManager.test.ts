@@ -0,0 +1,110 @@
+import { ReportManager, formatReasons } from '../utils/reportManager';
+import { DatabaseManager } from '../database/databaseManager';
+
+jest.mock('../database/databaseManager', () => {
+  const mockDb = {
+    getMediaById: jest.fn().mockResolvedValue([{ id: 5, title: 'Tank!' }]),
+    getMediaAnswers: jest.fn().mockResolvedValue([{ id: 1, answer: 'tank!', is_primary: 1, answer_group: null }]),
+    addReport: jest.fn().mockResolvedValue(true),
+    getOpenReports: jest.fn().mockResolvedValue([]),
+    countOpenReports: jest.fn().mockResolvedValue(0),
+    hasOpenReports: jest.fn().mockResolvedValue(true),
+    resolveReports: jest.fn().mockResolvedValue(2),
+    setMediaStatus: jest.fn().mockResolvedValue(true),
+    addPrimaryAnswer: jest.fn(),
+    addAlternativeAnswer: jest.fn(),
+    deleteMediaAnswer: jest.fn()
+  };
+  return { DatabaseManager: { getInstance: jest.fn(() => mockDb) } };
+});
+
+function buttonInteraction(customId: string, isMod: boolean = true) {
+  return {
+    customId,
+    guildId: 'guild1',
+    user: { id: 'user1' },
+    memberPermissions: { has: jest.fn(() => isMod) },
+    reply: jest.fn(),
+    update: jest.fn(),
+    showModal: jest.fn()
+  } as any;
+}
+
+describe('ReportManager', () => {
+  const reports = ReportManager.getInstance();
+  const db = DatabaseManager.getInstance() as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should ask for a reason, then record the report', async () => {
+    const open = buttonInteraction('report_open_5');
+    await reports.handleButton(open);
+    const reasonIds = open.reply.mock.calls[0][0].components[0].components.map((b: any) => b.data.custom_id);
+    expect(reasonIds).toEqual(['report_reason_5_wrong-answer', 'report_reason_5_bad-audio', 'report_reason_5_offensive', 'report_reason_5_duplicate']);
+
+    const pick = buttonInteraction('report_reason_5_bad-audio', false);
+    await reports.handleButton(pick);
+    expect(db.addReport).toHaveBeenCalledWith(5, 'user1', 'guild1', 'bad-audio');
+    expect(pick.update).toHaveBeenCalledWith(expect.objectContaining({ content: expect.stringContaining('bad audio'), components: [] }));
+  });
+
+  test('should tell people they already reported it', async () => {
+    db.addReport.mockResolvedValueOnce(false);
+    const pick = buttonInteraction('report_reason_5_duplicate');
+    await reports.handleButton(pick);
+    expect(pick.update).toHaveBeenCalledWith(expect.objectContaining({ content: expect.stringContaining('already reported') }));
+  });
+
+  test('should only let admins disable or dismiss', async () => {
+    const notMod = buttonInteraction('report_disable_5', false);
+    await reports.handleButton(notMod);
+    expect(db.setMediaStatus).not.toHaveBeenCalled();
+    expect(notMod.reply).toHaveBeenCalledWith(expect.objectContaining({ ephemeral: true }));
+
+    const disable = buttonInteraction('report_disable_5');
+    await reports.handleButton(disable);
+    expect(db.setMediaStatus).toHaveBeenCalledWith(5, 'disabled');
+    expect(db.resolveReports).toHaveBeenCalledWith(5, 'guild1', 'disabled', 'user1');
+    expect(disable.update).toHaveBeenCalledWith(expect.objectContaining({ content: expect.stringContaining('no open reports') }));
+
+    await reports.handleButton(buttonInteraction('report_dismiss_5'));
+    expect(db.resolveReports).toHaveBeenLastCalledWith(5, 'guild1', 'dismissed', 'user1');
+  });
+
+  test('should only act on reports filed in the same server', async () => {
+    db.hasOpenReports.mockResolvedValueOnce(false);
+    const disable = buttonInteraction('report_disable_5');
+    await reports.handleButton(disable);
+    expect(db.hasOpenReports).toHaveBeenCalledWith(5, 'guild1');
+    expect(db.setMediaStatus).not.toHaveBeenCalled();
+    expect(db.resolveReports).not.toHaveBeenCalled();
+    expect(db.getOpenReports).toHaveBeenCalledWith('guild1', 5);
+    expect(disable.update).toHaveBeenCalledWith(expect.objectContaining({ content: expect.stringContaining('no open reports here') }));
+  });
+
+  test('should fix answers from the modal and close the reports', async () => {
+    await reports.handleButton(buttonInteraction('report_fix_5'));
+
+    const modal = {
+      customId: 'report_fixmodal_5',
+      guildId: 'guild1',
+      user: { id: 'user1' },
+      memberPermissions: { has: jest.fn(() => true) },
+      fields: { getTextInputValue: jest.fn(() => 'tank!\ntank') },
+      isFromMessage: () => true,
+      reply: jest.fn(),
+      update: jest.fn()
+    } as any;
+    await reports.handleModal(modal);
+
+    expect(db.addAlternativeAnswer).toHaveBeenCalledWith(5, 'tank');
+    expect(db.resolveReports).toHaveBeenCalledWith(5, 'guild1', 'fixed', 'user1');
+    expect(modal.update).toHaveBeenCalledWith(expect.objectContaining({ content: expect.stringContaining('closed 2 reports') }));
+  });
+
+  test('should list reasons most common first', () => {
+    expect(formatReasons({ 'bad-audio': 1, 'wrong-answer': 3 })).toBe('3× wrong answer, 1× bad audio');
+  });
+});
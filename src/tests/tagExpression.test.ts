@@ -0,0 +1,51 @@
+import { parseTagExpression, compileTagExpression, formatTagExpression, allTags, TagExpressionError } from '../utils/tagExpression';
+
+describe('tagExpression', () => {
+  test('should parse and, or, not and brackets with the usual precedence', () => {
+    expect(parseTagExpression('Anime & !op')).toEqual({
+      type: 'and',
+      left: { type: 'tag', name: 'anime' },
+      right: { type: 'not', expr: { type: 'tag', name: 'op' } }
+    });
+
+    expect(formatTagExpression(parseTagExpression('(ps1 | ps2) & rpg'))).toBe('(ps1 | ps2) & rpg');
+    expect(formatTagExpression(parseTagExpression('ps1 | ps2 & rpg'))).toBe('ps1 | ps2 & rpg');
+    expect(formatTagExpression(parseTagExpression('!(a | b)'))).toBe('!(a | b)');
+  });
+
+  test('should treat a leading dash as not and commas as and', () => {
+    expect(parseTagExpression('-christmas')).toEqual({ type: 'not', expr: { type: 'tag', name: 'christmas' } });
+    expect(formatTagExpression(parseTagExpression('anime, j-pop, -op'))).toBe('anime & j-pop & !op');
+    expect(formatTagExpression(parseTagExpression('video game & boss theme'))).toBe('video game & boss theme');
+  });
+
+  test('should explain what is wrong with a bad filter', () => {
+    expect(() => parseTagExpression('   ')).toThrow(TagExpressionError);
+    expect(() => parseTagExpression('anime &')).toThrow('expected a tag at the end');
+    expect(() => parseTagExpression('(ps1 | ps2 & rpg')).toThrow('missing ")" for the "(" at position 1');
+    expect(() => parseTagExpression('anime) & op')).toThrow('unexpected ")" at position 6');
+    expect(() => parseTagExpression('& op')).toThrow('expected a tag but found "&" at position 1');
+    expect(() => parseTagExpression(Array.from({ length: 21 }, (_, i) => `t${i}`).join('|'))).toThrow('at most 20 tags');
+  });
+
+  test('should refuse filters nested too deep or too long', () => {
+    expect(parseTagExpression('!!(anime)')).toEqual({ type: 'not', expr: { type: 'not', expr: { type: 'tag', name: 'anime' } } });
+    expect(() => parseTagExpression(`${'!'.repeat(11)}a`)).toThrow('at most 10 deep');
+    expect(() => parseTagExpression(`${'('.repeat(11)}a${')'.repeat(11)}`)).toThrow('at most 10 deep');
+    expect(() => parseTagExpression(`${'!'.repeat(5000)}a`)).toThrow(TagExpressionError);
+    expect(() => parseTagExpression('a'.repeat(501))).toThrow('at most 500 characters');
+  });
+
+  test('should compile to a where clause with tag names only as params', () => {
+    const { sql, params } = compileTagExpression(parseTagExpression("(ps1 | ps2) & !x'; DROP TABLE media;--"));
+
+    expect(params).toEqual(['ps1', 'ps2', "x'; drop table media;--"]);
+    expect(sql).not.toContain('DROP');
+    expect(sql.match(/\?/g)).toHaveLength(3);
+    expect(sql).toMatch(/^\(\(EXISTS .* OR EXISTS .*\) AND NOT EXISTS .*\)$/);
+  });
+
+  test('should combine plain tag lists into an and', () => {
+    expect(formatTagExpression(allTags(['Anime', 'op']))).toBe('anime & op');
+  });
+});
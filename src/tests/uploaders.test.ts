@@ -0,0 +1,31 @@
+import { isDiscordUploader, webUploader, formatUploader } from '../utils/uploaders';
+
+describe('uploaders', () => {
+  test('should tell discord ids from web uploaders', () => {
+    expect(isDiscordUploader('123456789012345678')).toBe(true);
+    expect(isDiscordUploader('web:123456789012345678')).toBe(false);
+    expect(isDiscordUploader(null)).toBe(false);
+  });
+
+  test('should use the form name for web uploads and never the ip', () => {
+    expect(webUploader('  Some   Body ', '::ffff:10.0.0.1')).toBe('web:some body');
+    expect(webUploader('', '::ffff:10.0.0.1', undefined)).toBe('web:anonymous');
+    expect(webUploader(undefined, null, 'salt')).toBe('web:anonymous');
+    expect(webUploader('123456789012345678')).toBe('web:123456789012345678');
+  });
+
+  test('should group nameless web uploads by a salted ip hash', () => {
+    const first = webUploader('', '::ffff:10.0.0.1', 'salt');
+    expect(first).toMatch(/^web:anonymous-[0-9a-f]{8}$/);
+    expect(first).not.toContain('10.0.0.1');
+    expect(webUploader('', '10.0.0.1', 'salt')).toBe(first);
+    expect(webUploader('', '10.0.0.2', 'salt')).not.toBe(first);
+    expect(webUploader('', '10.0.0.1', 'other salt')).not.toBe(first);
+  });
+
+  test('should mention discord uploaders and name web ones', () => {
+    expect(formatUploader('123456789012345678')).toBe('<@123456789012345678>');
+    expect(formatUploader('web:some body')).toBe('some body (web)');
+    expect(formatUploader(null)).toBe('unknown');
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+  ActionRowBuilder
+} from 'discord.js';
+import { DatabaseManager } from '../database/databaseManager';
+
+/**
+ * modal with the title answers in a textarea, one per line and primary first
+ * only the title part is edited here, other parts go through /otoqedit
+ * null when the media doesnt exist
+ */
+export async function buildAnswersModal(mediaId: number, customId: string): Promise<ModalBuilder | null> {
+  const db = DatabaseManager.getInstance();
+  const [media] = await db.getMediaById(mediaId);
+  if (!media) return null;
+
+  const answers = (await db.getMediaAnswers(mediaId)).filter(a => !a.answer_group);
+
+  // use title as primary if no primary answer exists
+  const primaryAnswer = answers.find(a => a.is_primary);
+  const lines = [primaryAnswer ? primaryAnswer.answer : media.title, ...answers.filter(a => !a.is_primary).map(a => a.answer)];
+
+  const answersInput = new TextInputBuilder()
+    .setCustomId('answers')
+    .setLabel('Answers (one per line, first line is primary)')
+    .setStyle(TextInputStyle.Paragraph)
+    .setValue(lines.join('\n'))
+    .setRequired(true);
+
+  return new ModalBuilder()
+    .setCustomId(customId)
+    .setTitle(`Edit Answers for ${media.title}`.slice(0, 45))
+    .addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(answersInput));
+}
+
+/**
+ * replace the title answers with the lines from the modal, false if there were none
+ */
+export async function saveAnswers(mediaId: number, answersText: string): Promise<boolean> {
+  const db = DatabaseManager.getInstance();
+  const currentAnswers = (await db.getMediaAnswers(mediaId)).filter(a => !a.answer_group);
+
+  const answers = answersText.split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+
+  if (answers.length === 0) return false;
+
+  // first line is primary, rest are alternatives
+  const [primaryAnswer, ...altAnswers] = answers;
+
+  const currentPrimary = currentAnswers.find(a => a.is_primary);
+  if (!currentPrimary) {
+    await db.addPrimaryAnswer(mediaId, primaryAnswer);
+  } else if (currentPrimary.answer.toLowerCase() !== primaryAnswer.toLowerCase()) {
+    // primary changed - delete old and add new
+    await db.deleteMediaAnswer(currentPrimary.id);
+    await db.addPrimaryAnswer(mediaId, primaryAnswer);
+  }
+
+  const currentAlts = currentAnswers.filter(a => !a.is_primary);
+
+  // delete answers that aren't in the new list
+  for (const currentAlt of currentAlts) {
+    if (!altAnswers.some(a => a.toLowerCase() === currentAlt.answer.toLowerCase())) {
+      await db.deleteMediaAnswer(currentAlt.id);
+    }
+  }
+
+  for (const altAnswer of altAnswers) {
+    if (!currentAlts.some(a => a.answer.toLowerCase() === altAnswer.toLowerCase())) {
+      await db.addAlternativeAnswer(mediaId, altAnswer);
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,325 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { DatabaseManager } from '../database/databaseManager';
+
+// mono 5512hz is plenty for telling songs apart and keeps decoding cheap
+const SAMPLE_RATE = 5512;
+const FRAME_SIZE = 2048; // ~0.37s
+const HOP_SIZE = 512; // ~0.09s
+const SMOOTHING = 4; // frames averaged together so a slightly different start still lines up
+const DIFF_SPAN = 4; // frames between the two sides of each bit
+const MAX_SECONDS = 90;
+const BAND_COUNT = 33; // 33 bands give 32 bits per frame
+const MIN_FREQ = 300;
+const MAX_FREQ = 2000;
+const SILENCE_ENERGY = 1e-6;
+const MAX_OFFSET = 50; // frames, ~4.6s of lead in either way
+const MIN_OVERLAP = 20;
+const DECODE_TIMEOUT_MS = 60000;
+const EXHAUSTIVE_LIMIT = 100;
+const MAX_BUCKET_SIZE = 200; // frame values this many media share tell us nothing
+const MIN_SHARED_FRAMES = 5;
+const MAX_TRACKED_PAIRS = 200000; // keeps the prefilter's memory flat on big libraries
+const MAX_CANDIDATE_PAIRS = 20000;
+const COMPARE_BATCH = 25; // comparisons between giving the event loop back to voice and interactions
+
+export const DUPLICATE_THRESHOLD = 0.8;
+
+export interface DuplicateMatch {
+  id: number;
+  title: string;
+  similarity: number;
+}
+
+export interface DuplicatePair {
+  a: { id: number, title: string };
+  b: { id: number, title: string };
+  similarity: number;
+}
+
+// in place radix-2 fft, length has to be a power of two
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+}
+
+function popcount(x: number): number {
+  x -= (x >>> 1) & 0x55555555;
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  return Math.imul((x + (x >>> 4)) & 0x0F0F0F0F, 0x01010101) >>> 24;
+}
+
+/**
+ * 32 bit sub-fingerprints from mono samples in -1..1 at 5512hz
+ * each bit is whether the energy difference between two neighbouring bands went up
+ * over the last few frames, which survives re-encoding, volume changes and small eq differences
+ */
+export function fingerprintSamples(samples: Float32Array): Uint32Array {
+  // log spaced band edges as fft bins
+  const edges = Array.from({ length: BAND_COUNT + 1 }, (_, i) =>
+    Math.round(MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, i / BAND_COUNT) * FRAME_SIZE / SAMPLE_RATE));
+  const window = Array.from({ length: FRAME_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (FRAME_SIZE - 1)));
+
+  const energies: Float64Array[] = [];
+  for (let start = 0; start + FRAME_SIZE <= samples.length; start += HOP_SIZE) {
+    const re = new Float64Array(FRAME_SIZE);
+    const im = new Float64Array(FRAME_SIZE);
+    for (let i = 0; i < FRAME_SIZE; i++) re[i] = samples[start + i] * window[i];
+    fft(re, im);
+
+    const bands = new Float64Array(BAND_COUNT);
+    let total = 0;
+    for (let band = 0; band < BAND_COUNT; band++) {
+      for (let bin = edges[band]; bin < Math.max(edges[band + 1], edges[band] + 1); bin++) {
+        bands[band] += re[bin] * re[bin] + im[bin] * im[bin];
+      }
+      total += bands[band];
+    }
+
+    // silence says nothing about the song and would make quiet intros match each other
+    if (total / FRAME_SIZE >= SILENCE_ENERGY) energies.push(bands);
+  }
+
+  const smoothed: Float64Array[] = [];
+  for (let n = 0; n + SMOOTHING <= energies.length; n++) {
+    const bands = new Float64Array(BAND_COUNT);
+    for (let k = 0; k < SMOOTHING; k++) {
+      for (let band = 0; band < BAND_COUNT; band++) bands[band] += energies[n + k][band];
+    }
+    smoothed.push(bands);
+  }
+
+  const frames = new Uint32Array(Math.max(0, smoothed.length - DIFF_SPAN));
+  for (let n = DIFF_SPAN; n < smoothed.length; n++) {
+    const current = smoothed[n];
+    const previous = smoothed[n - DIFF_SPAN];
+    let bits = 0;
+    for (let band = 0; band < BAND_COUNT - 1; band++) {
+      const diff = (current[band] - current[band + 1]) - (previous[band] - previous[band + 1]);
+      if (diff > 0) bits |= 1 << band;
+    }
+    frames[n - DIFF_SPAN] = bits >>> 0;
+  }
+
+  return frames;
+}
+
+/**
+ * share of matching bits at the best alignment, ~0.5 for unrelated audio and 1 for the same file
+ */
+export function fingerprintSimilarity(a: Uint32Array, b: Uint32Array): number {
+  const minOverlap = Math.min(MIN_OVERLAP, a.length, b.length);
+  if (minOverlap === 0) return 0;
+
+  let best = 0;
+  for (let offset = -MAX_OFFSET; offset <= MAX_OFFSET; offset++) {
+    const startA = Math.max(0, offset);
+    const startB = Math.max(0, -offset);
+    const overlap = Math.min(a.length - startA, b.length - startB);
+    if (overlap < minOverlap) continue;
+
+    let differing = 0;
+    for (let i = 0; i < overlap; i++) {
+      differing += popcount(a[startA + i] ^ b[startB + i]);
+    }
+    best = Math.max(best, 1 - differing / (overlap * 32));
+  }
+
+  return best;
+}
+
+export function formatSimilarity(similarity: number): string {
+  return `${Math.floor(similarity * 100)}%`;
+}
+
+// lets playback and interactions run between batches of comparisons
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+// short warning for upload replies, null if nothing matched
+export function describeDuplicates(matches: DuplicateMatch[]): string | null {
+  if (matches.length === 0) return null;
+  const listed = matches.slice(0, 3).map(m => `#${m.id} ${m.title} (${formatSimilarity(m.similarity)})`);
+  return `sounds like ${listed.join(', ')}${matches.length > 3 ? ` and ${matches.length - 3} more` : ''}`;
+}
+
+export function encodeFingerprint(fingerprint: Uint32Array): string {
+  const buffer = Buffer.alloc(fingerprint.length * 4);
+  fingerprint.forEach((value, i) => buffer.writeUInt32LE(value, i * 4));
+  return buffer.toString('base64');
+}
+
+export function decodeFingerprint(encoded: string): Uint32Array {
+  const buffer = Buffer.from(encoded, 'base64');
+  const fingerprint = new Uint32Array(Math.floor(buffer.length / 4));
+  for (let i = 0; i < fingerprint.length; i++) fingerprint[i] = buffer.readUInt32LE(i * 4);
+  return fingerprint;
+}
+
+export class FingerprintManager {
+  private static instance: FingerprintManager;
+
+  private constructor() {}
+
+  public static getInstance(): FingerprintManager {
+    if (!FingerprintManager.instance) {
+      FingerprintManager.instance = new FingerprintManager();
+    }
+    return FingerprintManager.instance;
+  }
+
+  /**
+   * decode the start of a file to raw pcm with ffmpeg and fingerprint it
+   */
+  public async computeFingerprint(filePath: string): Promise<Uint32Array> {
+    const pcm = await new Promise<Buffer>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      const command = ffmpeg(filePath)
+        .noVideo()
+        .audioChannels(1)
+        .audioFrequency(SAMPLE_RATE)
+        .duration(MAX_SECONDS)
+        .format('s16le')
+        .on('error', (err: Error) => {
+          clearTimeout(timeout);
+          reject(new Error(`failed to decode audio: ${err.message}`));
+        });
+
+      const timeout = setTimeout(() => {
+        command.kill('SIGKILL');
+        reject(new Error(`decoding timed out for: ${filePath}`));
+      }, DECODE_TIMEOUT_MS);
+
+      const stream = command.pipe();
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('end', () => {
+        clearTimeout(timeout);
+        resolve(Buffer.concat(chunks));
+      });
+    });
+
+    const samples = new Float32Array(Math.floor(pcm.length / 2));
+    for (let i = 0; i < samples.length; i++) samples[i] = pcm.readInt16LE(i * 2) / 32768;
+
+    return fingerprintSamples(samples);
+  }
+
+  /**
+   * media that sound like this fingerprint, best match first
+   */
+  public async findDuplicates(fingerprint: Uint32Array, excludeId?: number, threshold: number = DUPLICATE_THRESHOLD): Promise<DuplicateMatch[]> {
+    const stored = (await DatabaseManager.getInstance().getFingerprints()).filter(row => row.id !== excludeId);
+
+    const matches: DuplicateMatch[] = [];
+    for (let i = 0; i < stored.length; i++) {
+      if (i > 0 && i % COMPARE_BATCH === 0) await yieldToEventLoop();
+      const similarity = fingerprintSimilarity(fingerprint, decodeFingerprint(stored[i].fingerprint));
+      if (similarity >= threshold) matches.push({ id: stored[i].id, title: stored[i].title, similarity });
+    }
+
+    return matches.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * fingerprint a media, store it and return anything already in the library that sounds the same
+   */
+  public async fingerprintMedia(mediaId: number, filePath: string): Promise<DuplicateMatch[]> {
+    const fingerprint = await this.computeFingerprint(filePath);
+    await DatabaseManager.getInstance().setFingerprint(mediaId, encodeFingerprint(fingerprint));
+    return this.findDuplicates(fingerprint, mediaId);
+  }
+
+  /**
+   * every pair of near duplicates in the library, most similar first
+   * small libraries compare every pair, bigger ones only the pairs that share the most frame values
+   */
+  public async findDuplicatePairs(threshold: number = DUPLICATE_THRESHOLD): Promise<DuplicatePair[]> {
+    const stored = (await DatabaseManager.getInstance().getFingerprints())
+      .map(row => ({ id: row.id, title: row.title, fingerprint: decodeFingerprint(row.fingerprint) }));
+
+    const candidates = stored.length <= EXHAUSTIVE_LIMIT
+      ? stored.flatMap((a, i) => stored.slice(i + 1).map((_, j) => [i, i + 1 + j] as [number, number]))
+      : await this.sharedFrameCandidates(stored.map(row => row.fingerprint));
+
+    const pairs: DuplicatePair[] = [];
+    for (let k = 0; k < candidates.length; k++) {
+      if (k > 0 && k % COMPARE_BATCH === 0) await yieldToEventLoop();
+      const [i, j] = candidates[k];
+      const similarity = fingerprintSimilarity(stored[i].fingerprint, stored[j].fingerprint);
+      if (similarity >= threshold) {
+        pairs.push({
+          a: { id: stored[i].id, title: stored[i].title },
+          b: { id: stored[j].id, title: stored[j].title },
+          similarity
+        });
+      }
+    }
+
+    return pairs.sort((x, y) => y.similarity - x.similarity);
+  }
+
+  // pairs that share at least a few exact top-16-bit frame values, a cheap prefilter for big libraries
+  // crowded buckets are skipped and the pair counts are capped so memory stays flat however big the library gets
+  private async sharedFrameCandidates(fingerprints: Uint32Array[]): Promise<[number, number][]> {
+    const buckets = new Map<number, Set<number>>();
+    for (let index = 0; index < fingerprints.length; index++) {
+      if (index > 0 && index % COMPARE_BATCH === 0) await yieldToEventLoop();
+      for (const value of fingerprints[index]) {
+        const key = value >>> 16;
+        if (!buckets.has(key)) buckets.set(key, new Set());
+        buckets.get(key)!.add(index);
+      }
+    }
+
+    // pair x < y keyed as x * count + y
+    const count = fingerprints.length;
+    const shared = new Map<number, number>();
+    let visited = 0;
+    for (const bucket of buckets.values()) {
+      if (bucket.size > MAX_BUCKET_SIZE) continue;
+      if (++visited % COMPARE_BATCH === 0) await yieldToEventLoop();
+
+      const members = [...bucket].sort((a, b) => a - b);
+      for (let x = 0; x < members.length; x++) {
+        for (let y = x + 1; y < members.length; y++) {
+          const key = members[x] * count + members[y];
+          const seen = shared.get(key);
+          if (seen !== undefined) shared.set(key, seen + 1);
+          else if (shared.size < MAX_TRACKED_PAIRS) shared.set(key, 1);
+        }
+      }
+    }
+
+    return [...shared.entries()]
+      .filter(([, frames]) => frames >= MIN_SHARED_FRAMES)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_CANDIDATE_PAIRS)
+      .map(([key]) => [Math.floor(key / count), key % count] as [number, number]);
+  }
+}
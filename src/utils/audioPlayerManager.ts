@@ -3,6 +3,8 @@ import {
   AudioPlayerStatus,
   createAudioPlayer,
   createAudioResource,
+  AudioResource,
+  StreamType,
   joinVoiceChannel,
   VoiceConnection,
   VoiceConnectionStatus,
@@ -12,11 +14,14 @@ import { VoiceChannel, User, DMChannel } from 'discord.js';
 import { MediaItem } from './gameSession';
 import { MediaProcessor } from './mediaProcessor';
 import { EffectsManager } from './effectsManager';
+import { ClipRegion } from './types';
+import { parseStoredRegions, playableRegions, getStartOffset, pickClipStart } from './clipRegions';
 import path from 'path';
 import fs from 'fs';
 import ffmpeg from 'fluent-ffmpeg';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { PassThrough } from 'stream';
 
 const execPromise = promisify(exec);
 
@@ -208,30 +213,45 @@ export class AudioPlayerManager {
       // reset debounce protection
       this.endCallbackDebounce.set(guildId, false);
       
-      // track playback start time
+      // track playback start time, this early it keeps the previous track's idle event from ending this one
+      // and it gets reset once the audio actually starts
       this.playbackStartTime.set(guildId, Date.now());
       
       // get normalized file path - prefer pre-normalized if available
       const filePath = await this.getNormalizedPath(media);
       this.trackTempFile(guildId, filePath);
       
-      // create clip if clipMode is true
+      // get duration for hint system - for full file, not clip
+      const fullDuration = await this.getMediaDuration(media.id, media.file_path);
+      const regions = parseStoredRegions(media.clip_regions);
+      
+      // full playback skips the intro up to the first good region
+      const startOffset = clipMode ? 0 : Math.min(getStartOffset(regions), Math.max(0, fullDuration / 1000 - 1));
+      const duration = fullDuration - startOffset * 1000;
+      
+      // create clip if clipMode is true, picked from the good or at least loud regions when there are any
       let finalPath = filePath;
       if (clipMode) {
         try {
-          console.log(`creating random 10-sec clip for media #${media.id}`);
-          finalPath = await this.createRandomClip(filePath);
+          const clipRegions = playableRegions(media);
+          console.log(`creating 10-sec clip for media #${media.id}${clipRegions.length > 0 ? ` from ${clipRegions.length} regions` : ''}`);
+          finalPath = await this.createRandomClip(filePath, { regions: clipRegions });
           this.trackTempFile(guildId, finalPath);
         } catch (err) {
           console.error(`failed to create clip: ${err}, using full file`);
         }
       }
       
-      const resource = createAudioResource(finalPath);
+      if (startOffset > 0) {
+        console.log(`starting media #${media.id} at ${startOffset}s`);
+      }
+      const resource = startOffset > 0
+        ? this.createSeekedResource(filePath, startOffset)
+        : createAudioResource(finalPath);
       player.play(resource);
       
-      // get duration for hint system - for full file, not clip
-      const duration = await this.getMediaDuration(media.id, media.file_path);
+      // answer times for speed scoring count from here
+      this.playbackStartTime.set(guildId, Date.now());
       
       // set up hint timers
       this.setupHintTimers(guildId, media, duration);
@@ -258,6 +278,31 @@ export class AudioPlayerManager {
     }
   }
   
+  /**
+   * stream a file from part way in, ffmpeg seeks the input so nothing has to be cut before playback starts
+   */
+  private createSeekedResource(filePath: string, startSeconds: number): AudioResource {
+    const stream = new PassThrough();
+    const command = ffmpeg(filePath)
+      .seekInput(startSeconds)
+      .noVideo()
+      .audioChannels(2)
+      .audioFrequency(48000)
+      .format('s16le')
+      .on('error', (err: Error) => {
+        // stopping playback kills ffmpeg mid-stream, thats not worth a log line
+        if (!stream.destroyed) {
+          console.error(`seeked playback failed for ${filePath}: ${err.message}`);
+        }
+      });
+    
+    // the player drops the stream when playback stops or gets skipped, dont leave ffmpeg waiting on it
+    stream.on('close', () => command.kill('SIGKILL'));
+    command.pipe(stream, { end: true });
+    
+    return createAudioResource(stream, { inputType: StreamType.Raw });
+  }
+  
   private async getNormalizedPath(media: MediaItem): Promise<string> {
     if (media.normalized_path && fs.existsSync(media.normalized_path)) {
       // use pre-normalized file
@@ -284,7 +329,7 @@ export class AudioPlayerManager {
     }
   }
   
-  public async createRandomClip(filePath: string, options?: { clipLength?: number; startTime?: number }): Promise<string> {
+  public async createRandomClip(filePath: string, options?: { clipLength?: number; startTime?: number; regions?: ClipRegion[] }): Promise<string> {
     try {
       // use provided values or defaults
       const clipLength = options?.clipLength || 10
@@ -297,9 +342,12 @@ export class AudioPlayerManager {
           throw new Error('failed to get media duration')
         }
         
+        // stay inside the saved or loud regions, random anywhere when there are none
+        const regionStart = pickClipStart(options?.regions || [], clipLength, duration / 1000)
+        
         // generate random start time, leaving room for clip
         const maxStart = Math.max(0, duration / 1000 - clipLength)
-        startTime = maxStart > 0 ? Math.random() * maxStart : 0
+        startTime = regionStart ?? (maxStart > 0 ? Math.random() * maxStart : 0)
       }
       
       // make sure temp dir exists
@@ -463,6 +511,11 @@ export class AudioPlayerManager {
     }, this.DEBOUNCE_TIME);
   }
   
+  public getPlaybackElapsed(guildId: string): number | null {
+    const startTime = this.playbackStartTime.get(guildId);
+    return startTime ? Date.now() - startTime : null;
+  }
+  
   public hasConnection(guildId: string): boolean {
     const connection = this.connections.get(guildId);
     return !!connection;
@@ -10,6 +10,8 @@ import { AudioPlayerManager } from './audioPlayerManager'
 import path from 'path'
 import fs from 'fs'
 import { EffectsManager, CommandParams } from './effectsManager'
+import { parseTagExpression, TagExpressionError } from './tagExpression'
+import { playableRegions, pickClipStart } from './clipRegions'
 import { exec } from 'child_process'
 import { promisify } from 'util'
 
@@ -113,29 +115,24 @@ export class ChatCommandHandler {
       
       const gameManager = GameManager.getInstance()
       const session = gameManager.getSession(message.guildId, message.channelId)
+      const db = DatabaseManager.getInstance()
       
-      if (!session) {
-        await message.reply('no active game session found (￣ヘ￣)')
-        return
+      // use the live session if there is one, otherwise the last recorded round in this channel
+      let media: any = null
+      if (session) {
+        media = session.getCurrentRound() > 1
+          ? await db.getPreviousRoundMedia(session.getId(), session.getCurrentRound() - 1)
+          : null
+      } else {
+        const [lastRound] = await db.getRecentRounds(message.guildId, message.channelId, 1)
+        media = lastRound ? { ...lastRound, id: lastRound.media_id } : null
       }
       
-      const previousMediaId = session.getCurrentRound() > 1 ? session.getPreviousMediaId() : null
-      
-      if (!previousMediaId) {
+      if (!media) {
         await message.reply('no previous media to post yet (￣ー￣;)')
         return
       }
       
-      const db = DatabaseManager.getInstance()
-      const mediaItems = await db.getMediaById(previousMediaId)
-      
-      if (!mediaItems?.length) {
-        await message.reply('couldnt find that media (╯°□°）╯︵ ┻━┻')
-        return
-      }
-      
-      const media = mediaItems[0]
-      
       // parse params but reject if effects are specified
       const effectsManager = EffectsManager.getInstance()
       const params = effectsManager.parseCommandString(message.content)
@@ -182,7 +179,7 @@ export class ChatCommandHandler {
       params.userId = message.author.id
             
       // search DB for media
-      const mediaItems = await this.searchMedia(params.searchTerm)
+      const mediaItems = await this.searchMedia(params.searchTerm, params.tagFilter)
       
       if (!mediaItems?.length) {
         await message.reply(`no matching media found for "${params.searchTerm || 'random'}" (￣ヘ￣)`)
@@ -271,6 +268,10 @@ export class ChatCommandHandler {
       }
       
     } catch (err) {
+      if (err instanceof TagExpressionError) {
+        await message.reply(`cant read that tag filter: ${err.message} (￣ヘ￣)`)
+        return
+      }
       console.error('error handling random frame command:', err)
       await message.reply('error processing command (╯°□°）╯︵ ┻━┻')
     }
@@ -292,7 +293,7 @@ export class ChatCommandHandler {
       if (params.clipLength <= 0 || params.clipLength > 30) params.clipLength = 10
             
       // search DB for media
-      const mediaItems = await this.searchMedia(params.searchTerm)
+      const mediaItems = await this.searchMedia(params.searchTerm, params.tagFilter)
       
       if (!mediaItems?.length) {
         await message.reply(`no matching media found for "${params.searchTerm || 'random'}" (￣ヘ￣)`)
@@ -322,11 +323,13 @@ export class ChatCommandHandler {
       const audioPlayer = AudioPlayerManager.getInstance()
       const duration = audioPlayer.getStoredMediaDuration(media.id) / 1000
       
-      // use either provided start time or random position that leaves room for the clip
+      // use either provided start time or a random position that leaves room for the clip,
+      // inside the saved or loud regions when the media has any
       const maxStart = Math.max(0, (duration || 60) - params.clipLength)
+      const regionStart = pickClipStart(playableRegions(media), params.clipLength, duration || undefined)
       const startTime = params.startTime > 0 
         ? Math.min(params.startTime, maxStart) 
-        : Math.floor(Math.random() * (maxStart + 1))
+        : regionStart !== null ? Math.floor(regionStart) : Math.floor(Math.random() * (maxStart + 1))
       
       // create output path with appropriate extension
       const isVideo = this.isVideoFile(filePath)
@@ -441,6 +444,10 @@ export class ChatCommandHandler {
       }
       
     } catch (err) {
+      if (err instanceof TagExpressionError) {
+        await message.reply(`cant read that tag filter: ${err.message} (￣ヘ￣)`)
+        return
+      }
       console.error('error handling random clip command:', err)
       await message.reply('error processing command (╯°□°）╯︵ ┻━┻')
     }
@@ -459,7 +466,7 @@ export class ChatCommandHandler {
       params.userId = message.author.id
             
       // search DB for media
-      const mediaItems = await this.searchMedia(params.searchTerm)
+      const mediaItems = await this.searchMedia(params.searchTerm, params.tagFilter)
       
       if (!mediaItems?.length) {
         await message.reply(`no matching media found for "${params.searchTerm || 'random'}" (￣ヘ￣)`)
@@ -613,24 +620,29 @@ export class ChatCommandHandler {
       }
       
     } catch (err) {
+      if (err instanceof TagExpressionError) {
+        await message.reply(`cant read that tag filter: ${err.message} (￣ヘ￣)`)
+        return
+      }
       console.error('error handling search media command:', err)
       await message.reply('error processing command (╯°□°）╯︵ ┻━┻')
     }
   }
 
   /**
-   * search for media in the database
+   * search for media in the database, optionally only within a tag filter like anime&!op
    */
-  private async searchMedia(searchTerm: string): Promise<any[]> {
+  private async searchMedia(searchTerm: string, tagFilter?: string | null): Promise<any[]> {
     const db = DatabaseManager.getInstance()
+    const tags = tagFilter ? parseTagExpression(tagFilter) : undefined
     
     if (!searchTerm) {
       // get random media
-      return await db.getRandomMedia(1)
+      return await db.getRandomMedia(1, undefined, undefined, { tags })
     }
     
     // search by term
-    return await db.searchMedia(searchTerm)
+    return await db.searchMedia(searchTerm, tags)
   }
 
   /**
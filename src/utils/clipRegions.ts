@@ -0,0 +1,122 @@
+import { ClipRegion } from './types';
+
+const MAX_REGIONS = 10;
+const MIN_REGION_SECONDS = 1;
+
+/**
+ * "1:05" or "65.5" to seconds, null if it isnt a time
+ */
+export function parseTime(text: string): number | null {
+  const match = text.trim().match(/^(?:(\d+):)?(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const minutes = match[1] ? parseInt(match[1], 10) : 0;
+  const seconds = parseFloat(match[2]);
+  if (match[1] && seconds >= 60) return null;
+  return minutes * 60 + seconds;
+}
+
+export function formatTime(seconds: number): string {
+  const whole = Math.floor(seconds);
+  const fraction = Math.round((seconds - whole) * 10);
+  return `${Math.floor(whole / 60)}:${`${whole % 60}`.padStart(2, '0')}${fraction > 0 ? `.${fraction}` : ''}`;
+}
+
+export function formatRegion(region: ClipRegion): string {
+  return `${formatTime(region.start)}-${formatTime(region.end)}`;
+}
+
+/**
+ * "1:05-1:40" to a region, throws with a user facing message if it cant
+ */
+export function parseRegion(text: string): ClipRegion {
+  const [startText, endText, ...rest] = text.split('-');
+  const start = startText !== undefined ? parseTime(startText) : null;
+  const end = endText !== undefined ? parseTime(endText) : null;
+
+  if (start === null || end === null || rest.length > 0) {
+    throw new Error(`cant read region "${text.trim()}", use start-end like 1:05-1:40`);
+  }
+  if (end - start < MIN_REGION_SECONDS) {
+    throw new Error(`region "${text.trim()}" has to end at least ${MIN_REGION_SECONDS}s after it starts`);
+  }
+
+  return { start, end };
+}
+
+/**
+ * comma separated regions from the web uploader, empty text is no regions
+ */
+export function parseRegionList(text: unknown): ClipRegion[] {
+  if (typeof text !== 'string' || !text.trim()) return [];
+  return normalizeRegions(text.split(',').filter(r => r.trim()).map(parseRegion));
+}
+
+/**
+ * sort by start and merge overlapping regions, throws past the region limit
+ */
+export function normalizeRegions(regions: ClipRegion[]): ClipRegion[] {
+  const sorted = [...regions].sort((a, b) => a.start - b.start);
+  const merged: ClipRegion[] = [];
+
+  for (const region of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && region.start <= last.end) {
+      last.end = Math.max(last.end, region.end);
+    } else {
+      merged.push({ ...region });
+    }
+  }
+
+  if (merged.length > MAX_REGIONS) {
+    throw new Error(`a media can have at most ${MAX_REGIONS} regions`);
+  }
+  return merged;
+}
+
+/**
+ * regions from media.clip_regions, anything unreadable counts as none
+ */
+export function parseStoredRegions(json: string | null | undefined): ClipRegion[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(r => r && typeof r.start === 'number' && typeof r.end === 'number' && r.end > r.start);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * where random clips come from: regions an editor saved, else the analysed loud parts, else nowhere in particular
+ */
+export function playableRegions(media: { clip_regions?: string | null, energy_regions?: string | null }): ClipRegion[] {
+  const saved = parseStoredRegions(media.clip_regions);
+  return saved.length > 0 ? saved : parseStoredRegions(media.energy_regions);
+}
+
+/**
+ * where full playback starts, the start of the first region or 0
+ */
+export function getStartOffset(regions: ClipRegion[]): number {
+  return regions.length > 0 ? Math.min(...regions.map(r => r.start)) : 0;
+}
+
+/**
+ * random clip start inside the regions, longer regions get picked more often
+ * a region shorter than the clip starts at its beginning, null without regions
+ */
+export function pickClipStart(regions: ClipRegion[], clipLength: number, durationSeconds?: number, random: () => number = Math.random): number | null {
+  // regions past the end of the file (e.g. after a re-encode) dont count
+  const usable = regions
+    .map(r => ({ start: r.start, end: durationSeconds ? Math.min(r.end, durationSeconds) : r.end }))
+    .filter(r => r.end > r.start);
+  if (usable.length === 0) return null;
+
+  const total = usable.reduce((sum, r) => sum + (r.end - r.start), 0);
+  let roll = random() * total;
+  const region = usable.find(r => (roll -= r.end - r.start) < 0) || usable[usable.length - 1];
+
+  const room = region.end - region.start - clipLength;
+  return room > 0 ? region.start + random() * room : region.start;
+}
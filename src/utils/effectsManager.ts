@@ -15,6 +15,7 @@ export interface CommandParams {
   clipLength: number
   effectParams: {[key: string]: number}
   amplifyForTest?: boolean
+  tagFilter?: string
   [key: string]: any
 }
 
@@ -113,13 +114,23 @@ export class EffectsManager {
       } else {
         // parse as key=value pairs
         const filterParts = filterContent.split(',')
+        let lastKey = ''
         
         for (const part of filterParts) {
+          // commas inside a tag filter mean and, so glue them back on
+          if (lastKey === 'tags' && !part.includes('=')) {
+            params.tagFilter += `,${part}`
+            continue
+          }
+          
           const [key, value] = part.split('=').map(s => s.trim())
           if (!key || !value) continue
+          lastKey = key === 't' ? 'tags' : key
           
           // handle special params first
-          if (key === 'c' || key === 'length' || key === 'clipLength') {
+          if (key === 'tags' || key === 't') {
+            params.tagFilter = value
+          } else if (key === 'c' || key === 'length' || key === 'clipLength') {
             params.clipLength = parseFloat(value)
           } else if (key === 's' || key === 'start' || key === 'startTime') {
             params.startTime = parseFloat(value)
@@ -0,0 +1,139 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { DatabaseManager } from '../database/databaseManager';
+import { ClipRegion } from './types';
+
+const SAMPLE_RATE = 8000;
+const WINDOW_SECONDS = 1;
+const MAX_SECONDS = 1200; // nothing in the quiz runs longer than 20 minutes
+const SILENCE_DB = -50;
+const QUIET_DROP_DB = 15; // this far under the loud part of the track counts as quiet
+const LOUD_PERCENTILE = 0.75;
+const MAX_DIP_WINDOWS = 1; // a one second dip doesnt split a region
+const MIN_REGION_SECONDS = 3;
+const DECODE_TIMEOUT_MS = 120000;
+
+/**
+ * rms loudness in dbfs for each window of samples
+ */
+export function windowLoudness(samples: Float32Array, sampleRate: number = SAMPLE_RATE, windowSeconds: number = WINDOW_SECONDS): number[] {
+  const windowSize = Math.max(1, Math.round(sampleRate * windowSeconds));
+  const loudness: number[] = [];
+
+  for (let start = 0; start + windowSize <= samples.length; start += windowSize) {
+    let sum = 0;
+    for (let i = start; i < start + windowSize; i++) sum += samples[i] * samples[i];
+    loudness.push(10 * Math.log10(sum / windowSize + 1e-12));
+  }
+
+  return loudness;
+}
+
+/**
+ * the parts of a track that are neither silent nor much quieter than the rest of it
+ */
+export function findEnergeticRegions(loudness: number[], windowSeconds: number = WINDOW_SECONDS): ClipRegion[] {
+  const audible = loudness.filter(db => db > SILENCE_DB).sort((a, b) => a - b);
+  if (audible.length === 0) return [];
+
+  const loud = audible[Math.min(audible.length - 1, Math.floor(audible.length * LOUD_PERCENTILE))];
+  const threshold = Math.max(SILENCE_DB, loud - QUIET_DROP_DB);
+  const active = loudness.map(db => db > threshold);
+
+  // fill short dips so a breath in the middle of a chorus stays one region
+  for (let i = 0; i < active.length; i++) {
+    if (active[i]) continue;
+    let end = i;
+    while (end < active.length && !active[end]) end++;
+    if (i > 0 && end < active.length && end - i <= MAX_DIP_WINDOWS) {
+      active.fill(true, i, end);
+    }
+    i = end;
+  }
+
+  const regions: ClipRegion[] = [];
+  for (let i = 0; i < active.length; i++) {
+    if (!active[i]) continue;
+    let end = i;
+    while (end < active.length && active[end]) end++;
+    if ((end - i) * windowSeconds >= MIN_REGION_SECONDS) {
+      regions.push({ start: i * windowSeconds, end: end * windowSeconds });
+    }
+    i = end;
+  }
+
+  return regions;
+}
+
+export class EnergyAnalyzer {
+  private static instance: EnergyAnalyzer;
+
+  private constructor() {}
+
+  public static getInstance(): EnergyAnalyzer {
+    if (!EnergyAnalyzer.instance) {
+      EnergyAnalyzer.instance = new EnergyAnalyzer();
+    }
+    return EnergyAnalyzer.instance;
+  }
+
+  /**
+   * decode a file to mono pcm and find its energetic regions, windows are summed as the audio streams in
+   */
+  public async analyzeFile(filePath: string): Promise<ClipRegion[]> {
+    const windowSize = SAMPLE_RATE * WINDOW_SECONDS;
+
+    const loudness = await new Promise<number[]>((resolve, reject) => {
+      const windows: number[] = [];
+      let sum = 0;
+      let count = 0;
+      let leftover: Buffer = Buffer.alloc(0);
+
+      const command = ffmpeg(filePath)
+        .noVideo()
+        .audioChannels(1)
+        .audioFrequency(SAMPLE_RATE)
+        .duration(MAX_SECONDS)
+        .format('s16le')
+        .on('error', (err: Error) => {
+          clearTimeout(timeout);
+          reject(new Error(`failed to decode audio: ${err.message}`));
+        });
+
+      const timeout = setTimeout(() => {
+        command.kill('SIGKILL');
+        reject(new Error(`decoding timed out for: ${filePath}`));
+      }, DECODE_TIMEOUT_MS);
+
+      const stream = command.pipe();
+      stream.on('data', (chunk: Buffer) => {
+        const data = leftover.length > 0 ? Buffer.concat([leftover, chunk]) : chunk;
+        const usable = data.length - (data.length % 2);
+        for (let offset = 0; offset < usable; offset += 2) {
+          const sample = data.readInt16LE(offset) / 32768;
+          sum += sample * sample;
+          if (++count === windowSize) {
+            windows.push(10 * Math.log10(sum / windowSize + 1e-12));
+            sum = 0;
+            count = 0;
+          }
+        }
+        leftover = data.subarray(usable);
+      });
+      stream.on('end', () => {
+        clearTimeout(timeout);
+        resolve(windows);
+      });
+    });
+
+    return findEnergeticRegions(loudness);
+  }
+
+  /**
+   * analyse a media once and cache the regions on its row, an empty list means it was analysed and is all quiet
+   */
+  public async analyzeMedia(mediaId: number, filePath: string): Promise<ClipRegion[]> {
+    const regions = await this.analyzeFile(filePath);
+    await DatabaseManager.getInstance().setEnergyRegions(mediaId, regions);
+    return regions;
+  }
+}
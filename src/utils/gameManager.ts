@@ -1,7 +1,14 @@
-import { GameSession, MediaItem } from './gameSession';
+import { GameSession, MediaItem, SessionCheckpoint, TEAM_NAMES } from './gameSession';
+import { GameOptions, GuessResult, RoundOutcome, ChoiceTally, ChoiceLockResult, YearTally, TagExpression, DEFAULT_ANSWER_PART } from './types';
 import { DatabaseManager } from '../database/databaseManager';
 import { AudioPlayerManager } from './audioPlayerManager';
-import { TextChannel, ThreadChannel } from 'discord.js';
+import { Client, TextChannel, ThreadChannel, VoiceChannel } from 'discord.js';
+
+export interface RestoredSession {
+  session: GameSession;
+  textChannel: TextChannel | ThreadChannel;
+  voiceChannel: VoiceChannel;
+}
 
 export class GameManager {
   private static instance: GameManager;
@@ -9,7 +16,16 @@ export class GameManager {
   private db: DatabaseManager;
   private skipVotesInProgress: Map<string, boolean>;
   private roundTransitionInProgress: Map<string, boolean> = new Map();
+  private onRoundStartCallbacks: Map<string, (media: MediaItem) => Promise<void>> = new Map();
+  private onRoundSkippedCallbacks: Map<string, () => Promise<void>> = new Map();
   private ROUND_TRANSITION_DELAY = 3000; // 3 second delay between rounds
+  private SPEED_MAX_POINTS = 10;
+  private SPEED_DECAY_TIME = 60000; // speed points bottom out after 60s
+  private SPEED_HINT_PENALTY = 0.15; // each hint shown takes 15% off
+  private YEAR_MAX_POINTS = 10; // exact year, one point less per year off
+  private RATING_K = 32; // most a rating can move in one game
+  private DEFAULT_RATING = 1000;
+  private RESUME_MAX_AGE = 15 * 60; // seconds since the last checkpoint before a game is too stale to resume
   
   private constructor() {
     this.sessions = new Map();
@@ -35,11 +51,12 @@ export class GameManager {
     guildId: string,
     channelId: string,
     rounds: number = 20,
-    tags?: string[],
+    tags?: TagExpression,
     yearStart?: number,
     yearEnd?: number,
     channel?: TextChannel | ThreadChannel,
-    clipMode: boolean = false
+    clipMode: boolean = false,
+    options: GameOptions = {}
   ): Promise<GameSession | null> {
     const key = this.getSessionKey(guildId, channelId, channel);
     
@@ -51,30 +68,16 @@ export class GameManager {
     // reset corrupted media
     AudioPlayerManager.getInstance().resetCorruptedMediaList();
     
-    // request 2x the tracks to make sure we have enough
-    const maxAttempts = 3; // try up to 3 times
-    let playlist: MediaItem[] = [];
-    
-    // loop until we have enough tracks or max attempts reached
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      // get random media
-      playlist = await this.db.getRandomMedia(tags, yearStart, yearEnd);
-      
-      // if we got enough, break out
-      if (playlist.length >= rounds) {
-        console.log(`got ${playlist.length} tracks on attempt ${attempt+1}`);
-        break;
-      }
-      
-      console.log(`not enough tracks (${playlist.length}/${rounds}) on attempt ${attempt+1}, trying again`);
-    }
+    // packs bring their own media, everything else is picked at random
+    const fromPack = options.packId !== undefined;
+    const playlist = fromPack
+      ? await this.loadPackPlaylist(options.packId!, !!options.ordered, options.mode === 'year')
+      : await this.pickRandomPlaylist(guildId, rounds, tags, yearStart, yearEnd, options);
     
     // still not enough tracks
     if (playlist.length < rounds) {
-      console.log(`couldn't get enough tracks after ${maxAttempts} attempts (╯°□°）╯︵ ┻━┻`);
-      
-      // use what we have if at least 5 tracks
-      if (playlist.length < 5) {
+      // use what we have if at least 5 tracks, any amount is fine for a hand picked pack
+      if (playlist.length < (fromPack ? 1 : 5)) {
         return null;
       }
       
@@ -83,25 +86,76 @@ export class GameManager {
       console.log(`adjusted rounds to ${rounds} to match available tracks`);
     }
     
-    // randomize for production, sort for tests
-    if (process.env.NODE_ENV === 'test') {
-      playlist.sort((a, b) => a.id - b.id);
-    } else {
-      this.shuffleArray(playlist);
-    }
-    
-    // take only what we need
+    // take only what we need - fresh media comes first so it wins over recently played
     const finalPlaylist = playlist.slice(0, rounds);
     console.log(`final playlist length: ${finalPlaylist.length}`);
     
+    // randomize for production, sort for tests, ordered packs keep their order
+    if (!options.ordered) {
+      if (process.env.NODE_ENV === 'test') {
+        finalPlaylist.sort((a, b) => a.id - b.id);
+      } else {
+        this.shuffleArray(finalPlaylist);
+      }
+    }
+    
     // create session in db
     const sessionId = await this.db.createGameSession(guildId, channelId, rounds);
-    const session = new GameSession(sessionId, guildId, channelId, finalPlaylist, rounds, clipMode);
+    const session = new GameSession(sessionId, guildId, channelId, finalPlaylist, rounds, clipMode, options);
     
     this.sessions.set(key, session);
     return session;
   }
   
+  private async pickRandomPlaylist(
+    guildId: string,
+    rounds: number,
+    tags: TagExpression | undefined,
+    yearStart: number | undefined,
+    yearEnd: number | undefined,
+    options: GameOptions
+  ): Promise<MediaItem[]> {
+    // request 2x the tracks to make sure we have enough
+    const maxAttempts = 3; // try up to 3 times
+    let playlist: MediaItem[] = [];
+    
+    const filters = { requireYear: options.mode === 'year', difficulty: options.difficulty };
+    const recentIds = await this.db.getRecentlyPlayedMedia(guildId);
+    
+    // loop until we have enough tracks or max attempts reached
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      // get random media, skipping what this guild heard recently
+      playlist = await this.db.getRandomMedia(tags, yearStart, yearEnd, { ...filters, excludeIds: recentIds });
+      
+      // not enough fresh media, let recently played media back in behind it
+      if (playlist.length < rounds && recentIds.length > 0) {
+        const picked = new Set(playlist.map(m => m.id));
+        const fallback = await this.db.getRandomMedia(tags, yearStart, yearEnd, filters);
+        playlist = [...playlist, ...fallback.filter(m => !picked.has(m.id))];
+      }
+      
+      // if we got enough, break out
+      if (playlist.length >= rounds) {
+        console.log(`got ${playlist.length} tracks on attempt ${attempt+1}`);
+        return playlist;
+      }
+      
+      console.log(`not enough tracks (${playlist.length}/${rounds}) on attempt ${attempt+1}, trying again`);
+    }
+    
+    console.log(`couldn't get enough tracks after ${maxAttempts} attempts (╯°□°）╯︵ ┻━┻`);
+    return playlist;
+  }
+  
+  // a shuffled pack plays a different slice each time, an ordered one always starts at the top
+  // year mode can only score media with a year, so the rest of the pack sits it out
+  private async loadPackPlaylist(packId: number, ordered: boolean, requireYear: boolean): Promise<MediaItem[]> {
+    const media: MediaItem[] = await this.db.getPackMedia(packId);
+    const playlist = requireYear ? media.filter(m => m.year != null) : media;
+    if (!ordered) this.shuffleArray(playlist);
+    return playlist;
+  }
+  
   private shuffleArray(array: any[]): void {
     for (let i = array.length - 1; i > 0; i--) {
       const j = Math.floor(Math.random() * (i + 1));
@@ -109,6 +163,23 @@ export class GameManager {
     }
   }
   
+  /**
+   * split players into teams by skill rating, snake draft so the top two end up apart
+   */
+  public async balanceTeams(session: GameSession, members: { id: string; username: string }[]): Promise<void> {
+    const stats = await this.db.getUsersByIds(members.map(m => m.id));
+    const strength = new Map<string, number>(stats.map(u => [u.id, u.rating ?? this.DEFAULT_RATING]));
+    
+    const rating = (id: string) => strength.get(id) ?? this.DEFAULT_RATING;
+    const ranked = [...members].sort((a, b) => rating(b.id) - rating(a.id));
+    
+    ranked.forEach((member, i) => {
+      const pick = i % (TEAM_NAMES.length * 2);
+      const team = pick < TEAM_NAMES.length ? TEAM_NAMES[pick] : TEAM_NAMES[TEAM_NAMES.length * 2 - 1 - pick];
+      session.assignTeam(member.id, member.username, team);
+    });
+  }
+  
   public getSession(guildId: string, channelId: string, channel?: TextChannel | ThreadChannel): GameSession | undefined {
     const key = this.getSessionKey(guildId, channelId, channel);
     return this.sessions.get(key);
@@ -122,16 +193,30 @@ export class GameManager {
       return false;
     }
     
+    // persist the round that was still in progress, if any
+    const winnerId = this.getCompletedRoundWinner(session);
+    await this.recordRound(session, winnerId ? { guessedBy: winnerId } : {});
+    
     // update db
     await this.db.updateGameSession(session.getId(), session.getCurrentRound(), true);
     
+    if (session.isTeamMode()) {
+      await this.db.saveTeamResults(session.getId(), session.getTeamLeaderboard());
+    }
+    
     // update players
+    const season = await this.db.getCurrentSeason(session.getGuildId());
     for (const player of session.getPlayers()) {
       await this.db.updateUser(player.id, player.username, player.score > 0);
+      await this.db.updateGuildStats(session.getGuildId(), player.id, session.getPlayerGameStats(player.id), season);
     }
     
+    await this.updateRatings(session);
+    
     // remove session
     this.sessions.delete(key);
+    this.onRoundStartCallbacks.delete(key);
+    this.onRoundSkippedCallbacks.delete(key);
     return true;
   }
   
@@ -149,16 +234,14 @@ export class GameManager {
     
     this.roundTransitionInProgress.set(key, true);
     
-    // handle correct guess case  
-    if (userId && username) {
+    // handle correct guess case - processGuess already awarded points if it saw the answer
+    const currentMedia = session.getCurrentMedia();
+    if (userId && username && currentMedia && !session.isAnswerAlreadyGuessed(currentMedia.id)) {
       session.addPlayer(userId, username);
       session.addPointToPlayer(userId);
-      
-      // mark current media as guessed
-      const currentMedia = session.getCurrentMedia();
-      if (currentMedia) {
-        session.markAnswerAsGuessed(currentMedia.id);
-      }
+      session.recordCorrectAnswer(userId);
+      session.markAnswerAsGuessed(currentMedia.id);
+      session.setRoundWinner(userId);
       
       await this.db.updateUser(userId, username, true);
     }
@@ -166,6 +249,10 @@ export class GameManager {
     // reset skip votes
     session.resetSkipVotes();
     
+    // persist round history - no winner and no skip means the round timed out
+    const winnerId = this.getCompletedRoundWinner(session);
+    await this.recordRound(session, winnerId ? { guessedBy: winnerId } : { timedOut: true });
+    
     // update db
     await this.db.updateGameSession(session.getId(), session.getCurrentRound());
     
@@ -183,6 +270,8 @@ export class GameManager {
       return false;
     }
     
+    await this.checkpointSession(session);
+    
     // introduce a delay between rounds
     console.log(`waiting ${this.ROUND_TRANSITION_DELAY}ms before starting next round ${session.getCurrentRound()}`);
     return new Promise((resolve) => {
@@ -200,6 +289,11 @@ export class GameManager {
               // play new media
               const success = await audioPlayer.playMedia(guildId, nextMedia, session.isClipMode());
               
+              const onRoundStart = this.onRoundStartCallbacks.get(key);
+              if (success && onRoundStart) {
+                await onRoundStart(nextMedia);
+              }
+              
               // resolve promise regardless to prevent hanging
               this.roundTransitionInProgress.set(key, false);
               resolve(success);
@@ -218,7 +312,7 @@ export class GameManager {
     });
   }
   
-  public async processGuess(guildId: string, channelId: string, userId: string, username: string, guess: string, channel?: TextChannel | ThreadChannel): Promise<{correct: boolean, close: boolean}> {
+  public async processGuess(guildId: string, channelId: string, userId: string, username: string, guess: string, channel?: TextChannel | ThreadChannel): Promise<GuessResult> {
     const session = this.getSession(guildId, channelId, channel);
     
     if (!session || !session.getCurrentMedia()) {
@@ -228,7 +322,18 @@ export class GameManager {
     // add player
     session.addPlayer(userId, username);
     
+    // multiple choice rounds are answered with buttons, not chat
+    if (session.getMode() === 'choice') {
+      return {correct: false, close: false};
+    }
+    
     const currentMedia = session.getCurrentMedia()!;
+    
+    // year rounds collect guesses silently and score them at the end of the round
+    if (session.getMode() === 'year') {
+      return this.processYearGuess(session, guildId, userId, username, guess);
+    }
+    
     const normalizedGuess = this.normalizeString(guess);
     
     // don't allow points if already guessed
@@ -236,20 +341,44 @@ export class GameManager {
       return {correct: false, close: false};
     }
     
+    session.registerGuess();
+    
+    // multi-part media stays open until every part is guessed
+    await this.loadRoundParts(session);
+    
     // check answer
-    const result = await this.db.checkAnswer(currentMedia.id, normalizedGuess);
+    const result = await this.db.checkAnswer(currentMedia.id, normalizedGuess, Array.from(session.getGuessedParts().keys()));
     
     if (result.correct) {
-      // mark as guessed
-      session.markAnswerAsGuessed(currentMedia.id);
-      session.addPointToPlayer(userId);
+      // time from playback start, falling back to round start if nothing is playing
+      const answerTimeMs = AudioPlayerManager.getInstance().getPlaybackElapsed(guildId) ?? Date.now() - session.getRoundStartedAt();
+      const points = session.getScoringMode() === 'speed'
+        ? this.calculateSpeedPoints(answerTimeMs, session.getRoundHintCount())
+        : 1;
       
-      // reset skip votes
-      session.resetSkipVotes();
+      session.markPartGuessed(result.part || DEFAULT_ANSWER_PART, userId);
+      session.addPointToPlayer(userId, points);
+      session.recordCorrectAnswer(userId, answerTimeMs);
+      
+      // first correct part counts as the round winner for history
+      if (!session.getRoundWinner()) {
+        session.setRoundWinner(userId, points, answerTimeMs);
+      }
+      
+      const remainingParts = session.getRemainingParts();
+      if (remainingParts.length === 0) {
+        // mark as guessed
+        session.markAnswerAsGuessed(currentMedia.id);
+        
+        // reset skip votes
+        session.resetSkipVotes();
+      }
       
       // update db
       await this.db.updateUser(userId, username, true);
-      await this.db.updateGameSession(session.getId(), session.getCurrentRound());
+      await this.checkpointSession(session);
+      
+      return { ...result, points, answerTimeMs, remainingParts, roundComplete: remainingParts.length === 0 };
     }
     
     return result;
@@ -285,6 +414,14 @@ export class GameManager {
       // skip protection
       this.skipVotesInProgress.set(key, true);
       
+      await this.recordRound(session, { skipped: true });
+      session.clearRoundChoices();
+      
+      const onRoundSkipped = this.onRoundSkippedCallbacks.get(key);
+      if (onRoundSkipped) {
+        await onRoundSkipped();
+      }
+      
       // update db
       await this.db.updateGameSession(session.getId(), session.getCurrentRound());
       
@@ -300,6 +437,297 @@ export class GameManager {
     return {skipped: false, votes, required: requiredVotes};
   }
   
+  /**
+   * save enough state to pick the game back up if the bot restarts
+   */
+  public async checkpointSession(session: GameSession): Promise<void> {
+    try {
+      await this.db.saveSessionCheckpoint(session.getId(), session.toCheckpoint());
+    } catch (err) {
+      // same as history, a failed checkpoint shouldnt stop the game
+      console.error(`failed to checkpoint session ${session.getId()}:`, err);
+    }
+  }
+  
+  /**
+   * rebuild games that were running when the bot went down, ending the ones that cant continue
+   */
+  public async restoreSessions(client: Client): Promise<RestoredSession[]> {
+    const restored: RestoredSession[] = [];
+    
+    for (const row of await this.db.getUnfinishedSessions()) {
+      const resumable = await this.restoreSession(client, row);
+      
+      if (resumable) {
+        restored.push(resumable);
+      } else {
+        console.log(`marking stale session ${row.id} as ended`);
+        await this.db.updateGameSession(row.id, row.current_round, true);
+      }
+    }
+    
+    return restored;
+  }
+  
+  private async restoreSession(client: Client, row: { id: number, guild_id: string, channel_id: string, checkpoint: SessionCheckpoint | null, checkpoint_age: number | null }): Promise<RestoredSession | null> {
+    const checkpoint = row.checkpoint;
+    if (!checkpoint?.voiceChannelId || row.checkpoint_age == null || row.checkpoint_age > this.RESUME_MAX_AGE) {
+      return null;
+    }
+    
+    try {
+      const textChannel = await client.channels.fetch(row.channel_id);
+      const voiceChannel = await client.channels.fetch(checkpoint.voiceChannelId);
+      if (!textChannel?.isTextBased() || textChannel.isDMBased() || !voiceChannel?.isVoiceBased()) {
+        return null;
+      }
+      
+      // nobody left to play with
+      if (!voiceChannel.members.some(m => !m.user.bot)) {
+        return null;
+      }
+      
+      const channel = textChannel as TextChannel | ThreadChannel;
+      const key = this.getSessionKey(row.guild_id, row.channel_id, channel);
+      if (this.sessions.has(key)) {
+        return null;
+      }
+      
+      const session = GameSession.fromCheckpoint(row.id, row.guild_id, row.channel_id, checkpoint);
+      this.sessions.set(key, session);
+      
+      // the round that was playing when the bot went down never finished
+      await this.recordRound(session, {});
+      
+      return { session, textChannel: channel, voiceChannel: voiceChannel as VoiceChannel };
+    } catch (err) {
+      console.error(`couldnt restore session ${row.id}:`, err);
+      return null;
+    }
+  }
+  
+  public async loadRoundParts(session: GameSession): Promise<{ part: string; answer: string }[]> {
+    const media = session.getCurrentMedia();
+    if (media && session.getRoundParts().length === 0) {
+      session.setRoundParts(await this.db.getAnswerParts(media.id));
+    }
+    return session.getRoundParts();
+  }
+  
+  public setOnRoundStart(guildId: string, channelId: string, callback: (media: MediaItem) => Promise<void>, channel?: TextChannel | ThreadChannel): void {
+    this.onRoundStartCallbacks.set(this.getSessionKey(guildId, channelId, channel), callback);
+  }
+  
+  public setOnRoundSkipped(guildId: string, channelId: string, callback: () => Promise<void>, channel?: TextChannel | ThreadChannel): void {
+    this.onRoundSkippedCallbacks.set(this.getSessionKey(guildId, channelId, channel), callback);
+  }
+  
+  /**
+   * pick the correct answer plus decoys for a multiple choice round, in random order
+   */
+  public async prepareChoices(session: GameSession, decoyCount: number = 3): Promise<MediaItem[]> {
+    const media = session.getCurrentMedia();
+    if (!media) return [];
+    
+    const decoys = await this.db.getDecoyMedia(media.id, media.title, media.year, decoyCount);
+    const choices = [media, ...decoys];
+    this.shuffleArray(choices);
+    
+    session.setRoundChoices(choices);
+    return choices;
+  }
+  
+  public processChoice(guildId: string, channelId: string, userId: string, username: string, roundMediaId: number, choiceId: number, channel?: TextChannel | ThreadChannel): ChoiceLockResult {
+    const session = this.getSession(guildId, channelId, channel);
+    if (!session || session.getMode() !== 'choice') return 'no-game';
+    
+    // buttons from an earlier or skipped round can still be clicked
+    const currentMedia = session.getCurrentMedia();
+    const choices = session.getRoundChoices();
+    if (!currentMedia || currentMedia.id !== roundMediaId || session.isAnswerAlreadyGuessed(currentMedia.id) || choices.length === 0) return 'stale';
+    if (!choices.some(choice => choice.id === choiceId)) return 'invalid';
+    
+    session.addPlayer(userId, username);
+    const answerTimeMs = AudioPlayerManager.getInstance().getPlaybackElapsed(guildId) ?? Date.now() - session.getRoundStartedAt();
+    
+    if (!session.lockChoice({ userId, username, mediaId: choiceId, answerTimeMs })) {
+      return 'already-locked';
+    }
+    
+    session.registerGuess();
+    return 'locked';
+  }
+  
+  /**
+   * score everyone who locked in the right choice and return the vote distribution
+   */
+  public async resolveChoices(guildId: string, channelId: string, channel?: TextChannel | ThreadChannel): Promise<ChoiceTally[]> {
+    const session = this.getSession(guildId, channelId, channel);
+    const currentMedia = session?.getCurrentMedia();
+    if (!session || !currentMedia || session.isAnswerAlreadyGuessed(currentMedia.id)) return [];
+    
+    session.markAnswerAsGuessed(currentMedia.id);
+    const locked = session.getLockedChoices();
+    
+    const winners = locked
+      .filter(choice => choice.mediaId === currentMedia.id)
+      .sort((a, b) => a.answerTimeMs - b.answerTimeMs);
+    
+    for (const winner of winners) {
+      const points = session.getScoringMode() === 'speed'
+        ? this.calculateSpeedPoints(winner.answerTimeMs, session.getRoundHintCount())
+        : 1;
+      
+      session.addPointToPlayer(winner.userId, points);
+      session.recordCorrectAnswer(winner.userId, winner.answerTimeMs);
+      await this.db.updateUser(winner.userId, winner.username, true);
+      
+      // fastest correct pick counts as the round winner for history
+      if (winner === winners[0]) {
+        session.setRoundWinner(winner.userId, points, winner.answerTimeMs);
+      }
+    }
+    
+    return session.getRoundChoices().map(choice => ({
+      mediaId: choice.id,
+      title: choice.title,
+      correct: choice.id === currentMedia.id,
+      voters: locked.filter(l => l.mediaId === choice.id)
+    }));
+  }
+  
+  private processYearGuess(session: GameSession, guildId: string, userId: string, username: string, guess: string): GuessResult {
+    const match = guess.trim().match(/^(\d{4})$/);
+    if (!match || session.isAnswerAlreadyGuessed(session.getCurrentMedia()!.id)) {
+      return {correct: false, close: false};
+    }
+    
+    const year = parseInt(match[1]);
+    const answerTimeMs = AudioPlayerManager.getInstance().getPlaybackElapsed(guildId) ?? Date.now() - session.getRoundStartedAt();
+    
+    session.registerGuess();
+    session.setYearGuess({ userId, username, year, answerTimeMs });
+    return {correct: false, close: false, year};
+  }
+  
+  /**
+   * score every year guess by distance and return them sorted by error
+   */
+  public async resolveYearGuesses(guildId: string, channelId: string, channel?: TextChannel | ThreadChannel): Promise<YearTally[]> {
+    const session = this.getSession(guildId, channelId, channel);
+    const currentMedia = session?.getCurrentMedia();
+    if (!session || !currentMedia?.year || session.isAnswerAlreadyGuessed(currentMedia.id)) return [];
+    
+    session.markAnswerAsGuessed(currentMedia.id);
+    
+    const tally = session.getYearGuesses()
+      .map(guess => {
+        const error = Math.abs(guess.year - currentMedia.year!);
+        return { ...guess, error, points: Math.max(0, this.YEAR_MAX_POINTS - error) };
+      })
+      .sort((a, b) => a.error - b.error || a.answerTimeMs - b.answerTimeMs);
+    
+    for (const entry of tally) {
+      if (entry.points === 0) continue;
+      
+      session.addPointToPlayer(entry.userId, entry.points);
+      if (entry.error === 0) {
+        session.recordCorrectAnswer(entry.userId, entry.answerTimeMs);
+      }
+      await this.db.updateUser(entry.userId, entry.username, entry.error === 0);
+      
+      // closest guess counts as the round winner for history
+      if (entry === tally[0]) {
+        session.setRoundWinner(entry.userId, entry.points, entry.answerTimeMs);
+      }
+    }
+    
+    return tally;
+  }
+  
+  /**
+   * elo over every pair of players in every round: a faster correct answer beats a slower one,
+   * any correct answer beats a miss and two misses dont count. the whole game is worth one match
+   */
+  public calculateRatingChanges(ratings: Map<string, number>, playerIds: string[], rounds: string[][]): Map<string, number> {
+    const totals = new Map(playerIds.map(id => [id, { score: 0, matchups: 0 }]));
+    const rating = (id: string) => ratings.get(id) ?? this.DEFAULT_RATING;
+    
+    for (const order of rounds) {
+      const ranked = order.filter(id => totals.has(id));
+      const missed = playerIds.filter(id => !ranked.includes(id));
+      
+      ranked.forEach((winner, i) => {
+        for (const loser of [...ranked.slice(i + 1), ...missed]) {
+          const expected = 1 / (1 + Math.pow(10, (rating(loser) - rating(winner)) / 400));
+          totals.get(winner)!.score += 1 - expected;
+          totals.get(winner)!.matchups++;
+          totals.get(loser)!.score -= 1 - expected;
+          totals.get(loser)!.matchups++;
+        }
+      });
+    }
+    
+    const changes = new Map<string, number>();
+    totals.forEach((total, id) => {
+      if (total.matchups > 0) {
+        changes.set(id, Math.round(this.RATING_K * total.score / total.matchups));
+      }
+    });
+    return changes;
+  }
+  
+  private async updateRatings(session: GameSession): Promise<void> {
+    const playerIds = session.getPlayers().map(p => p.id);
+    if (playerIds.length < 2) return;
+    
+    try {
+      const users = await this.db.getUsersByIds(playerIds);
+      const ratings = new Map<string, number>(users.map(u => [u.id, u.rating ?? this.DEFAULT_RATING]));
+      const changes = this.calculateRatingChanges(ratings, playerIds, session.getRoundResults());
+      
+      await this.db.saveRatingChanges(session.getId(), Array.from(changes, ([userId, change]) => ({
+        userId,
+        rating: (ratings.get(userId) ?? this.DEFAULT_RATING) + change,
+        change
+      })));
+    } catch (err) {
+      // ratings can catch up next game, dont block ending this one
+      console.error(`failed to update ratings for session ${session.getId()}:`, err);
+    }
+  }
+  
+  public calculateSpeedPoints(answerTimeMs: number, hintsShown: number): number {
+    const timeFactor = Math.max(0, 1 - answerTimeMs / this.SPEED_DECAY_TIME);
+    const hintFactor = Math.max(0, 1 - hintsShown * this.SPEED_HINT_PENALTY);
+    return Math.max(1, Math.round(this.SPEED_MAX_POINTS * timeFactor * hintFactor));
+  }
+  
+  /**
+   * who gets the round in history, a multi-part round only counts once every part is guessed
+   */
+  private getCompletedRoundWinner(session: GameSession): string | null {
+    const media = session.getCurrentMedia();
+    return media && session.isAnswerAlreadyGuessed(media.id) ? session.getRoundWinner() : null;
+  }
+  
+  private async recordRound(session: GameSession, outcome: Omit<RoundOutcome, 'guessCount'>): Promise<void> {
+    const media = session.getCurrentMedia();
+    if (!media || !session.markRoundRecorded()) return;
+    
+    try {
+      await this.db.recordSessionRound(session.getId(), session.getCurrentRound(), media.id, session.getRoundStartedAt(), {
+        ...outcome,
+        guessCount: session.getRoundGuessCount(),
+        points: outcome.guessedBy ? session.getRoundPoints() ?? 1 : undefined,
+        answerTimeMs: outcome.guessedBy ? session.getRoundAnswerTime() : undefined
+      });
+    } catch (err) {
+      // history is nice to have, never let it break a running game
+      console.error(`failed to record round ${session.getCurrentRound()} for session ${session.getId()}:`, err);
+    }
+  }
+  
   private normalizeString(str: string): string {
     return str.toLowerCase()
       .replace(/[^\w\s]/g, '')
@@ -1,4 +1,6 @@
-import { Player } from './types';
+import { Player, TeamName, TeamScore, GameOptions, ScoringMode, GameMode, LockedChoice, YearGuess, PlayerGameStats } from './types';
+
+export const TEAM_NAMES: TeamName[] = ['red', 'blue'];
 
 export interface MediaItem {
   id: number;
@@ -7,6 +9,23 @@ export interface MediaItem {
   normalized_path?: string;
   metadata?: string;
   year?: number;
+  uploaded_by?: string | null;
+  clip_regions?: string | null;
+  energy_regions?: string | null;
+}
+
+// everything needed to pick a game back up after a restart
+export interface SessionCheckpoint {
+  voiceChannelId?: string;
+  playlist: MediaItem[];
+  currentRound: number;
+  roundStartedAt: number;
+  totalRounds: number;
+  clipMode: boolean;
+  options: GameOptions;
+  players: Player[];
+  answerStats?: [string, Omit<PlayerGameStats, 'won'>][];
+  roundResults?: [number, string[]][];
 }
 
 export class GameSession {
@@ -21,8 +40,24 @@ export class GameSession {
   private guessedAnswers: Set<number>; // track which media ids have been guessed
   private clipMode: boolean;
   private lastPlayedMediaId: number | null = null;
+  private roundStartedAt: number = 0;
+  private roundGuessCount: number = 0;
+  private roundWinnerId: string | null = null;
+  private roundPoints: number | undefined;
+  private roundAnswerTimeMs: number | undefined;
+  private roundHintCount: number = 0;
+  private roundChoices: MediaItem[] = [];
+  private lockedChoices: Map<string, LockedChoice> = new Map();
+  private yearGuesses: Map<string, YearGuess> = new Map();
+  private roundParts: { part: string; answer: string }[] = [];
+  private guessedParts: Map<string, string> = new Map(); // part -> user id
+  private lastRecordedRound: number = 0;
+  private voiceChannelId: string | undefined;
+  private answerStats: Map<string, Omit<PlayerGameStats, 'won'>> = new Map();
+  private roundResults: Map<number, string[]> = new Map(); // round -> user ids in the order they got it
+  private options: GameOptions;
 
-  constructor(id: number, guildId: string, channelId: string, playlist: MediaItem[], totalRounds: number, clipMode: boolean = false) {
+  constructor(id: number, guildId: string, channelId: string, playlist: MediaItem[], totalRounds: number, clipMode: boolean = false, options: GameOptions = {}) {
     this.id = id;
     this.guildId = guildId;
     this.channelId = channelId;
@@ -33,6 +68,36 @@ export class GameSession {
     this.totalRounds = totalRounds;
     this.guessedAnswers = new Set();
     this.clipMode = clipMode;
+    this.options = options;
+  }
+
+  public static fromCheckpoint(id: number, guildId: string, channelId: string, checkpoint: SessionCheckpoint): GameSession {
+    const session = new GameSession(id, guildId, channelId, checkpoint.playlist, checkpoint.totalRounds, checkpoint.clipMode, checkpoint.options);
+    session.currentRound = checkpoint.currentRound;
+    session.roundStartedAt = checkpoint.roundStartedAt;
+    session.voiceChannelId = checkpoint.voiceChannelId;
+    checkpoint.players.forEach(player => session.players.set(player.id, { ...player }));
+    session.answerStats = new Map(checkpoint.answerStats || []);
+    session.roundResults = new Map(checkpoint.roundResults || []);
+    
+    // rounds before the interrupted one were already recorded
+    session.lastRecordedRound = checkpoint.currentRound - 1;
+    return session;
+  }
+
+  public toCheckpoint(): SessionCheckpoint {
+    return {
+      voiceChannelId: this.voiceChannelId,
+      playlist: this.playlist,
+      currentRound: this.currentRound,
+      roundStartedAt: this.roundStartedAt,
+      totalRounds: this.totalRounds,
+      clipMode: this.clipMode,
+      options: this.options,
+      players: this.getPlayers(),
+      answerStats: Array.from(this.answerStats.entries()),
+      roundResults: Array.from(this.roundResults.entries())
+    };
   }
 
   public getId(): number {
@@ -47,6 +112,14 @@ export class GameSession {
     return this.channelId;
   }
 
+  public getVoiceChannelId(): string | undefined {
+    return this.voiceChannelId;
+  }
+
+  public setVoiceChannelId(voiceChannelId: string): void {
+    this.voiceChannelId = voiceChannelId;
+  }
+
   public getCurrentRound(): number {
     return this.currentRound;
   }
@@ -79,6 +152,19 @@ export class GameSession {
     // reset guessed answers for new round
     this.guessedAnswers.clear();
     
+    // reset per-round history tracking
+    this.roundStartedAt = Date.now();
+    this.roundGuessCount = 0;
+    this.roundWinnerId = null;
+    this.roundPoints = undefined;
+    this.roundAnswerTimeMs = undefined;
+    this.roundHintCount = 0;
+    this.roundChoices = [];
+    this.lockedChoices.clear();
+    this.yearGuesses.clear();
+    this.roundParts = [];
+    this.guessedParts.clear();
+    
     // increment round
     this.currentRound++;
     
@@ -107,13 +193,18 @@ export class GameSession {
   public addPlayer(userId: string, username: string): void {
     if (!this.players.has(userId)) {
       this.players.set(userId, { id: userId, username, score: 0 });
+      
+      // late joiners go to whichever team is short a player
+      if (this.isTeamMode()) {
+        this.assignTeam(userId, username, this.getSmallestTeam());
+      }
     }
   }
 
-  public addPointToPlayer(userId: string): void {
+  public addPointToPlayer(userId: string, points: number = 1): void {
     const player = this.players.get(userId);
     if (player) {
-      player.score++;
+      player.score += points;
     }
   }
 
@@ -125,6 +216,74 @@ export class GameSession {
     return this.getPlayers().sort((a, b) => b.score - a.score);
   }
 
+  public recordCorrectAnswer(userId: string, answerTimeMs?: number): void {
+    const stats = this.answerStats.get(userId) || { correct: 0, answerTimeMs: 0, timedAnswers: 0 };
+    stats.correct++;
+    if (answerTimeMs !== undefined) {
+      stats.answerTimeMs += answerTimeMs;
+      stats.timedAnswers++;
+    }
+    this.answerStats.set(userId, stats);
+    
+    const order = this.roundResults.get(this.currentRound) || [];
+    if (!order.includes(userId)) {
+      this.roundResults.set(this.currentRound, [...order, userId]);
+    }
+  }
+
+  public getRoundResults(): string[][] {
+    return Array.from(this.roundResults.values());
+  }
+
+  // a win needs the outright top score, or being on the winning team
+  public getPlayerGameStats(userId: string): PlayerGameStats {
+    const stats = this.answerStats.get(userId) || { correct: 0, answerTimeMs: 0, timedAnswers: 0 };
+    
+    const teams = this.getTeamLeaderboard();
+    if (teams.length > 0) {
+      const won = teams[0].score > 0 && teams[0].score > teams[1].score && teams[0].team === this.getPlayerTeam(userId);
+      return { ...stats, won };
+    }
+    
+    const [first, second] = this.getLeaderboard();
+    const won = !!first && first.id === userId && first.score > 0 && (!second || first.score > second.score);
+    return { ...stats, won };
+  }
+
+  public isTeamMode(): boolean {
+    return !!this.options.teams;
+  }
+
+  public assignTeam(userId: string, username: string, team: TeamName): void {
+    if (!this.players.has(userId)) {
+      this.players.set(userId, { id: userId, username, score: 0 });
+    }
+    this.players.get(userId)!.team = team;
+  }
+
+  public getPlayerTeam(userId: string): TeamName | undefined {
+    return this.players.get(userId)?.team;
+  }
+
+  private getSmallestTeam(): TeamName {
+    const sizes = TEAM_NAMES.map(team => this.getPlayers().filter(p => p.team === team).length);
+    return TEAM_NAMES[sizes.indexOf(Math.min(...sizes))];
+  }
+
+  public getTeamLeaderboard(): TeamScore[] {
+    if (!this.isTeamMode()) return [];
+    
+    return TEAM_NAMES.map(team => {
+      const players = this.getLeaderboard().filter(p => p.team === team);
+      return {
+        team,
+        score: players.reduce((sum, p) => sum + p.score, 0),
+        players,
+        mvp: players.length > 0 && players[0].score > 0 ? players[0] : null
+      };
+    }).sort((a, b) => b.score - a.score);
+  }
+
   public addSkipVote(userId: string): number {
     // only count each user's vote once
     this.skipVotes.add(userId);
@@ -150,4 +309,113 @@ export class GameSession {
   public isClipMode(): boolean {
     return this.clipMode;
   }
+
+  public getRoundStartedAt(): number {
+    return this.roundStartedAt;
+  }
+
+  public registerGuess(): number {
+    return ++this.roundGuessCount;
+  }
+
+  public getRoundGuessCount(): number {
+    return this.roundGuessCount;
+  }
+
+  public setRoundWinner(userId: string, points?: number, answerTimeMs?: number): void {
+    this.roundWinnerId = userId;
+    this.roundPoints = points;
+    this.roundAnswerTimeMs = answerTimeMs;
+  }
+
+  public getRoundPoints(): number | undefined {
+    return this.roundPoints;
+  }
+
+  public getRoundAnswerTime(): number | undefined {
+    return this.roundAnswerTimeMs;
+  }
+
+  public registerHint(): void {
+    this.roundHintCount++;
+  }
+
+  public getRoundHintCount(): number {
+    return this.roundHintCount;
+  }
+
+  public getScoringMode(): ScoringMode {
+    return this.options.scoring || 'flat';
+  }
+
+  public setRoundParts(parts: { part: string; answer: string }[]): void {
+    this.roundParts = parts;
+  }
+
+  public getRoundParts(): { part: string; answer: string }[] {
+    return this.roundParts;
+  }
+
+  public markPartGuessed(part: string, userId: string): void {
+    this.guessedParts.set(part, userId);
+  }
+
+  public getGuessedParts(): Map<string, string> {
+    return this.guessedParts;
+  }
+
+  public getRemainingParts(): string[] {
+    return this.roundParts.map(p => p.part).filter(part => !this.guessedParts.has(part));
+  }
+
+  public getMode(): GameMode {
+    return this.options.mode || 'normal';
+  }
+
+  public setRoundChoices(choices: MediaItem[]): void {
+    this.roundChoices = choices;
+  }
+
+  public getRoundChoices(): MediaItem[] {
+    return this.roundChoices;
+  }
+
+  // first pick is final, returns false if the user already locked in or the choice isnt on offer
+  public lockChoice(choice: LockedChoice): boolean {
+    if (this.lockedChoices.has(choice.userId)) return false;
+    if (!this.roundChoices.some(c => c.id === choice.mediaId)) return false;
+    
+    this.lockedChoices.set(choice.userId, choice);
+    return true;
+  }
+
+  // a skipped round drops its choices so late clicks are stale and nothing gets scored
+  public clearRoundChoices(): void {
+    this.roundChoices = [];
+    this.lockedChoices.clear();
+  }
+
+  public getLockedChoices(): LockedChoice[] {
+    return Array.from(this.lockedChoices.values());
+  }
+
+  // a later guess replaces the earlier one, nothing is revealed until time is up
+  public setYearGuess(guess: YearGuess): void {
+    this.yearGuesses.set(guess.userId, guess);
+  }
+
+  public getYearGuesses(): YearGuess[] {
+    return Array.from(this.yearGuesses.values());
+  }
+
+  public getRoundWinner(): string | null {
+    return this.roundWinnerId;
+  }
+
+  // true only the first time a round is marked, so each round is persisted once
+  public markRoundRecorded(): boolean {
+    if (this.lastRecordedRound >= this.currentRound) return false;
+    this.lastRecordedRound = this.currentRound;
+    return true;
+  }
 }
\ No newline at end of file
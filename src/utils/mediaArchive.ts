@@ -0,0 +1,472 @@
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { DatabaseManager } from '../database/databaseManager';
+import { MediaProcessor } from './mediaProcessor';
+import { AudioPlayerManager } from './audioPlayerManager';
+import { FingerprintManager } from './audioFingerprint';
+import { EnergyAnalyzer } from './energyAnalysis';
+import { parseTagExpression } from './tagExpression';
+import { validateMetadata, parseStoredMetadata, parseYear, parseTagList } from './mediaMetadata';
+import { MediaMetadata } from './types';
+
+const execFileAsync = promisify(execFile);
+
+export const ARCHIVE_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+
+// problems with the archive itself, safe to show as is
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+export interface ArchiveSelection {
+  ids?: number[];
+  tags?: string;
+  yearStart?: number;
+  yearEnd?: number;
+}
+
+export interface ArchiveAnswer {
+  answer: string;
+  primary: boolean;
+  part: string | null;
+}
+
+export interface ArchiveMediaEntry {
+  id: number;
+  title: string;
+  year: number | null;
+  metadata: MediaMetadata;
+  tags: string[];
+  answers: ArchiveAnswer[];
+  file: string;
+  normalized: boolean;
+  sha256: string;
+  // older archives dont have it
+  uploadedBy?: string | null;
+}
+
+export interface ArchiveManifest {
+  version: number;
+  exportedAt: string;
+  selection: ArchiveSelection;
+  media: ArchiveMediaEntry[];
+}
+
+export interface ExportResult {
+  outputPath: string;
+  exported: number;
+  missing: { id: number, title: string }[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  imported: { title: string, mediaId?: number, normalize: boolean }[];
+  duplicates: { title: string, existingId?: number, reason: string }[];
+  failed: { title: string, error: string }[];
+}
+
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+/**
+ * an archive path as a regular file inside the work dir, null for anything else
+ * tar keeps symlinks, so a link out of the archive must never be read or copied
+ */
+function resolveArchiveFile(workDir: string, file: string): string | null {
+  const filePath = path.resolve(workDir, file);
+  try {
+    if (!fs.lstatSync(filePath).isFile()) return null;
+    return fs.realpathSync(filePath).startsWith(fs.realpathSync(workDir) + path.sep) ? filePath : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseEntry(raw: any, index: number): ArchiveMediaEntry {
+  const where = `media #${index + 1}`;
+  if (!raw || typeof raw !== 'object') throw new ArchiveError(`${where} isnt an object`);
+  if (typeof raw.title !== 'string' || !raw.title.trim()) throw new ArchiveError(`${where} has no title`);
+  if (typeof raw.file !== 'string' || !raw.file) throw new ArchiveError(`${where} has no file`);
+  if (typeof raw.sha256 !== 'string' || !/^[0-9a-f]{64}$/.test(raw.sha256)) throw new ArchiveError(`${where} has no sha256`);
+
+  const answers = Array.isArray(raw.answers) ? raw.answers : [];
+  if (answers.some((a: any) => !a || typeof a.answer !== 'string' || !a.answer.trim())) {
+    throw new ArchiveError(`${where} has an empty answer`);
+  }
+
+  try {
+    return {
+      id: Number(raw.id) || 0,
+      title: raw.title.trim(),
+      year: parseYear(raw.year),
+      metadata: validateMetadata(raw.metadata ?? {}),
+      tags: Array.isArray(raw.tags) ? parseTagList(raw.tags.join(',')) : [],
+      answers: answers.map((a: any) => ({ answer: a.answer.trim(), primary: !!a.primary, part: typeof a.part === 'string' ? a.part : null })),
+      file: raw.file,
+      normalized: !!raw.normalized,
+      sha256: raw.sha256,
+      uploadedBy: typeof raw.uploadedBy === 'string' && raw.uploadedBy ? raw.uploadedBy : null
+    };
+  } catch (error) {
+    throw new ArchiveError(`${where}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * check a manifest read from an archive, throws ArchiveError if it cant be imported at all
+ */
+export function parseManifest(input: unknown): { manifest: ArchiveManifest, invalid: { index: number, error: string }[] } {
+  const raw = input as any;
+  if (!raw || typeof raw !== 'object' || typeof raw.version !== 'number') {
+    throw new ArchiveError('manifest has no version');
+  }
+  if (raw.version > ARCHIVE_VERSION) {
+    throw new ArchiveError(`archive version ${raw.version} is newer than this bot understands (${ARCHIVE_VERSION}), update otoq first`);
+  }
+  if (!Array.isArray(raw.media)) {
+    throw new ArchiveError('manifest has no media list');
+  }
+
+  // one broken entry shouldnt sink the whole archive
+  const media: ArchiveMediaEntry[] = [];
+  const invalid: { index: number, error: string }[] = [];
+  raw.media.forEach((entry: any, index: number) => {
+    try {
+      media.push(parseEntry(entry, index));
+    } catch (error) {
+      if (!(error instanceof ArchiveError)) throw error;
+      invalid.push({ index, error: error.message });
+    }
+  });
+
+  return {
+    manifest: { version: raw.version, exportedAt: `${raw.exportedAt || ''}`, selection: raw.selection || {}, media },
+    invalid
+  };
+}
+
+export function formatImportReport(report: ImportReport): string {
+  const lines = [
+    `${report.dryRun ? 'dry run: would import' : 'imported'} ${report.imported.length} of ${report.total} media` +
+      `, ${report.duplicates.length} duplicates, ${report.failed.length} failed`
+  ];
+
+  for (const item of report.imported) {
+    lines.push(`  + ${item.title}${item.mediaId ? ` (#${item.mediaId})` : ''}${item.normalize ? ' [needs normalizing]' : ''}`);
+  }
+  for (const item of report.duplicates) {
+    lines.push(`  = ${item.title}: ${item.reason}${item.existingId ? ` (#${item.existingId})` : ''}`);
+  }
+  for (const item of report.failed) {
+    lines.push(`  ! ${item.title}: ${item.error}`);
+  }
+
+  return lines.join('\n');
+}
+
+export class MediaArchive {
+  private static instance: MediaArchive;
+  private mediaDir = process.env.MEDIA_DIR || path.join(process.cwd(), 'src/media');
+  private tempDir = path.join(process.cwd(), 'temp');
+
+  private constructor() {}
+
+  public static getInstance(): MediaArchive {
+    if (!MediaArchive.instance) {
+      MediaArchive.instance = new MediaArchive();
+    }
+    return MediaArchive.instance;
+  }
+
+  private makeWorkDir(prefix: string): string {
+    if (!fs.existsSync(this.tempDir)) {
+      fs.mkdirSync(this.tempDir, { recursive: true });
+    }
+    return fs.mkdtempSync(path.join(this.tempDir, `${prefix}_`));
+  }
+
+  /**
+   * bundle the selected media with answers, tags and details into a .tar.gz or .zip (by extension)
+   */
+  public async exportMedia(selection: ArchiveSelection, outputPath: string): Promise<ExportResult> {
+    const db = DatabaseManager.getInstance();
+    const rows = await db.getFilteredMedia(selection.yearStart, selection.yearEnd, {
+      ids: selection.ids,
+      tags: selection.tags ? parseTagExpression(selection.tags) : undefined
+    });
+
+    if (rows.length === 0) {
+      throw new ArchiveError('no media matches that selection');
+    }
+
+    const workDir = this.makeWorkDir('export');
+    fs.mkdirSync(path.join(workDir, 'media'));
+
+    try {
+      const media: ArchiveMediaEntry[] = [];
+      const missing: { id: number, title: string }[] = [];
+
+      for (const row of rows) {
+        // ship the normalized file when there is one so the importer can skip ffmpeg
+        const normalized = !!row.normalized_path && fs.existsSync(row.normalized_path);
+        const source = normalized ? row.normalized_path : row.file_path;
+        if (!source || !fs.existsSync(source)) {
+          missing.push({ id: row.id, title: row.title });
+          continue;
+        }
+
+        const file = `media/${row.id}${path.extname(source)}`;
+        fs.copyFileSync(source, path.join(workDir, file));
+
+        const answers = await db.getMediaAnswers(row.id);
+        media.push({
+          id: row.id,
+          title: row.title,
+          year: row.year ?? null,
+          metadata: parseStoredMetadata(row.metadata),
+          tags: await db.getMediaTags(row.id),
+          answers: answers.map(a => ({ answer: a.answer, primary: !!a.is_primary, part: a.answer_group ?? null })),
+          file,
+          normalized,
+          sha256: await hashFile(source),
+          uploadedBy: row.uploaded_by ?? null
+        });
+      }
+
+      if (media.length === 0) {
+        throw new ArchiveError('none of the selected media have files on disk');
+      }
+
+      const manifest: ArchiveManifest = { version: ARCHIVE_VERSION, exportedAt: new Date().toISOString(), selection, media };
+      fs.writeFileSync(path.join(workDir, MANIFEST_NAME), JSON.stringify(manifest, null, 2));
+
+      const output = path.resolve(outputPath);
+      if (fs.existsSync(output)) fs.unlinkSync(output);
+      if (output.endsWith('.zip')) {
+        await execFileAsync('zip', ['-qr', output, MANIFEST_NAME, 'media'], { cwd: workDir });
+      } else {
+        await execFileAsync('tar', ['-czf', output, '-C', workDir, MANIFEST_NAME, 'media']);
+      }
+
+      console.log(`exported ${media.length} media to ${output}`);
+      return { outputPath: output, exported: media.length, missing };
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private async extract(archivePath: string, workDir: string): Promise<void> {
+    const header = Buffer.alloc(2);
+    const fd = fs.openSync(archivePath, 'r');
+    try {
+      fs.readSync(fd, header, 0, 2, 0);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    try {
+      // zips start with PK, tar works out gzip or plain by itself
+      if (header.toString() === 'PK') {
+        await execFileAsync('unzip', ['-qo', archivePath, '-d', workDir]);
+      } else {
+        await execFileAsync('tar', ['-xf', archivePath, '-C', workDir]);
+      }
+    } catch (error) {
+      throw new ArchiveError('couldnt unpack the archive, is it a .tar.gz or .zip?');
+    }
+  }
+
+  // existing media files by size, so only same sized files ever get hashed
+  private async buildSizeIndex(): Promise<Map<number, { id: number, path: string }[]>> {
+    const index = new Map<number, { id: number, path: string }[]>();
+    for (const row of await DatabaseManager.getInstance().getFilteredMedia(undefined, undefined, { includePending: true })) {
+      for (const filePath of new Set([row.file_path, row.normalized_path].filter(Boolean))) {
+        if (!fs.existsSync(filePath)) continue;
+        const size = fs.statSync(filePath).size;
+        index.set(size, [...(index.get(size) || []), { id: row.id, path: filePath }]);
+      }
+    }
+    return index;
+  }
+
+  private async findDuplicate(
+    entry: ArchiveMediaEntry,
+    filePath: string,
+    sizeIndex: Map<number, { id: number, path: string }[]>
+  ): Promise<{ existingId: number, reason: string } | null> {
+    const sameTitle = await DatabaseManager.getInstance().getMediaWithTitle(entry.title);
+    if (sameTitle.length > 0) {
+      return { existingId: sameTitle[0].id, reason: 'title already exists' };
+    }
+
+    for (const candidate of sizeIndex.get(fs.statSync(filePath).size) || []) {
+      if (await hashFile(candidate.path) === entry.sha256) {
+        return { existingId: candidate.id, reason: 'same file already exists' };
+      }
+    }
+
+    return null;
+  }
+
+  private async importEntry(entry: ArchiveMediaEntry, sourcePath: string): Promise<number> {
+    const db = DatabaseManager.getInstance();
+    const normalizedDir = path.join(this.mediaDir, 'normalized');
+    if (!fs.existsSync(normalizedDir)) {
+      fs.mkdirSync(normalizedDir, { recursive: true });
+    }
+
+    const baseName = path.basename(entry.file);
+    let filePath: string;
+    let normalizedPath: string;
+    let duration: number | null = null;
+
+    if (entry.normalized) {
+      // already normalized on the other end, one copy serves as both
+      filePath = path.join(normalizedDir, `norm_${Date.now()}_import_${baseName}`);
+      fs.copyFileSync(sourcePath, filePath);
+      normalizedPath = filePath;
+    } else {
+      filePath = path.join(this.mediaDir, `${Date.now()}_import_${baseName}`);
+      fs.copyFileSync(sourcePath, filePath);
+      try {
+        const result = await MediaProcessor.getInstance().normalizeAndConvert(filePath, normalizedDir);
+        normalizedPath = result.outputPath;
+        duration = result.duration;
+      } catch (error) {
+        fs.rmSync(filePath, { force: true });
+        throw error;
+      }
+    }
+
+    const mediaId = await db.addMedia(
+      entry.title,
+      filePath,
+      entry.year ?? undefined,
+      Object.keys(entry.metadata).length > 0 ? JSON.stringify(entry.metadata) : undefined,
+      { uploadedBy: entry.uploadedBy, source: 'archive' }
+    );
+    await db.updateNormalizedPath(mediaId, normalizedPath);
+    await db.tagMedia(mediaId, entry.tags);
+
+    const answers = entry.answers.length > 0 ? entry.answers : [{ answer: entry.title, primary: true, part: null }];
+    for (const answer of answers) {
+      await db.addAnswerToMedia(mediaId, answer.answer, answer.primary, answer.part ?? undefined);
+    }
+
+    if (duration !== null) {
+      AudioPlayerManager.getInstance().storeMediaDuration(mediaId, duration);
+    }
+
+    // title and file checks already ran, this just keeps /otoqdupes complete
+    try {
+      await FingerprintManager.getInstance().fingerprintMedia(mediaId, normalizedPath);
+    } catch (error) {
+      console.error(`couldnt fingerprint media #${mediaId}: ${error}`);
+    }
+    try {
+      await EnergyAnalyzer.getInstance().analyzeMedia(mediaId, normalizedPath);
+    } catch (error) {
+      console.error(`couldnt analyse media #${mediaId}: ${error}`);
+    }
+
+    return mediaId;
+  }
+
+  /**
+   * import an exported archive, skipping anything already in the library
+   * a dry run checks everything and reports what would happen without writing
+   */
+  public async importArchive(archivePath: string, options: { dryRun?: boolean } = {}): Promise<ImportReport> {
+    if (!fs.existsSync(archivePath)) {
+      throw new ArchiveError(`no archive at ${archivePath}`);
+    }
+
+    const workDir = this.makeWorkDir('import');
+    try {
+      await this.extract(archivePath, workDir);
+
+      const manifestPath = resolveArchiveFile(workDir, MANIFEST_NAME);
+      if (!manifestPath) {
+        throw new ArchiveError(`archive has no ${MANIFEST_NAME}`);
+      }
+
+      let raw: unknown;
+      try {
+        raw = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+      } catch {
+        throw new ArchiveError(`${MANIFEST_NAME} isnt valid json`);
+      }
+
+      const { manifest, invalid } = parseManifest(raw);
+      const report: ImportReport = {
+        dryRun: !!options.dryRun,
+        total: manifest.media.length + invalid.length,
+        imported: [],
+        duplicates: [],
+        failed: invalid.map(item => ({ title: `entry ${item.index + 1}`, error: item.error }))
+      };
+
+      const sizeIndex = await this.buildSizeIndex();
+      const seenHashes = new Set<string>();
+      const seenTitles = new Set<string>();
+
+      for (const entry of manifest.media) {
+        try {
+          // manifest paths must be plain files inside the archive
+          const sourcePath = resolveArchiveFile(workDir, entry.file);
+          if (!sourcePath) {
+            report.failed.push({ title: entry.title, error: `file ${entry.file} is missing from the archive or isnt a plain file` });
+            continue;
+          }
+          if (await hashFile(sourcePath) !== entry.sha256) {
+            report.failed.push({ title: entry.title, error: 'file doesnt match its checksum' });
+            continue;
+          }
+
+          if (seenHashes.has(entry.sha256) || seenTitles.has(entry.title.toLowerCase())) {
+            report.duplicates.push({ title: entry.title, reason: 'already earlier in this archive' });
+            continue;
+          }
+          seenHashes.add(entry.sha256);
+          seenTitles.add(entry.title.toLowerCase());
+
+          const duplicate = await this.findDuplicate(entry, sourcePath, sizeIndex);
+          if (duplicate) {
+            report.duplicates.push({ title: entry.title, ...duplicate });
+            continue;
+          }
+
+          if (options.dryRun) {
+            report.imported.push({ title: entry.title, normalize: !entry.normalized });
+            continue;
+          }
+
+          const mediaId = await this.importEntry(entry, sourcePath);
+          report.imported.push({ title: entry.title, mediaId, normalize: !entry.normalized });
+          console.log(`imported ${entry.title} as #${mediaId}`);
+        } catch (error) {
+          report.failed.push({ title: entry.title, error: error instanceof Error ? error.message : `${error}` });
+        }
+      }
+
+      return report;
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import path from 'path';
+import { validateMetadata, parseYear, parseTagList } from './mediaMetadata';
+import { MediaMetadata, METADATA_FIELDS } from './types';
+
+export const MEDIA_EXTENSIONS = ['.mp3', '.mp4', '.m4a', '.wav', '.flac', '.mov', '.wmv', '.ogg', '.webm', '.mkv'];
+
+export interface ImportEntry {
+  answers: string[];
+  tags: string[];
+  year: number | null;
+  metadata: MediaMetadata;
+}
+
+export function isMediaFile(fileName: string): boolean {
+  return MEDIA_EXTENSIONS.includes(path.extname(fileName).toLowerCase());
+}
+
+// sidecars are keyed by the path relative to the import dir, always with forward slashes
+export function sidecarKey(relativePath: string): string {
+  return relativePath.split(path.sep).join('/').replace(/^\.\//, '').toLowerCase();
+}
+
+/**
+ * split csv text into rows, handles quoted fields with commas, quotes and newlines
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // blank lines are just spacing
+  return rows.filter(r => r.some(value => value.trim()));
+}
+
+function toList(value: unknown, separator: string): string[] {
+  if (Array.isArray(value)) return value.map(v => `${v}`.trim()).filter(v => v.length > 0);
+  if (typeof value === 'string') return value.split(separator).map(v => v.trim()).filter(v => v.length > 0);
+  return [];
+}
+
+function buildEntry(raw: { answers: unknown, tags: unknown, year: unknown, metadata: unknown }, listSeparator: string): ImportEntry {
+  const answers = toList(raw.answers, listSeparator);
+  if (answers.length === 0) {
+    throw new Error('needs at least one answer');
+  }
+
+  return {
+    answers,
+    tags: parseTagList(toList(raw.tags, listSeparator).join(',')),
+    year: parseYear(raw.year as string | number | null | undefined),
+    metadata: validateMetadata(raw.metadata ?? {})
+  };
+}
+
+/**
+ * read a csv sidecar with a header row: file, answers, tags, year, source, artist, composer
+ * answers and tags hold several values separated by |, the first answer is the title
+ */
+export function parseCsvSidecar(text: string): Map<string, ImportEntry> {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return new Map();
+
+  const columns = header.map(h => h.trim().toLowerCase());
+  if (!columns.includes('file') || !columns.includes('answers')) {
+    throw new Error('csv sidecar needs a header row with at least file and answers columns');
+  }
+
+  const entries = new Map<string, ImportEntry>();
+  rows.forEach((row, index) => {
+    const value = (column: string) => row[columns.indexOf(column)]?.trim() || '';
+    const metadata: Record<string, string> = {};
+    for (const field of METADATA_FIELDS) {
+      if (columns.includes(field)) metadata[field] = value(field);
+    }
+
+    try {
+      entries.set(sidecarKey(value('file')), buildEntry({ answers: value('answers'), tags: value('tags'), year: value('year'), metadata }, '|'));
+    } catch (error) {
+      // +2 for the header and 1 based rows, matches what a spreadsheet shows
+      throw new Error(`csv row ${index + 2} (${value('file') || 'no file'}): ${(error as Error).message}`);
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * read a json sidecar, either a list of { file, answers, tags, year, metadata }
+ * or an object of the same keyed by file
+ */
+export function parseJsonSidecar(text: string): Map<string, ImportEntry> {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('json sidecar isnt valid json');
+  }
+
+  const items: [string, any][] = Array.isArray(raw)
+    ? raw.map(item => [`${item?.file ?? ''}`, item])
+    : Object.entries(raw ?? {});
+
+  const entries = new Map<string, ImportEntry>();
+  items.forEach(([file, item], index) => {
+    try {
+      if (!file) throw new Error('has no file');
+      if (!item || typeof item !== 'object') throw new Error('has to be an object');
+      entries.set(sidecarKey(file), buildEntry(item, ','));
+    } catch (error) {
+      throw new Error(`json entry ${index + 1} (${file || 'no file'}): ${(error as Error).message}`);
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * fall back to the files own id3/container tags: title, date or year, genre, album, artist, composer
+ */
+export function entryFromTags(tags: Record<string, string>): ImportEntry | null {
+  const tag = (...names: string[]) => names.map(name => tags[name]?.trim()).find(value => value) || '';
+  const title = tag('title');
+  if (!title) return null;
+
+  // dates come as 1998, 1998-04-03 or worse, a bad one just means no year
+  let year: number | null = null;
+  try {
+    year = parseYear(tag('date', 'year', 'originaldate').slice(0, 4));
+  } catch {
+    year = null;
+  }
+
+  const metadata: MediaMetadata = {};
+  const source = tag('album');
+  const artist = tag('artist', 'album_artist');
+  const composer = tag('composer');
+  if (source) metadata.source = source.slice(0, 200);
+  if (artist) metadata.artist = artist.slice(0, 200);
+  if (composer) metadata.composer = composer.slice(0, 200);
+
+  return {
+    answers: [title],
+    tags: parseTagList(tag('genre').replace(/[;/]/g, ',')),
+    year,
+    metadata
+  };
+}
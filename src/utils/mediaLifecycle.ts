@@ -0,0 +1,105 @@
+import fs from 'fs';
+import path from 'path';
+import { DatabaseManager } from '../database/databaseManager';
+
+// how long deleted media can be restored before the purge removes its files
+export const DEFAULT_RETENTION_DAYS = 30;
+
+export interface PurgeReport {
+  dryRun: boolean;
+  retentionDays: number;
+  purged: { id: number, title: string }[];
+  removedFiles: string[];
+  failed: { file: string, error: string }[];
+  orphans: string[];
+}
+
+/**
+ * MEDIA_RETENTION_DAYS, falling back to the default when unset or not a number
+ */
+export function getRetentionDays(): number {
+  const days = parseInt(process.env.MEDIA_RETENTION_DAYS || '', 10);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * files directly inside the dirs that no media row points at, subfolders like corrupt/ are left alone
+ */
+export function findOrphanedFiles(dirs: string[], referenced: string[]): string[] {
+  const known = new Set(referenced.map(file => path.resolve(file)));
+  const orphans: string[] = [];
+
+  for (const dir of dirs) {
+    if (!fs.existsSync(dir)) continue;
+    for (const item of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (!item.isFile() || item.name.startsWith('.')) continue;
+      const filePath = path.resolve(dir, item.name);
+      if (!known.has(filePath)) orphans.push(filePath);
+    }
+  }
+
+  return orphans.sort();
+}
+
+/**
+ * remove files once no media row points at them anymore, merged or re-imported media can share a file
+ * returns the files that were removed
+ */
+export async function removeUnreferencedFiles(files: (string | null | undefined)[]): Promise<string[]> {
+  const stillUsed = new Set((await DatabaseManager.getInstance().getMediaFiles())
+    .flatMap(m => [m.file_path, m.normalized_path])
+    .filter(Boolean)
+    .map(file => path.resolve(file!)));
+  const removed: string[] = [];
+
+  for (const file of new Set(files.filter(Boolean).map(f => path.resolve(f!)))) {
+    if (stillUsed.has(file) || !fs.existsSync(file)) continue;
+    try {
+      fs.rmSync(file, { force: true });
+      removed.push(file);
+    } catch (error) {
+      console.error(`couldnt remove ${file}:`, error);
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * drop media deleted longer ago than the retention period along with their files,
+ * then list files in the media dirs that nothing references anymore
+ */
+export async function purgeDeletedMedia(mediaDir: string, options: { retentionDays?: number, dryRun?: boolean } = {}): Promise<PurgeReport> {
+  const db = DatabaseManager.getInstance();
+  const retentionDays = options.retentionDays ?? getRetentionDays();
+  const dryRun = !!options.dryRun;
+  const report: PurgeReport = { dryRun, retentionDays, purged: [], removedFiles: [], failed: [], orphans: [] };
+
+  const expired = await db.getDeletedMedia(retentionDays);
+  const expiredIds = new Set(expired.map(m => m.id));
+
+  // merged or re-imported media can share a file, only remove what nobody else uses
+  const remaining = (await db.getMediaFiles()).filter(m => !expiredIds.has(m.id));
+  const stillUsed = new Set(remaining.flatMap(m => [m.file_path, m.normalized_path]).filter(Boolean).map(file => path.resolve(file!)));
+
+  for (const media of expired) {
+    if (!dryRun) await db.deleteMedia(media.id);
+    report.purged.push({ id: media.id, title: media.title });
+
+    for (const file of new Set([media.file_path, media.normalized_path].filter(Boolean).map((f: string) => path.resolve(f)))) {
+      if (stillUsed.has(file) || !fs.existsSync(file)) continue;
+      try {
+        if (!dryRun) fs.rmSync(file, { force: true });
+        report.removedFiles.push(file);
+      } catch (error) {
+        report.failed.push({ file, error: error instanceof Error ? error.message : `${error}` });
+      }
+    }
+  }
+
+  // in a dry run the expired files are still on disk but already counted above
+  const referenced = [...stillUsed, ...report.removedFiles];
+  report.orphans = findOrphanedFiles([mediaDir, path.join(mediaDir, 'normalized')], referenced);
+
+  return report;
+}
@@ -0,0 +1,101 @@
+import { MediaMetadata, MetadataField, METADATA_FIELDS } from './types';
+
+const MAX_METADATA_LENGTH = 200;
+const MIN_YEAR = 1000;
+
+function isMetadataField(key: string): key is MetadataField {
+  return (METADATA_FIELDS as readonly string[]).includes(key);
+}
+
+/**
+ * check metadata from json or a parsed object, throws with a user facing message if its invalid
+ */
+export function validateMetadata(input: unknown): MediaMetadata {
+  let value = input;
+  if (typeof value === 'string') {
+    if (!value.trim()) return {};
+    try {
+      value = JSON.parse(value);
+    } catch {
+      throw new Error('metadata has to be valid json');
+    }
+  }
+
+  if (value == null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('metadata has to be an object');
+  }
+
+  const metadata: MediaMetadata = {};
+  for (const [key, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (!isMetadataField(key)) {
+      throw new Error(`unknown metadata field "${key}", use ${METADATA_FIELDS.join(', ')}`);
+    }
+    if (raw == null || raw === '') continue;
+    if (typeof raw !== 'string') {
+      throw new Error(`metadata field "${key}" has to be text`);
+    }
+    if (raw.trim().length > MAX_METADATA_LENGTH) {
+      throw new Error(`metadata field "${key}" is too long (max ${MAX_METADATA_LENGTH} characters)`);
+    }
+    if (raw.trim()) metadata[key] = raw.trim();
+  }
+
+  return metadata;
+}
+
+/**
+ * parse "source: ...\nartist: ..." lines from a modal into metadata
+ */
+export function parseMetadataText(text: string): MediaMetadata {
+  const fields: Record<string, string> = {};
+
+  for (const line of text.split('\n').map(l => l.trim()).filter(l => l.length > 0)) {
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      throw new Error(`cant read metadata line "${line}", use "field: value"`);
+    }
+    fields[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1);
+  }
+
+  return validateMetadata(fields);
+}
+
+// old rows can hold anything, so broken metadata just reads as empty
+export function parseStoredMetadata(stored: string | null | undefined): MediaMetadata {
+  if (!stored) return {};
+  try {
+    return validateMetadata(stored);
+  } catch {
+    return {};
+  }
+}
+
+export function formatMetadata(metadata: MediaMetadata, separator: string = ' · '): string {
+  return METADATA_FIELDS
+    .filter(field => metadata[field])
+    .map(field => `${field}: ${metadata[field]}`)
+    .join(separator);
+}
+
+/**
+ * parse a release year, empty input means no year
+ */
+export function parseYear(input: string | number | null | undefined): number | null {
+  if (input == null) return null;
+  const text = `${input}`.trim();
+  if (!text) return null;
+
+  const maxYear = new Date().getFullYear() + 1;
+  const year = Number(text);
+  if (!/^\d{4}$/.test(text) || year < MIN_YEAR || year > maxYear) {
+    throw new Error(`year has to be a 4 digit year up to ${maxYear}`);
+  }
+  return year;
+}
+
+export function parseTagList(input: string | null | undefined): string[] {
+  if (!input) return [];
+  const tags = input.split(',').map(t => t.trim().toLowerCase()).filter(t => t.length > 0);
+  return [...new Set(tags)];
+}
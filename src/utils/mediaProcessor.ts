@@ -116,6 +116,38 @@ export class MediaProcessor {
     })
   }
 
+  /**
+   * embedded id3/container tags with lowercased names, empty if there are none
+   */
+  public async readTags(filePath: string): Promise<Record<string, string>> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error(`tag read timed out for: ${filePath}`))
+      }, 15000)
+
+      ffmpeg.ffprobe(filePath, (err, metadata) => {
+        clearTimeout(timeout)
+
+        if (err) {
+          reject(new Error(`failed to read tags: ${err.message}`))
+          return
+        }
+
+        // ogg/flac keep tags on the audio stream instead of the container
+        const rawTags = {
+          ...(metadata?.streams?.find(stream => stream.codec_type === 'audio')?.tags || {}),
+          ...(metadata?.format?.tags || {})
+        }
+
+        const tags: Record<string, string> = {}
+        for (const [name, value] of Object.entries(rawTags)) {
+          if (value != null && `${value}`.trim()) tags[name.toLowerCase()] = `${value}`
+        }
+        resolve(tags)
+      })
+    })
+  }
+
   public async normalizeAndConvert(inputPath: string, outputDir: string, mediaId?: number): Promise<{
     outputPath: string
     duration: number
@@ -0,0 +1,166 @@
+import {
+  REST,
+  Routes,
+  EmbedBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ActionRowBuilder,
+  ButtonInteraction,
+  PermissionFlagsBits
+} from 'discord.js';
+import fs from 'fs';
+import path from 'path';
+import { DatabaseManager } from '../database/databaseManager';
+import { parseStoredMetadata, formatMetadata } from './mediaMetadata';
+import { isDiscordUploader, formatUploader } from './uploaders';
+import { removeUnreferencedFiles } from './mediaLifecycle';
+
+// discord refuses bigger attachments on unboosted servers
+const PREVIEW_MAX_BYTES = 8 * 1024 * 1024;
+
+export class ModerationManager {
+  private static instance: ModerationManager;
+  private rest: REST | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ModerationManager {
+    if (!ModerationManager.instance) {
+      ModerationManager.instance = new ModerationManager();
+    }
+    return ModerationManager.instance;
+  }
+
+  // rest works from the web server too, which has no gateway client
+  private getRest(): REST {
+    if (!process.env.DISCORD_TOKEN) {
+      throw new Error('no DISCORD_TOKEN to post reviews with');
+    }
+    if (!this.rest) {
+      this.rest = new REST().setToken(process.env.DISCORD_TOKEN);
+    }
+    return this.rest;
+  }
+
+  /**
+   * where uploads from this server wait for review, UPLOAD_MOD_CHANNEL_ID covers everything else
+   * null means moderation is off and uploads go straight live
+   */
+  public async getReviewChannel(guildId?: string | null): Promise<string | null> {
+    const channelId = guildId ? await DatabaseManager.getInstance().getModChannel(guildId) : null;
+    return channelId || process.env.UPLOAD_MOD_CHANNEL_ID || null;
+  }
+
+  private async buildReviewEmbed(media: any): Promise<EmbedBuilder> {
+    const db = DatabaseManager.getInstance();
+    const answers = await db.getMediaAnswers(media.id);
+    const tags = await db.getMediaTags(media.id);
+
+    return new EmbedBuilder()
+      .setColor(0xFFA500)
+      .setTitle('upload waiting for review')
+      .setDescription(`**${media.title}** (#${media.id})`)
+      .addFields(
+        {
+          name: 'answers',
+          value: answers.map(a => `${a.is_primary ? '**' : ''}${a.answer}${a.is_primary ? '**' : ''}${a.answer_group ? ` (${a.answer_group})` : ''}`).join('\n').slice(0, 1024) || 'none'
+        },
+        { name: 'year', value: media.year ? `${media.year}` : 'none', inline: true },
+        { name: 'tags', value: tags.length > 0 ? tags.join(', ').slice(0, 1024) : 'none', inline: true },
+        { name: 'metadata', value: formatMetadata(parseStoredMetadata(media.metadata), '\n') || 'none' },
+        { name: 'uploaded by', value: media.uploaded_by ? formatUploader(media.uploaded_by) : 'web upload', inline: true }
+      );
+  }
+
+  /**
+   * post a pending upload to the mod channel with a preview and approve/reject/edit buttons
+   */
+  public async submitForReview(mediaId: number, channelId: string, note?: string | null): Promise<void> {
+    const [media] = await DatabaseManager.getInstance().getMediaById(mediaId);
+    if (!media) throw new Error(`media #${mediaId} not found`);
+
+    const embed = await this.buildReviewEmbed(media);
+    if (note) {
+      embed.addFields({ name: '⚠️ heads up', value: note.slice(0, 1024) });
+    }
+
+    const buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder().setCustomId(`mod_approve_${mediaId}`).setLabel('approve').setStyle(ButtonStyle.Success),
+      new ButtonBuilder().setCustomId(`mod_reject_${mediaId}`).setLabel('reject').setStyle(ButtonStyle.Danger),
+      new ButtonBuilder().setCustomId(`edit_answers_${mediaId}`).setLabel('edit answers').setStyle(ButtonStyle.Secondary)
+    );
+
+    // attach the normalized file so mods can listen without joining voice
+    const previewPath = [media.normalized_path, media.file_path].find(p => p && fs.existsSync(p));
+    const files = previewPath && fs.statSync(previewPath).size <= PREVIEW_MAX_BYTES
+      ? [{ name: `preview_${mediaId}${path.extname(previewPath)}`, data: fs.readFileSync(previewPath) }]
+      : [];
+    if (files.length === 0) {
+      embed.setFooter({ text: `too big to preview here, try /otoqplay id:${mediaId}` });
+    }
+
+    await this.getRest().post(Routes.channelMessages(channelId), {
+      body: { embeds: [embed.toJSON()], components: [buttons.toJSON()] },
+      files
+    });
+  }
+
+  // dm the uploader, they might have dms closed so failures are only logged
+  private async notifyUploader(userId: string | null, content: string): Promise<void> {
+    if (!isDiscordUploader(userId)) return;
+    try {
+      const rest = this.getRest();
+      const channel = await rest.post(Routes.userChannels(), { body: { recipient_id: userId } }) as { id: string };
+      await rest.post(Routes.channelMessages(channel.id), { body: { content } });
+    } catch (error) {
+      console.error(`couldnt notify uploader ${userId}:`, error);
+    }
+  }
+
+  /**
+   * mod_approve_<id> and mod_reject_<id> buttons on review posts
+   */
+  public async handleButton(interaction: ButtonInteraction): Promise<void> {
+    if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageMessages)) {
+      await interaction.reply({ content: 'only mods can review uploads (￢_￢)', ephemeral: true });
+      return;
+    }
+
+    const [, action, id] = interaction.customId.split('_');
+    const mediaId = parseInt(id);
+    const db = DatabaseManager.getInstance();
+    const [media] = await db.getMediaById(mediaId);
+
+    if (!media || media.status !== 'pending') {
+      await interaction.update({ components: [] });
+      await interaction.followUp({ content: 'someone already handled this one (￣ー￣;)', ephemeral: true });
+      return;
+    }
+
+    const embed = EmbedBuilder.from(interaction.message.embeds[0]);
+
+    if (action === 'approve') {
+      // only flip it if nobody beat us to it
+      if (!await db.setMediaStatus(mediaId, 'approved', 'pending')) {
+        await interaction.update({ components: [] });
+        return;
+      }
+
+      embed.setColor(0x00FF00).setTitle('upload approved').setFooter({ text: `approved by ${interaction.user.username}` });
+      await interaction.update({ embeds: [embed], components: [] });
+      await this.notifyUploader(media.uploaded_by, `your upload **${media.title}** was approved and is in the quiz now ヽ(・∀・)ﾉ`);
+    } else if (action === 'reject') {
+      // same as approve, take it out of pending first so an approve that got in between wins
+      if (!await db.setMediaStatus(mediaId, 'disabled', 'pending')) {
+        await interaction.update({ components: [] });
+        return;
+      }
+      await db.deleteMedia(mediaId);
+      await removeUnreferencedFiles([media.file_path, media.normalized_path]);
+
+      embed.setColor(0xFF0000).setTitle('upload rejected').setFooter({ text: `rejected by ${interaction.user.username}` });
+      await interaction.update({ embeds: [embed], components: [] });
+      await this.notifyUploader(media.uploaded_by, `your upload **${media.title}** was rejected by the mods (´・ω・\`)`);
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import {
+  EmbedBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ActionRowBuilder,
+  ButtonInteraction,
+  ModalSubmitInteraction,
+  PermissionFlagsBits,
+  InteractionUpdateOptions
+} from 'discord.js';
+import { DatabaseManager } from '../database/databaseManager';
+import { buildAnswersModal, saveAnswers } from './answerEditor';
+import { ReportReason, MediaReportSummary } from './types';
+
+export const REPORT_REASONS: Record<ReportReason, string> = {
+  'wrong-answer': 'wrong answer',
+  'bad-audio': 'bad audio',
+  'offensive': 'offensive',
+  'duplicate': 'duplicate'
+};
+
+// one action row per media, discord allows five
+const REVIEW_PAGE_SIZE = 5;
+
+/**
+ * report button that goes next to edit answers on a round reveal
+ */
+export function buildReportButton(mediaId: number): ButtonBuilder {
+  return new ButtonBuilder()
+    .setCustomId(`report_open_${mediaId}`)
+    .setLabel('report')
+    .setStyle(ButtonStyle.Secondary)
+    .setEmoji('🚩');
+}
+
+export function formatReasons(reasons: MediaReportSummary['reasons']): string {
+  return (Object.entries(reasons) as [ReportReason, number][])
+    .sort((a, b) => b[1] - a[1])
+    .map(([reason, count]) => `${count}× ${REPORT_REASONS[reason] || reason}`)
+    .join(', ');
+}
+
+function isReportReason(reason: string | undefined): reason is ReportReason {
+  return !!reason && reason in REPORT_REASONS;
+}
+
+export class ReportManager {
+  private static instance: ReportManager;
+
+  private constructor() {}
+
+  public static getInstance(): ReportManager {
+    if (!ReportManager.instance) {
+      ReportManager.instance = new ReportManager();
+    }
+    return ReportManager.instance;
+  }
+
+  /**
+   * the guilds most reported media with fix, disable and dismiss buttons each, note goes above the list
+   */
+  public async buildReviewList(guildId: string, note?: string): Promise<InteractionUpdateOptions> {
+    const db = DatabaseManager.getInstance();
+    const reports = await db.getOpenReports(guildId, REVIEW_PAGE_SIZE);
+    const total = await db.countOpenReports(guildId);
+
+    const embeds: EmbedBuilder[] = [];
+    const components: ActionRowBuilder<ButtonBuilder>[] = [];
+
+    for (const report of reports) {
+      const answers = await db.getMediaAnswers(report.mediaId);
+      // sqlite timestamps are utc without a zone
+      const reportedAt = Math.floor(new Date(`${report.firstReportedAt.replace(' ', 'T')}Z`).getTime() / 1000);
+
+      embeds.push(new EmbedBuilder()
+        .setColor(report.mediaStatus === 'disabled' ? 0x808080 : 0xFFA500)
+        .setTitle(`#${report.mediaId} ${report.title}`.slice(0, 256))
+        .setDescription(`${formatReasons(report.reasons)}, first reported <t:${reportedAt}:R>` +
+          `${report.mediaStatus !== 'approved' ? `\nmedia is ${report.mediaStatus}` : ''}`)
+        .addFields({
+          name: 'answers',
+          value: answers.map(a => `${a.is_primary ? '**' : ''}${a.answer}${a.is_primary ? '**' : ''}${a.answer_group ? ` (${a.answer_group})` : ''}`).join('\n').slice(0, 1024) || 'none'
+        }));
+
+      components.push(new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder().setCustomId(`report_fix_${report.mediaId}`).setLabel(`fix answers #${report.mediaId}`).setStyle(ButtonStyle.Primary),
+        new ButtonBuilder().setCustomId(`report_disable_${report.mediaId}`).setLabel('disable media').setStyle(ButtonStyle.Danger),
+        new ButtonBuilder().setCustomId(`report_dismiss_${report.mediaId}`).setLabel('dismiss').setStyle(ButtonStyle.Secondary)
+      ));
+    }
+
+    const summary = total === 0
+      ? 'no open reports ヽ(・∀・)ﾉ'
+      : `${total} media with open reports${total > reports.length ? `, showing the top ${reports.length}` : ''}`;
+
+    return { content: note ? `${note}\n${summary}` : summary, embeds, components };
+  }
+
+  private isReviewer(interaction: ButtonInteraction | ModalSubmitInteraction): boolean {
+    return !!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild);
+  }
+
+  /**
+   * report_open_<id> and report_reason_<id>_<reason> from reveals,
+   * report_fix_<id>, report_disable_<id> and report_dismiss_<id> from the review list
+   */
+  public async handleButton(interaction: ButtonInteraction): Promise<void> {
+    const [, action, id, reason] = interaction.customId.split('_');
+    const mediaId = parseInt(id);
+    const db = DatabaseManager.getInstance();
+
+    if (action === 'open') {
+      const [media] = await db.getMediaById(mediaId);
+      if (!media) {
+        await interaction.reply({ content: 'media not found (￣ヘ￣)', ephemeral: true });
+        return;
+      }
+
+      const reasons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        (Object.entries(REPORT_REASONS) as [ReportReason, string][]).map(([key, label]) =>
+          new ButtonBuilder().setCustomId(`report_reason_${mediaId}_${key}`).setLabel(label).setStyle(ButtonStyle.Secondary))
+      );
+      await interaction.reply({ content: `whats wrong with **${media.title}** (#${mediaId})?`, components: [reasons], ephemeral: true });
+      return;
+    }
+
+    if (action === 'reason') {
+      if (!isReportReason(reason)) {
+        await interaction.reply({ content: 'invalid button id ಠ_ಠ', ephemeral: true });
+        return;
+      }
+
+      const added = await db.addReport(mediaId, interaction.user.id, interaction.guildId, reason);
+      await interaction.update({
+        content: added
+          ? `thanks, reported #${mediaId} as ${REPORT_REASONS[reason]}, the mods will take a look (｀・ω・´)ゞ`
+          : `you already reported #${mediaId}, hang tight (￣ー￣;)`,
+        components: []
+      });
+      return;
+    }
+
+    const guildId = interaction.guildId;
+    if (!guildId || !this.isReviewer(interaction)) {
+      await interaction.reply({ content: 'you need manage server to review reports (￢_￢)', ephemeral: true });
+      return;
+    }
+
+    // reviewers only act on media reported in their own server
+    if (!await db.hasOpenReports(mediaId, guildId)) {
+      await interaction.update(await this.buildReviewList(guildId, `#${mediaId} has no open reports here anymore`));
+      return;
+    }
+
+    if (action === 'fix') {
+      const modal = await buildAnswersModal(mediaId, `report_fixmodal_${mediaId}`);
+      if (!modal) {
+        await db.resolveReports(mediaId, guildId, 'dismissed', interaction.user.id);
+        await interaction.update(await this.buildReviewList(guildId, `#${mediaId} is gone, closed its reports`));
+        return;
+      }
+      await interaction.showModal(modal);
+    } else if (action === 'disable') {
+      await db.setMediaStatus(mediaId, 'disabled');
+      const closed = await db.resolveReports(mediaId, guildId, 'disabled', interaction.user.id);
+      await interaction.update(await this.buildReviewList(guildId, `disabled #${mediaId} and closed ${closed} report${closed === 1 ? '' : 's'} (￣ー￣)ゞ`));
+    } else if (action === 'dismiss') {
+      const closed = await db.resolveReports(mediaId, guildId, 'dismissed', interaction.user.id);
+      await interaction.update(await this.buildReviewList(guildId, `dismissed ${closed} report${closed === 1 ? '' : 's'} on #${mediaId}`));
+    }
+  }
+
+  /**
+   * report_fixmodal_<id>, saves the answers and closes the reports as fixed
+   */
+  public async handleModal(interaction: ModalSubmitInteraction): Promise<void> {
+    const mediaId = parseInt(interaction.customId.split('_').pop() || '0');
+    const guildId = interaction.guildId;
+    if (!mediaId || !guildId || !this.isReviewer(interaction)) {
+      await interaction.reply({ content: 'you need manage server to review reports (￢_￢)', ephemeral: true });
+      return;
+    }
+
+    const db = DatabaseManager.getInstance();
+    if (!await db.hasOpenReports(mediaId, guildId)) {
+      await interaction.reply({ content: `#${mediaId} has no open reports here anymore (￣ヘ￣)`, ephemeral: true });
+      return;
+    }
+
+    if (!await saveAnswers(mediaId, interaction.fields.getTextInputValue('answers'))) {
+      await interaction.reply({ content: 'no answers provided! need at least one ヽ(｀⌒´)ﾉ', ephemeral: true });
+      return;
+    }
+
+    const closed = await db.resolveReports(mediaId, guildId, 'fixed', interaction.user.id);
+    const note = `updated answers for #${mediaId} and closed ${closed} report${closed === 1 ? '' : 's'} (￣ー￣)ｂ`;
+
+    // refresh the review list the modal was opened from
+    if (interaction.isFromMessage()) {
+      await interaction.update(await this.buildReviewList(guildId, note));
+    } else {
+      await interaction.reply({ content: note, ephemeral: true });
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { EmbedBuilder } from 'discord.js';
+import { DatabaseManager } from '../database/databaseManager';
+
+export interface SeasonSummary {
+  guildId: string;
+  season: number;
+  startedAt: string | null;
+  players: number;
+  podium: any[];
+  channelId: string | null;
+}
+
+const PODIUM_MEDALS = ['🥇', '🥈', '🥉'];
+
+export class SeasonManager {
+  private static instance: SeasonManager;
+  private db: DatabaseManager;
+
+  private constructor() {
+    this.db = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): SeasonManager {
+    if (!SeasonManager.instance) {
+      SeasonManager.instance = new SeasonManager();
+    }
+    return SeasonManager.instance;
+  }
+
+  /**
+   * end the current season in every guild that played during it
+   */
+  public async rolloverAll(): Promise<SeasonSummary[]> {
+    const summaries: SeasonSummary[] = [];
+
+    for (const guildId of await this.db.getGuildsWithSeasonStats()) {
+      try {
+        const archived = await this.db.archiveSeason(guildId);
+        const channelId = await this.db.getSeasonChannel(guildId);
+        summaries.push({ guildId, channelId, ...archived });
+      } catch (err) {
+        // one broken guild shouldnt hold up everyone elses rollover
+        console.error(`season rollover failed for guild ${guildId}:`, err);
+      }
+    }
+
+    return summaries;
+  }
+
+  public formatPodium(podium: any[]): string {
+    if (podium.length === 0) return 'nobody scored (￣へ￣)';
+
+    return podium.map((row, i) =>
+      `${PODIUM_MEDALS[i] || `#${i + 1}`} ${row.username || `<@${row.user_id}>`} - ${row.correct_answers} correct, ${row.games_won} wins`
+    ).join('\n');
+  }
+
+  public buildSummaryEmbed(summary: SeasonSummary): EmbedBuilder {
+    return new EmbedBuilder()
+      .setColor(0xFFD700)
+      .setTitle(`season ${summary.season} is over!`)
+      .setDescription(this.formatPodium(summary.podium))
+      .addFields(
+        { name: 'players', value: `${summary.players}`, inline: true },
+        { name: 'started', value: summary.startedAt || 'the beginning of time', inline: true }
+      )
+      .setFooter({ text: `season ${summary.season + 1} starts now, scores are reset (ง •̀_•́)ง` });
+  }
+}
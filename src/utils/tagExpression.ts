@@ -0,0 +1,194 @@
+import { TagExpression } from './types';
+
+const MAX_TAGS = 20;
+const MAX_LENGTH = 500;
+const MAX_DEPTH = 10; // nested ! and ( ), every level is another level of sql
+const OPERATOR_CHARS = '()&|,!';
+
+// syntax errors people can fix, safe to show them as is
+export class TagExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TagExpressionError';
+  }
+}
+
+interface Token {
+  type: '(' | ')' | '&' | '|' | '!' | 'tag';
+  value: string;
+  position: number;
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (OPERATOR_CHARS.includes(char)) {
+      // a comma is the old "has all of these" separator
+      const type = char === ',' ? '&' : char as Token['type'];
+      tokens.push({ type, value: char, position: i + 1 });
+      i++;
+      continue;
+    }
+
+    // a leading dash negates, dashes inside a name like j-pop are kept
+    const previous = tokens[tokens.length - 1];
+    if (char === '-' && (!previous || previous.type !== 'tag')) {
+      tokens.push({ type: '!', value: char, position: i + 1 });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    while (i < input.length && !OPERATOR_CHARS.includes(input[i])) i++;
+    tokens.push({ type: 'tag', value: input.slice(start, i).trim().toLowerCase(), position: start + 1 });
+  }
+
+  return tokens;
+}
+
+/**
+ * parse a tag filter like "anime & !op", "(ps1 | ps2) & rpg" or "-christmas"
+ * ! and - negate, & and , mean and, | means or
+ */
+export function parseTagExpression(input: string): TagExpression {
+  if (input.length > MAX_LENGTH) {
+    throw new TagExpressionError(`a tag filter can be at most ${MAX_LENGTH} characters`);
+  }
+
+  const tokens = tokenize(input);
+  let index = 0;
+  let tagCount = 0;
+  let depth = 0;
+
+  if (tokens.length === 0) {
+    throw new TagExpressionError('the tag filter is empty');
+  }
+
+  const peek = () => tokens[index];
+  const describe = (token?: Token) => token ? `"${token.value}" at position ${token.position}` : 'the end';
+
+  const nested = (parse: () => TagExpression): TagExpression => {
+    if (++depth > MAX_DEPTH) {
+      throw new TagExpressionError(`a tag filter can nest ! and ( ) at most ${MAX_DEPTH} deep`);
+    }
+    const expr = parse();
+    depth--;
+    return expr;
+  };
+
+  const parseTerm = (): TagExpression => {
+    const token = peek();
+
+    if (!token) {
+      throw new TagExpressionError('expected a tag at the end of the filter');
+    }
+
+    if (token.type === '!') {
+      index++;
+      return { type: 'not', expr: nested(parseTerm) };
+    }
+
+    if (token.type === '(') {
+      index++;
+      const expr = nested(parseOr);
+      if (peek()?.type !== ')') {
+        throw new TagExpressionError(`missing ")" for the "(" at position ${token.position}`);
+      }
+      index++;
+      return expr;
+    }
+
+    if (token.type === 'tag') {
+      index++;
+      if (++tagCount > MAX_TAGS) {
+        throw new TagExpressionError(`a tag filter can use at most ${MAX_TAGS} tags`);
+      }
+      return { type: 'tag', name: token.value };
+    }
+
+    throw new TagExpressionError(`expected a tag but found ${describe(token)}`);
+  };
+
+  const parseAnd = (): TagExpression => {
+    let left = parseTerm();
+    while (peek()?.type === '&') {
+      index++;
+      left = { type: 'and', left, right: parseTerm() };
+    }
+    return left;
+  };
+
+  const parseOr = (): TagExpression => {
+    let left = parseAnd();
+    while (peek()?.type === '|') {
+      index++;
+      left = { type: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const expr = parseOr();
+  if (index < tokens.length) {
+    throw new TagExpressionError(`unexpected ${describe(peek())}, missing an & or |?`);
+  }
+
+  return expr;
+}
+
+/**
+ * media has to have every one of these tags, what plain tag lists always meant
+ */
+export function allTags(tags: string[]): TagExpression {
+  return tags
+    .map((name): TagExpression => ({ type: 'tag', name: name.trim().toLowerCase() }))
+    .reduce((left, right) => ({ type: 'and', left, right }));
+}
+
+/**
+ * turn an expression into a where clause, tag names only ever go in as params
+ */
+export function compileTagExpression(expr: TagExpression, mediaIdColumn: string = 'm.id'): { sql: string, params: string[] } {
+  switch (expr.type) {
+    case 'tag':
+      return {
+        sql: `EXISTS (SELECT 1 FROM media_tags xt JOIN tags x ON x.id = xt.tag_id WHERE xt.media_id = ${mediaIdColumn} AND x.name = ?)`,
+        params: [expr.name]
+      };
+    case 'not': {
+      const inner = compileTagExpression(expr.expr, mediaIdColumn);
+      return { sql: `NOT ${inner.sql}`, params: inner.params };
+    }
+    default: {
+      const left = compileTagExpression(expr.left, mediaIdColumn);
+      const right = compileTagExpression(expr.right, mediaIdColumn);
+      return {
+        sql: `(${left.sql} ${expr.type === 'and' ? 'AND' : 'OR'} ${right.sql})`,
+        params: [...left.params, ...right.params]
+      };
+    }
+  }
+}
+
+// readable version for embeds, brackets only where they matter
+export function formatTagExpression(expr: TagExpression, parent?: TagExpression['type']): string {
+  switch (expr.type) {
+    case 'tag':
+      return expr.name;
+    case 'not':
+      return `!${formatTagExpression(expr.expr, 'not')}`;
+    default: {
+      const text = `${formatTagExpression(expr.left, expr.type)} ${expr.type === 'and' ? '&' : '|'} ${formatTagExpression(expr.right, expr.type)}`;
+      const needsBrackets = parent === 'not' || (parent === 'and' && expr.type === 'or');
+      return needsBrackets ? `(${text})` : text;
+    }
+  }
+}
@@ -1,7 +1,160 @@
+export type TeamName = 'red' | 'blue';
+
 export interface Player {
   id: string;
   username: string;
   score: number;
+  team?: TeamName;
+}
+
+// what a single game adds to a player's per-guild stats
+export interface PlayerGameStats {
+  correct: number;
+  answerTimeMs: number; // total over timedAnswers
+  timedAnswers: number;
+  won: boolean;
+}
+
+export interface TeamScore {
+  team: TeamName;
+  score: number;
+  players: Player[];
+  mvp: Player | null;
+}
+
+export type ScoringMode = 'flat' | 'speed';
+
+export type GameMode = 'normal' | 'choice' | 'year';
+
+export type Difficulty = 'easy' | 'normal' | 'hard' | 'mixed';
+
+export interface GameOptions {
+  teams?: boolean;
+  scoring?: ScoringMode;
+  mode?: GameMode;
+  difficulty?: Difficulty;
+  packId?: number;
+  ordered?: boolean;
+}
+
+// what a quiz pack saves instead of a media list
+export interface PackFilter {
+  tagFilter?: string;
+  yearStart?: number;
+  yearEnd?: number;
+  difficulty?: Difficulty;
+}
+
+export interface LockedChoice {
+  userId: string;
+  username: string;
+  mediaId: number;
+  answerTimeMs: number;
+}
+
+export interface ChoiceTally {
+  mediaId: number;
+  title: string;
+  correct: boolean;
+  voters: LockedChoice[];
+}
+
+export type ChoiceLockResult = 'locked' | 'already-locked' | 'invalid' | 'stale' | 'no-game';
+
+export interface YearGuess {
+  userId: string;
+  username: string;
+  year: number;
+  answerTimeMs: number;
+}
+
+export interface YearTally extends YearGuess {
+  error: number;
+  points: number;
+}
+
+// parsed /otoq tags filter, e.g. (ps1 | ps2) & rpg & !christmas
+export type TagExpression =
+  | { type: 'tag', name: string }
+  | { type: 'not', expr: TagExpression }
+  | { type: 'and' | 'or', left: TagExpression, right: TagExpression };
+
+export interface MediaFilters {
+  requireYear?: boolean;
+  tags?: TagExpression;
+  difficulty?: Difficulty;
+  excludeIds?: number[];
+  ids?: number[];
+  includePending?: boolean;
+}
+
+// disabled media is kept but never played, e.g. everything from a spammer
+export type MediaStatus = 'pending' | 'approved' | 'disabled';
+
+// a stretch of a media worth playing, in seconds, stored as json in media.clip_regions
+export interface ClipRegion {
+  start: number;
+  end: number;
+}
+
+// where a media row came from
+export type UploadSource = 'discord' | 'web' | 'import' | 'archive';
+
+export type ReportReason = 'wrong-answer' | 'bad-audio' | 'offensive' | 'duplicate';
+
+// open until someone fixes the answers, disables the media or dismisses it
+export type ReportStatus = 'open' | 'fixed' | 'disabled' | 'dismissed';
+
+export interface MediaReportSummary {
+  mediaId: number;
+  title: string;
+  mediaStatus: MediaStatus;
+  reports: number;
+  reasons: Partial<Record<ReportReason, number>>;
+  firstReportedAt: string;
+}
+
+export interface UploaderStats {
+  uploadedBy: string;
+  uploads: number;
+  live: number;
+  pending: number;
+  disabled: number;
+  plays: number;
+  correctRate: number;
+}
+
+export const METADATA_FIELDS = ['source', 'artist', 'composer'] as const;
+
+export type MetadataField = typeof METADATA_FIELDS[number];
+
+// stored as json in media.metadata
+export type MediaMetadata = Partial<Record<MetadataField, string>>;
+
+// answers without a group belong to the plain title part
+export const DEFAULT_ANSWER_PART = 'title';
+
+export interface AnswerCheck {
+  correct: boolean;
+  close: boolean;
+  part?: string;
+}
+
+export interface GuessResult extends AnswerCheck {
+  points?: number;
+  answerTimeMs?: number;
+  remainingParts?: string[];
+  roundComplete?: boolean;
+  year?: number;
+}
+
+export interface RoundOutcome {
+  guessedBy?: string;
+  guessCount: number;
+  skipped?: boolean;
+  timedOut?: boolean;
+  points?: number;
+  answerTimeMs?: number;
 }
 
 export interface CommandParams {
@@ -12,4 +165,4 @@ interface TypeDefinition {
   types: CommandParams
 }
 
-export type { TypeDefinition }
\ No newline at end of file
+export type { TypeDefinition }
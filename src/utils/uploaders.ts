@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+
+// media.uploaded_by is a discord user id, or web:<name> for the web uploader
+const DISCORD_ID_PATTERN = /^\d{17,20}$/;
+const WEB_PREFIX = 'web:';
+const WEB_NAME_MAX_LENGTH = 32;
+const ANONYMOUS = 'anonymous';
+
+export function isDiscordUploader(uploadedBy: string | null | undefined): boolean {
+  return !!uploadedBy && DISCORD_ID_PATTERN.test(uploadedBy);
+}
+
+/**
+ * the web uploader has no login, so it is whatever name the form sent. without one it is anonymous,
+ * or anonymous-<hash of the ip> when WEB_UPLOADER_SALT is set so one persons uploads still group.
+ * the raw ip is never stored, uploaders show up in reveals to everyone.
+ * always prefixed so nobody can claim a discord users uploads from the web
+ */
+export function webUploader(name: unknown, ip?: string | null, salt: string | undefined = process.env.WEB_UPLOADER_SALT): string {
+  const cleaned = typeof name === 'string'
+    ? name.replace(/\s+/g, ' ').trim().toLowerCase().slice(0, WEB_NAME_MAX_LENGTH)
+    : '';
+  if (cleaned) return `${WEB_PREFIX}${cleaned}`;
+
+  const address = ip?.replace(/^::ffff:/, '');
+  if (!salt || !address) return `${WEB_PREFIX}${ANONYMOUS}`;
+  const hash = crypto.createHash('sha256').update(`${salt}:${address}`).digest('hex').slice(0, 8);
+  return `${WEB_PREFIX}${ANONYMOUS}-${hash}`;
+}
+
+/**
+ * mention for discord uploaders, the name for web ones
+ */
+export function formatUploader(uploadedBy: string | null | undefined): string {
+  if (!uploadedBy) return 'unknown';
+  if (isDiscordUploader(uploadedBy)) return `<@${uploadedBy}>`;
+  if (uploadedBy.startsWith(WEB_PREFIX)) return `${uploadedBy.slice(WEB_PREFIX.length)} (web)`;
+  return uploadedBy;
+}
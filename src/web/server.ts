@@ -1,11 +1,21 @@
 import express from 'express';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
 import fileUpload from 'express-fileupload';
 import cors from 'cors';
 import { DatabaseManager } from '../database/databaseManager';
 import { AudioPlayerManager } from '../utils/audioPlayerManager';
 import { MediaProcessor } from '../utils/mediaProcessor';
+import { validateMetadata, parseYear, parseTagList } from '../utils/mediaMetadata';
+import { MediaArchive, ArchiveError } from '../utils/mediaArchive';
+import { FingerprintManager, describeDuplicates, DuplicateMatch } from '../utils/audioFingerprint';
+import { EnergyAnalyzer } from '../utils/energyAnalysis';
+import { ModerationManager } from '../utils/moderationManager';
+import { webUploader } from '../utils/uploaders';
+import { TagExpressionError } from '../utils/tagExpression';
+import { MediaMetadata, ClipRegion } from '../utils/types';
+import { parseRegionList } from '../utils/clipRegions';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -98,6 +108,20 @@ app.post('/upload', (req: any, res: any) => {
       return res.status(400).json({ error: 'you need to provide at least one answer (￣ヘ￣)' })
     }
     
+    // metadata comes in as a json string since the form is multipart
+    let year: number | null
+    let metadata: MediaMetadata
+    let regions: ClipRegion[]
+    try {
+      year = parseYear(req.body.year)
+      metadata = validateMetadata(req.body.metadata)
+      regions = parseRegionList(req.body.regions)
+    } catch (error) {
+      return res.status(400).json({ error: `${(error as Error).message} (￣ヘ￣)` })
+    }
+    const tags = parseTagList(req.body.tags)
+    const uploadedBy = webUploader(req.body.uploader, req.ip)
+    
     // move file to media directory
     const fileName = `${Date.now()}_${mediaFile.name}`
     const filePath = path.join(MEDIA_DIR, fileName)
@@ -122,9 +146,23 @@ app.post('/upload', (req: any, res: any) => {
         const mediaProcessor = MediaProcessor.getInstance()
         const result = await mediaProcessor.normalizeAndConvert(filePath, normalizedDir)
         
+        // web uploads wait for review when UPLOAD_MOD_CHANNEL_ID is set
+        const moderation = ModerationManager.getInstance()
+        const reviewChannel = await moderation.getReviewChannel()
+        
         // add to database
         const db = DatabaseManager.getInstance()
-        const mediaId = await db.addMedia(title, filePath)
+        const mediaId = await db.addMedia(
+          title,
+          filePath,
+          year ?? undefined,
+          Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : undefined,
+          { uploadedBy, source: 'web', status: reviewChannel ? 'pending' : 'approved' }
+        )
+        await db.tagMedia(mediaId, tags)
+        if (regions.length > 0) {
+          await db.setClipRegions(mediaId, regions)
+        }
         
         // update normalized path in database
         await db.updateNormalizedPath(mediaId, result.outputPath)
@@ -141,11 +179,44 @@ app.post('/upload', (req: any, res: any) => {
           await db.addAlternativeAnswer(mediaId, alt)
         }
         
+        // a failed fingerprint shouldnt fail the upload
+        let duplicates: DuplicateMatch[] = []
+        try {
+          duplicates = await FingerprintManager.getInstance().fingerprintMedia(mediaId, result.outputPath)
+        } catch (error) {
+          console.error(`couldnt fingerprint media #${mediaId}:`, error)
+        }
+        
+        // clips come from the loud parts, without the analysis they are just random
+        try {
+          await EnergyAnalyzer.getInstance().analyzeMedia(mediaId, result.outputPath)
+        } catch (error) {
+          console.error(`couldnt analyse media #${mediaId}:`, error)
+        }
+        const duplicateWarning = describeDuplicates(duplicates)
+        
+        if (reviewChannel) {
+          try {
+            await moderation.submitForReview(mediaId, reviewChannel, duplicateWarning)
+          } catch (error) {
+            console.error(`couldnt post media #${mediaId} for review:`, error)
+          }
+        }
+        
         res.json({ 
           success: true,
           mediaId,
           title,
-          message: `added ${title} (ID: ${mediaId}) to quiz db (⌐■_■)`
+          year,
+          tags,
+          metadata,
+          regions,
+          duplicates,
+          pending: !!reviewChannel,
+          warning: duplicateWarning ? `${duplicateWarning}, merge it with /otoqdupes if its the same thing` : undefined,
+          message: reviewChannel
+            ? `uploaded ${title} (ID: ${mediaId}), it goes live once a mod approves it (￣ー￣)ゞ`
+            : `added ${title} (ID: ${mediaId}) to quiz db (⌐■_■)`
         })
       } catch (error) {
         // cleanup file on error
@@ -165,6 +236,87 @@ app.post('/upload', (req: any, res: any) => {
   }
 })
 
+// archive export and import read and write the whole library, so they need WEB_ADMIN_TOKEN as a bearer token
+// and stay off entirely while it isnt set
+function requireAdmin(req: any, res: any, next: any) {
+  const token = process.env.WEB_ADMIN_TOKEN
+  if (!token) {
+    return res.status(403).json({ error: 'archive endpoints are off, set WEB_ADMIN_TOKEN to use them (￣ヘ￣)' })
+  }
+
+  const given = Buffer.from(`${req.get('authorization') || ''}`.replace(/^Bearer\s+/i, ''))
+  const expected = Buffer.from(token)
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    return res.status(401).json({ error: 'wrong or missing admin token (ノಠ益ಠ)ノ彡┻━┻' })
+  }
+  next()
+}
+
+// download a subset as an archive, e.g. /export?tags=anime%20%26%20!op&yearStart=2000&ids=1,2
+app.get('/export', requireAdmin, async (req: any, res: any) => {
+  const ids = req.query.ids ? `${req.query.ids}`.split(',').map((id: string) => parseInt(id.trim(), 10)) : undefined
+  if (ids?.some((id: number) => isNaN(id))) {
+    return res.status(400).json({ error: 'ids should be a comma separated list of numbers (￣ヘ￣)' })
+  }
+
+  const format = req.query.format === 'zip' ? 'zip' : 'tar.gz'
+  const outputPath = path.join(process.cwd(), 'temp', `otoq-export-${Date.now()}.${format}`)
+
+  try {
+    await MediaArchive.getInstance().exportMedia({
+      ids,
+      tags: req.query.tags || undefined,
+      yearStart: parseInt(req.query.yearStart, 10) || undefined,
+      yearEnd: parseInt(req.query.yearEnd, 10) || undefined
+    }, outputPath)
+
+    res.download(outputPath, path.basename(outputPath), () => {
+      fs.rm(outputPath, { force: true }, () => {})
+    })
+  } catch (error) {
+    if (error instanceof ArchiveError || error instanceof TagExpressionError) {
+      return res.status(400).json({ error: `${error.message} (￣ヘ￣)` })
+    }
+    console.error('export error:', error)
+    res.status(500).json({ error: 'failed to export media (╯°□°）╯︵ ┻━┻' })
+  }
+})
+
+// import an exported archive, dryRun=true only reports what would happen
+app.post('/import', requireAdmin, async (req: any, res: any) => {
+  if (!req.files || !req.files.archive) {
+    return res.status(400).json({ error: 'no archive uploaded (ノಠ益ಠ)ノ彡┻━┻' })
+  }
+
+  const archiveFile = req.files.archive
+  try {
+    const report = await MediaArchive.getInstance().importArchive(archiveFile.tempFilePath, {
+      dryRun: req.body.dryRun === 'true' || req.body.dryRun === true
+    })
+    res.json({ success: true, report })
+  } catch (error) {
+    if (error instanceof ArchiveError) {
+      return res.status(400).json({ error: `${error.message} (￣ヘ￣)` })
+    }
+    console.error('import error:', error)
+    res.status(500).json({ error: 'failed to import archive (╯°□°）╯︵ ┻━┻' })
+  } finally {
+    fs.rm(archiveFile.tempFilePath, { force: true }, () => {})
+  }
+})
+
+// rating progression for charts
+app.get('/ratings/:userId', async (req: any, res: any) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit || '100', 10) || 100, 1000);
+    const history = await DatabaseManager.getInstance().getRatingHistory(req.params.userId, limit);
+    res.json({ userId: req.params.userId, history });
+  } catch (error) {
+    console.error('rating history error:', error);
+    res.status(500).json({ error: 'failed to load rating history (╯°□°）╯︵ ┻━┻' });
+  }
+});
+
 // health check endpoint
 app.get('/health', (req: any, res: any) => {
   res.json({ status: 'ok', message: 'otoq upload server running (￣ー￣)ゞ' });